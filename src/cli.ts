@@ -7,66 +7,124 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Compiler } from './compiler';
+import { Compiler, CompilerOptions } from './compiler';
+import { Parser } from './parser/parser';
+import { N8nWorkflow } from './types/n8n';
+import { decompile } from './decompiler/decompiler';
+import { format } from './formatter/formatter';
+import { startServer } from './lsp/server';
+import { readParamsFile, parseParamAssignments } from './utils/params';
+import { createLockFile, lockFilePath, readLockFile, writeLockFile } from './utils/lockFile';
 
 const program = new Command();
 
+// Repeatable options gather their values in a list
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name('n8n-dsl')
   .description('Compile DSL workflows to n8n JSON format')
   .version('0.1.0');
 
-program
+// Options shared by compile and build
+function addCompileOptions(command: Command): Command {
+  return command
+    .option('--no-validate', 'Skip validation')
+    .option('--strict', 'Treat warnings as errors')
+    .option('--no-auto-layout', 'Disable automatic node positioning')
+    .option('--spacing <number>', 'Space between layers of the auto-layout', '200')
+    .option('--branch-spacing <number>', 'Space between branches of the auto-layout', '200')
+    .option('--direction <direction>', 'Auto-layout direction: horizontal or vertical', 'horizontal')
+    .option('--param <key=value>', 'Value for a workflow param (repeatable)', collect, [])
+    .option('--params-file <file>', 'JSON or YAML file of param values; --param overrides it')
+    .option('--redact', 'Mask secrets (env() values, secret-looking params and parameters) in the output and errors')
+    .option('--instance-id <id>', 'n8n instance id for the workflow meta (default: derived from the workflow name)')
+    .option('--lock', 'Keep node ids in <input>.lock across renames, and update it');
+}
+
+function compilerOptions(options: any, inputPath: string): CompilerOptions {
+  if (!['horizontal', 'vertical'].includes(options.direction)) {
+    console.error(`Error: --direction must be horizontal or vertical`);
+    process.exit(1);
+  }
+
+  let params: Record<string, unknown> = {};
+  if (options.paramsFile) {
+    const paramsPath = path.resolve(options.paramsFile);
+    if (!fs.existsSync(paramsPath)) {
+      console.error(`Error: Params file '${options.paramsFile}' not found`);
+      process.exit(1);
+    }
+    params = readParamsFile(paramsPath);
+  }
+  params = { ...params, ...parseParamAssignments(options.param) };
+
+  return {
+    validate: options.validate,
+    strict: options.strict,
+    autoLayout: options.autoLayout,
+    spacing: parseInt(options.spacing),
+    branchSpacing: parseInt(options.branchSpacing),
+    layoutDirection: options.direction,
+    sourcePath: inputPath,
+    redact: options.redact,
+    instanceId: options.instanceId,
+    lock: options.lock ? readLockFile(lockFilePath(inputPath)) : undefined,
+    params
+  };
+}
+
+// Exits on errors; prints warnings and returns the workflow otherwise
+function compileOrExit(dslCode: string, options: CompilerOptions): N8nWorkflow {
+  const result = new Compiler(options).compile(dslCode);
+  const label = options.environment ? ` (environment '${options.environment}')` : '';
+
+  if (!result.success) {
+    console.error(`Compilation failed${label}:`);
+    for (const error of result.errors) {
+      const location = error.line ? ` (line ${error.line}:${error.column})` : '';
+      console.error(`  ${error.type}: ${error.message}${location}`);
+    }
+    process.exit(1);
+  }
+
+  if (result.warnings.length > 0) {
+    console.warn(`Warnings${label}:`);
+    for (const warning of result.warnings) {
+      const location = warning.line ? ` (line ${warning.line}:${warning.column})` : '';
+      console.warn(`  ${warning.type}: ${warning.message}${location}`);
+    }
+  }
+  return result.workflow!;
+}
+
+function readInput(input: string): { inputPath: string; dslCode: string } {
+  const inputPath = path.resolve(input);
+  if (!fs.existsSync(inputPath)) {
+    console.error(`Error: Input file '${input}' not found`);
+    process.exit(1);
+  }
+  return { inputPath, dslCode: fs.readFileSync(inputPath, 'utf-8') };
+}
+
+addCompileOptions(program
   .command('compile')
   .description('Compile DSL file to n8n JSON')
   .argument('<input>', 'Input DSL file')
   .option('-o, --output <file>', 'Output JSON file')
-  .option('--no-validate', 'Skip validation')
-  .option('--strict', 'Treat warnings as errors')
-  .option('--no-auto-layout', 'Disable automatic node positioning')
-  .option('--spacing <number>', 'Node spacing for auto-layout', '200')
+  .option('--env <name>', 'Use the values of an environment block'))
   .action((input, options) => {
     try {
-      // Read input file
-      const inputPath = path.resolve(input);
-      if (!fs.existsSync(inputPath)) {
-        console.error(`Error: Input file '${input}' not found`);
-        process.exit(1);
-      }
-
-      const dslCode = fs.readFileSync(inputPath, 'utf-8');
-
-      // Compile
-      const compiler = new Compiler({
-        validate: options.validate,
-        strict: options.strict,
-        autoLayout: options.autoLayout,
-        spacing: parseInt(options.spacing)
-      });
-
-      const result = compiler.compile(dslCode);
-
-      // Handle errors
-      if (!result.success) {
-        console.error('Compilation failed:');
-        for (const error of result.errors) {
-          const location = error.line ? ` (line ${error.line}:${error.column})` : '';
-          console.error(`  ${error.type}: ${error.message}${location}`);
-        }
-        process.exit(1);
-      }
-
-      // Show warnings
-      if (result.warnings.length > 0) {
-        console.warn('Warnings:');
-        for (const warning of result.warnings) {
-          const location = warning.line ? ` (line ${warning.line}:${warning.column})` : '';
-          console.warn(`  ${warning.type}: ${warning.message}${location}`);
-        }
+      const { inputPath, dslCode } = readInput(input);
+      const workflow = compileOrExit(dslCode, { ...compilerOptions(options, inputPath), environment: options.env });
+      if (options.lock) {
+        writeLockFile(lockFilePath(inputPath), createLockFile(workflow));
       }
 
       // Generate output
-      const json = JSON.stringify(result.workflow, null, 2);
+      const json = JSON.stringify(workflow, null, 2);
 
       if (options.output) {
         const outputPath = path.resolve(options.output);
@@ -82,6 +140,50 @@ program
     }
   });
 
+addCompileOptions(program
+  .command('build')
+  .description('Compile DSL file to JSON files in a directory, one per environment')
+  .argument('<input>', 'Input DSL file')
+  .option('-d, --out-dir <dir>', 'Directory for the JSON files', '.')
+  .option('--env <name>', 'Use the values of an environment block')
+  .option('--all-envs', 'Build every environment block, as <input>-<environment>.json'))
+  .action((input, options) => {
+    try {
+      const { inputPath, dslCode } = readInput(input);
+      const compiler = compilerOptions(options, inputPath);
+
+      let environments: (string | undefined)[] = [options.env];
+      if (options.allEnvs) {
+        const workflow = new Parser(dslCode).parse().workflow;
+        environments = workflow.environments.map(environment => environment.name);
+        if (environments.length === 0) {
+          console.error(`Error: '${input}' declares no environment blocks`);
+          process.exit(1);
+        }
+      }
+
+      const outDir = path.resolve(options.outDir);
+      fs.mkdirSync(outDir, { recursive: true });
+      const baseName = path.basename(inputPath, path.extname(inputPath));
+
+      let workflow: N8nWorkflow | undefined;
+      for (const environment of environments) {
+        workflow = compileOrExit(dslCode, { ...compiler, environment });
+        const file = path.join(outDir, `${environment ? `${baseName}-${environment}` : baseName}.json`);
+        fs.writeFileSync(file, JSON.stringify(workflow, null, 2));
+        console.log(`✓ Built ${path.relative(process.cwd(), file)}`);
+      }
+
+      // Environments don't change the nodes, so the last build stands for all of them
+      if (options.lock && workflow) {
+        writeLockFile(lockFilePath(inputPath), createLockFile(workflow));
+      }
+    } catch (error) {
+      console.error(`Error: ${error}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command('validate')
   .description('Validate DSL file without generating output')
@@ -115,6 +217,100 @@ program
     }
   });
 
+program
+  .command('decompile')
+  .description('Convert n8n workflow JSON to DSL source')
+  .argument('<input>', 'Input n8n workflow JSON file')
+  .option('-o, --output <file>', 'Output DSL file')
+  .action((input, options) => {
+    try {
+      const inputPath = path.resolve(input);
+      if (!fs.existsSync(inputPath)) {
+        console.error(`Error: Input file '${input}' not found`);
+        process.exit(1);
+      }
+
+      const workflow = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+      if (!Array.isArray(workflow.nodes)) {
+        console.error(`Error: '${input}' is not an n8n workflow (missing nodes array)`);
+        process.exit(1);
+      }
+
+      const dslCode = decompile(workflow);
+
+      if (options.output) {
+        fs.writeFileSync(path.resolve(options.output), dslCode);
+        console.log(`✓ Decompiled successfully to ${options.output}`);
+      } else {
+        process.stdout.write(dslCode);
+      }
+
+    } catch (error) {
+      console.error(`Error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('fmt')
+  .description('Format DSL files in the canonical layout')
+  .argument('<inputs...>', 'DSL files to format')
+  .option('--check', 'Exit with an error if any file is not formatted')
+  .option('--write', 'Rewrite files in place')
+  .action((inputs: string[], options) => {
+    let unformatted = 0;
+    let failed = false;
+
+    for (const input of inputs) {
+      const inputPath = path.resolve(input);
+      if (!fs.existsSync(inputPath)) {
+        console.error(`Error: Input file '${input}' not found`);
+        failed = true;
+        continue;
+      }
+
+      const source = fs.readFileSync(inputPath, 'utf-8');
+      let formatted: string;
+      try {
+        formatted = format(source);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`${input}: ${message}`);
+        failed = true;
+        continue;
+      }
+
+      if (options.check) {
+        if (formatted !== source) {
+          console.log(input);
+          unformatted++;
+        }
+      } else if (options.write) {
+        if (formatted !== source) {
+          fs.writeFileSync(inputPath, formatted);
+          console.log(`✓ Formatted ${input}`);
+        }
+      } else {
+        process.stdout.write(formatted);
+      }
+    }
+
+    if (options.check && unformatted > 0) {
+      console.error(`${unformatted} file(s) need formatting`);
+    }
+    if (failed || unformatted > 0) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command('lsp')
+  .description('Start the language server for editors')
+  .option('--stdio', 'Communicate over stdin/stdout (the default)')
+  .action(() => {
+    startServer();
+  });
+
 program
   .command('example')
   .description('Generate example DSL files')
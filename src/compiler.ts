@@ -3,7 +3,7 @@
  */
 
 import { Parser, ParseError } from './parser/parser';
-import { Generator, GeneratorOptions } from './generator/generator';
+import { Generator, GeneratorOptions, GeneratorError } from './generator/generator';
 import { Validator, ValidationError } from './utils/validation';
 import { N8nWorkflow } from './types/n8n';
 import { Program } from './types/dsl';
@@ -36,6 +36,8 @@ export class Compiler {
   compile(dslCode: string): CompilerResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationError[] = [];
+    // Error messages may quote values read from the environment; the generator masks them
+    const generator = new Generator(this.options);
 
     try {
       // Parse DSL to AST
@@ -77,7 +79,6 @@ export class Compiler {
       }
 
       // Generate n8n workflow JSON
-      const generator = new Generator(this.options);
       const workflow = generator.generate(ast);
 
       // Validate generated workflow if requested
@@ -120,9 +121,16 @@ export class Compiler {
           column: error.token.column,
           type: 'error'
         });
+      } else if (error instanceof GeneratorError) {
+        errors.push({
+          message: generator.redact(error.message),
+          line: error.line,
+          column: error.column,
+          type: 'error'
+        });
       } else {
         errors.push({
-          message: `Compilation error: ${error}`,
+          message: generator.redact(`Compilation error: ${error}`),
           type: 'error'
         });
       }
@@ -0,0 +1,442 @@
+/**
+ * Decompiler: converts n8n workflow JSON back into DSL source
+ */
+
+import { N8nWorkflow, N8nNode, NodeCredential, WorkflowConnections } from '../types/n8n';
+import { DSL_TO_N8N_NODE_TYPES, NODE_SETTINGS, isNodeSetting } from '../types/dsl';
+import { NodeTemplate, getNodeTemplate } from '../generator/nodeTemplates';
+import { getTypePorts, numberedPortName } from '../generator/ports';
+import { Parser } from '../parser/parser';
+import { quoteString, escapeString, formatKey, isPlainIdentifier } from '../formatter/formatter';
+import { deriveNodeId } from '../utils/ids';
+
+// n8n type -> DSL type; the first DSL name wins if several map to the same type
+const N8N_TO_DSL_NODE_TYPES: Record<string, string> = {};
+for (const [dslType, n8nType] of Object.entries(DSL_TO_N8N_NODE_TYPES)) {
+  if (!(n8nType in N8N_TO_DSL_NODE_TYPES)) {
+    N8N_TO_DSL_NODE_TYPES[n8nType] = dslType;
+  }
+}
+
+const INDENT = '  ';
+
+export class Decompiler {
+  private names: Map<string, string> = new Map(); // n8n node name -> DSL identifier
+  private nodeTypes: Map<string, string> = new Map(); // n8n node name -> n8n type
+  private predecessors: Map<string, Set<string>> = new Map(); // over main connections
+  private ancestors: Map<string, Set<string>> = new Map();
+  private credentials: Map<string, string> = new Map(); // credential key -> DSL identifier
+  private workflowName = '';
+
+  decompile(workflow: N8nWorkflow): string {
+    this.names = this.assignNames(workflow.nodes);
+    this.buildGraph(workflow.connections || {});
+
+    this.workflowName = workflow.name || 'imported-workflow';
+    const lines: string[] = [`workflow ${quoteString(this.workflowName)} {`];
+
+    const credentials = this.decompileCredentials(workflow.nodes);
+    if (credentials.length > 0) {
+      lines.push(...credentials, '');
+    }
+
+    workflow.nodes.forEach((node, index) => {
+      if (index > 0) lines.push('');
+      lines.push(...this.decompileNode(node));
+    });
+
+    const connects = this.decompileConnections(workflow.connections || {});
+    if (connects.length > 0) {
+      lines.push('');
+      lines.push(...connects.map(line => INDENT + line));
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  private decompileNode(node: N8nNode): string[] {
+    const lines: string[] = [];
+    const name = this.names.get(node.name)!;
+    const { type, parameters } = this.reverseTemplate(node);
+
+    // DSL names must be identifiers; keep the original display name for reference
+    if (name !== node.name) {
+      lines.push(`${INDENT}// ${node.name}`);
+    }
+    // Ids the compiler wouldn't derive are kept, so re-importing updates the node
+    if (node.id && node.id !== deriveNodeId(this.workflowName, name)) {
+      lines.push(`${INDENT}@id(${quoteString(node.id)})`);
+    }
+
+    // Settings come first, as the formatter prints them; parameters with the
+    // same name as a setting are quoted
+    const settings = this.decompileSettings(node);
+    const entries: [string, string][] = [
+      ...Object.entries(settings).map(([key, value]): [string, string] => [key, this.formatValue(value, node, 2)]),
+      ...Object.entries(parameters).map(([key, value]): [string, string] =>
+        [isNodeSetting(key) ? quoteString(key) : formatKey(key), this.formatValue(value, node, 2)])
+    ];
+    const credentials = Object.entries(node.credentials || {})
+      .map(([type, credential]) => this.credentials.get(this.credentialKey(type, credential))!);
+    if (credentials.length > 0) {
+      entries.unshift(['credentials', credentials.length === 1 ? credentials[0] : `[${credentials.join(', ')}]`]);
+    }
+    if (entries.length === 0) {
+      lines.push(`${INDENT}node ${name} ${quoteString(type)} {}`);
+      return lines;
+    }
+
+    lines.push(`${INDENT}node ${name} ${quoteString(type)} {`);
+    for (const [key, value] of entries) {
+      lines.push(`${INDENT}${INDENT}${key}: ${value}`);
+    }
+    lines.push(`${INDENT}}`);
+    return lines;
+  }
+
+  // One declaration per distinct credential the nodes use
+  private decompileCredentials(nodes: N8nNode[]): string[] {
+    const used = new Set(this.names.values());
+    const lines: string[] = [];
+    this.credentials = new Map();
+
+    for (const node of nodes) {
+      for (const [type, credential] of Object.entries(node.credentials || {})) {
+        const key = this.credentialKey(type, credential);
+        if (this.credentials.has(key)) continue;
+
+        const base = this.toIdentifier(credential.name || type);
+        let name = base;
+        for (let suffix = 2; used.has(name); suffix++) {
+          name = `${base}${suffix}`;
+        }
+        used.add(name);
+        this.credentials.set(key, name);
+
+        const fields = [`id: ${quoteString(String(credential.id ?? ''))}`, `name: ${quoteString(credential.name ?? '')}`];
+        lines.push(`${INDENT}credential ${name} ${quoteString(type)} { ${fields.join(', ')} }`);
+      }
+    }
+    return lines;
+  }
+
+  private credentialKey(type: string, credential: NodeCredential): string {
+    return JSON.stringify([type, credential.id, credential.name]);
+  }
+
+  // Node fields that have a DSL setting; positions are left to the auto-layout, credentials to their declarations
+  private decompileSettings(node: N8nNode): Record<string, any> {
+    const fields = node as unknown as Record<string, unknown>;
+    const settings: Record<string, any> = {};
+    for (const key of Object.keys(NODE_SETTINGS)) {
+      if (key !== 'position' && key !== 'credentials' && fields[key] !== undefined) {
+        settings[key] = fields[key];
+      }
+    }
+    // onError supersedes the legacy flag
+    if (settings.onError !== undefined) {
+      delete settings.continueOnFail;
+    }
+    return settings;
+  }
+
+  /**
+   * Pick the DSL type and parameters for a node. Template mappings are only
+   * reversed when mapping the result again reproduces the original parameters;
+   * otherwise the node keeps its n8n type and raw parameters.
+   */
+  private reverseTemplate(node: N8nNode): { type: string; parameters: Record<string, any> } {
+    const raw = { type: node.type, parameters: node.parameters || {} };
+    const dslType = N8N_TO_DSL_NODE_TYPES[node.type];
+    if (!dslType) {
+      return raw;
+    }
+
+    const template = getNodeTemplate(node.type);
+    if (!template) {
+      // Nodes without a template pass their parameters straight through
+      return { type: dslType, parameters: raw.parameters };
+    }
+
+    // The generator sets hasOutputParser when a parser is connected
+    const { hasOutputParser, ...parameters } = raw.parameters;
+    const original = hasOutputParser === true ? parameters : raw.parameters;
+
+    // and the authentication parameters that go with the node's credentials
+    const authentication: Record<string, any> = Object.assign({},
+      ...Object.keys(node.credentials || {}).map(type => template.credentialParameters?.(type)));
+    const unauthenticated = Object.fromEntries(Object.entries(original)
+      .filter(([key, value]) => !(key in authentication) || authentication[key] !== value));
+
+    const unmapped = template.unmapParameters?.(unauthenticated);
+    if (unmapped && this.roundTrips(template, unmapped, original, authentication)) {
+      return { type: dslType, parameters: this.withoutUndefined(unmapped) };
+    }
+    return raw;
+  }
+
+  private roundTrips(
+    template: NodeTemplate,
+    unmapped: Record<string, any>,
+    original: Record<string, any>,
+    authentication: Record<string, any>
+  ): boolean {
+    // Condition and assignment ids are derived again when the DSL is compiled, so they don't count.
+    // Key order doesn't matter to n8n; the credential's authentication parameters may come last.
+    const normalise = (value: any): any => JSON.stringify(value, (key, item) => {
+      if (key === 'id') return undefined;
+      return item !== null && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.keys(item).sort().map(name => [name, item[name]]))
+        : item;
+    });
+    return normalise({ ...template.mapParameters(unmapped), ...authentication }) === normalise(original);
+  }
+
+  private withoutUndefined(params: Record<string, any>): Record<string, any> {
+    return JSON.parse(JSON.stringify(params));
+  }
+
+  private decompileConnections(connections: WorkflowConnections): string[] {
+    const lines: string[] = [];
+
+    for (const [sourceName, outputs] of Object.entries(connections)) {
+      const source = this.names.get(sourceName);
+      const sourceType = this.nodeTypes.get(sourceName);
+
+      for (const [connectionType, byIndex] of Object.entries(outputs)) {
+        (byIndex || []).forEach((targets, outputIndex) => {
+          for (const target of targets || []) {
+            const targetName = this.names.get(target.node);
+            if (!source || !targetName) {
+              lines.push(`// connect ${sourceName} -> ${target.node} (unknown node)`);
+              continue;
+            }
+
+            const from = source + this.outputSuffix(sourceType, outputIndex);
+            const to = targetName + (target.index > 0 ? `.${numberedPortName(target.index, 'input')}` : '');
+
+            if (connectionType === 'main') {
+              lines.push(`connect ${from} -> ${to}`);
+              continue;
+            }
+
+            // Sub-nodes connect to the root's input of their type
+            const inputs = getTypePorts(this.nodeTypes.get(target.node) || '').inputs.names;
+            const input = Object.keys(inputs).find(name => inputs[name].type === connectionType);
+            if (input) {
+              lines.push(`connect ${source} -> ${targetName}.${input}`);
+            } else {
+              lines.push(`// connect ${from} -> ${to} (${connectionType} connections are not supported yet)`);
+            }
+          }
+        });
+      }
+    }
+
+    return lines;
+  }
+
+  // Outputs the type names, as flow.if's true/false and a batching node's done/loop, go by their name
+  private outputSuffix(nodeType: string | undefined, index: number): string {
+    const outputs = getTypePorts(nodeType || '').outputs.names;
+    const name = Object.keys(outputs).find(candidate => outputs[candidate].type === 'main' && outputs[candidate].index === index);
+    if (name) {
+      return `.${name}`;
+    }
+    return index === 0 ? '' : `.${numberedPortName(index, 'output')}`;
+  }
+
+  private assignNames(nodes: N8nNode[]): Map<string, string> {
+    const names = new Map<string, string>();
+    const used = new Set<string>();
+    this.nodeTypes = new Map();
+
+    for (const node of nodes) {
+      const base = this.toIdentifier(node.name);
+      let name = base;
+      for (let suffix = 2; used.has(name); suffix++) {
+        name = `${base}${suffix}`;
+      }
+      used.add(name);
+      names.set(node.name, name);
+      this.nodeTypes.set(node.name, node.type);
+    }
+
+    return names;
+  }
+
+  // "HTTP Request" -> httpRequest, "Send Email 2" -> sendEmail2, "enrich.lookup" -> enrichLookup
+  private toIdentifier(name: string): string {
+    if (isPlainIdentifier(name)) {
+      return name;
+    }
+
+    const words = name.split(/[^A-Za-z0-9]+/).filter(word => word.length > 0);
+    let identifier = words
+      .map((word, index) => {
+        if (index > 0) return word[0].toUpperCase() + word.slice(1);
+        return word === word.toUpperCase() ? word.toLowerCase() : word[0].toLowerCase() + word.slice(1);
+      })
+      .join('');
+
+    if (identifier === '' || /^[0-9]/.test(identifier)) {
+      identifier = `node${identifier}`;
+    }
+    if (!isPlainIdentifier(identifier)) {
+      identifier = `${identifier}Node`;
+    }
+    return identifier;
+  }
+
+  private buildGraph(connections: WorkflowConnections): void {
+    this.predecessors = new Map();
+    const allPredecessors = new Map<string, Set<string>>();
+
+    for (const [source, outputs] of Object.entries(connections)) {
+      for (const [connectionType, byIndex] of Object.entries(outputs)) {
+        for (const targets of byIndex || []) {
+          for (const target of targets || []) {
+            if (!allPredecessors.has(target.node)) allPredecessors.set(target.node, new Set());
+            allPredecessors.get(target.node)!.add(source);
+
+            if (connectionType === 'main') {
+              if (!this.predecessors.has(target.node)) this.predecessors.set(target.node, new Set());
+              this.predecessors.get(target.node)!.add(source);
+            }
+          }
+        }
+      }
+    }
+
+    this.ancestors = new Map();
+    for (const node of allPredecessors.keys()) {
+      const seen = new Set<string>();
+      const queue = [...allPredecessors.get(node)!];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        queue.push(...(allPredecessors.get(current) || []));
+      }
+      this.ancestors.set(node, seen);
+    }
+  }
+
+  private formatValue(value: any, node: N8nNode, depth: number): string {
+    if (value === null || value === undefined) {
+      return 'null';
+    }
+
+    if (typeof value === 'string') {
+      return this.convertExpression(value, node) ?? quoteString(value);
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+
+    const indent = INDENT.repeat(depth);
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        return '[]';
+      }
+      const items = value.map(item => this.formatValue(item, node, depth + 1));
+      const inline = `[${items.join(', ')}]`;
+      if (!inline.includes('\n') && inline.length <= 60) {
+        return inline;
+      }
+      return `[\n${items.map(item => `${indent}${INDENT}${item}`).join(',\n')}\n${indent}]`;
+    }
+
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    const properties = entries.map(([key, item]) =>
+      `${indent}${INDENT}${formatKey(key)}: ${this.formatValue(item, node, depth + 1)}`
+    );
+    return `{\n${properties.join('\n')}\n${indent}}`;
+  }
+
+  /**
+   * Turn an n8n expression that reads other nodes (`={{ $json.email }}`) back into
+   * DSL (`fetchUser.output.email`). Returns null if any part can't be expressed.
+   */
+  private convertExpression(value: string, node: N8nNode): string | null {
+    if (!value.startsWith('=')) {
+      return null;
+    }
+
+    const segments = value.slice(1).split(/\{\{([\s\S]*?)\}\}/);
+    if (segments.length === 1) {
+      return null;
+    }
+
+    const expressions: string[] = [];
+    for (let i = 1; i < segments.length; i += 2) {
+      const converted = this.convertSegment(segments[i].trim(), node);
+      if (converted === null) {
+        return null;
+      }
+      expressions.push(converted);
+    }
+
+    // A single {{ }} is the whole value
+    if (segments.length === 3 && segments[0] === '' && segments[2] === '') {
+      return expressions[0];
+    }
+
+    const quote = segments.some((text, i) => i % 2 === 0 && text.includes('\n')) ? '`' : '"';
+    const body = segments
+      .map((text, i) => i % 2 === 0 ? escapeString(text, quote) : '${' + expressions[(i - 1) / 2] + '}')
+      .join('');
+    return quote + body + quote;
+  }
+
+  private convertSegment(js: string, node: N8nNode): string | null {
+    let expressible = false;
+    const ancestors = this.ancestors.get(node.name) || new Set();
+
+    let converted = js.replace(/\$\(\s*(['"])((?:(?!\1)[^\\])*)\1\s*\)\.item\.json\b/g, (match, _quote, name) => {
+      const dslName = this.names.get(name);
+      if (!dslName || !ancestors.has(name)) {
+        return match;
+      }
+      expressible = true;
+      return `${dslName}.output`;
+    });
+
+    const predecessors = this.predecessors.get(node.name);
+    if (predecessors && predecessors.size === 1) {
+      const predecessor = this.names.get([...predecessors][0])!;
+      converted = converted.replace(/\$json\b/g, () => {
+        expressible = true;
+        return `${predecessor}.output`;
+      });
+    }
+
+    // $env.NAME is read by runtimeEnv()
+    converted = converted.replace(/\$env\.([A-Za-z_][\w]*)\b(?!\s*\()/g, (_match, name) => {
+      expressible = true;
+      return `runtimeEnv(${quoteString(name)})`;
+    });
+
+    // Anything still using n8n variables, or operators the DSL lacks, stays as an n8n expression
+    if (!expressible || /[$\\`]/.test(converted) || /(^|[^|&])[|&]([^|&]|$)/.test(converted)) {
+      return null;
+    }
+
+    try {
+      new Parser(converted).parseStandaloneExpression();
+    } catch {
+      return null;
+    }
+    return converted;
+  }
+}
+
+export function decompile(workflow: N8nWorkflow): string {
+  return new Decompiler().decompile(workflow);
+}
@@ -0,0 +1,532 @@
+/**
+ * Source formatter: prints DSL files in a canonical layout, keeping comments
+ */
+
+import { Lexer, TokenType } from '../parser/lexer';
+import { Parser } from '../parser/parser';
+import {
+  ASTNode, Program, ModuleDefinition, ParameterDeclaration, EnvironmentDeclaration, CredentialDeclaration,
+  VariableDeclaration, NodeDeclaration, ModuleDeclaration, ConnectionDeclaration,
+  ConnectionEndpoint, ConnectionStatement, FlowBlock, FlowElement, OutputDeclaration, Expression, LiteralExpression, BinaryOperator, isNodeSetting
+} from '../types/dsl';
+
+const INDENT = '  ';
+const MAX_INLINE_WIDTH = 80;
+
+// Words the lexer treats as keywords (case-insensitively), so keys must be quoted
+const KEYWORDS = new Set([
+  'workflow', 'param', 'var', 'node', 'module', 'connect',
+  'true', 'false', 'string', 'number', 'boolean', 'array', 'object'
+]);
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6
+};
+
+const UNARY_PRECEDENCE = 7;
+const POSTFIX_PRECEDENCE = 8;
+
+// Statements of a workflow or module body, grouped in canonical order
+interface Body {
+  parameters: ParameterDeclaration[];
+  variables: VariableDeclaration[];
+  environments?: EnvironmentDeclaration[];
+  credentials: CredentialDeclaration[];
+  nodes: (NodeDeclaration | ModuleDeclaration)[];
+  connections: ConnectionDeclaration[];
+  outputs?: OutputDeclaration[];
+  innerComments?: string[];
+}
+
+export class Formatter {
+  /**
+   * Format a workflow file or a module file. Throws ParseError if the source
+   * doesn't parse.
+   */
+  format(source: string): string {
+    const first = new Lexer(source).tokenize()
+      .find(token => token.type !== TokenType.COMMENT && token.type !== TokenType.NEWLINE);
+
+    if (first?.type === TokenType.WORKFLOW) {
+      return this.formatProgram(new Parser(source).parse());
+    }
+    return this.formatModule(new Parser(source).parseModuleDefinition());
+  }
+
+  formatProgram(program: Program): string {
+    const workflow = program.workflow;
+    const lines: string[] = [];
+
+    this.pushComments(lines, workflow.leadingComments, '');
+    lines.push(`workflow ${quoteString(workflow.name)} {`);
+    lines.push(...this.formatBody(workflow, INDENT));
+    lines.push(this.withTrailing('}', workflow));
+    this.pushComments(lines, program.innerComments, '');
+
+    return lines.join('\n') + '\n';
+  }
+
+  formatModule(definition: ModuleDefinition): string {
+    const lines: string[] = [];
+
+    // The wrapped form (module "name" { ... }) keeps its wrapper
+    if (definition.name !== undefined) {
+      this.pushComments(lines, definition.leadingComments, '');
+      lines.push(`module ${quoteString(definition.name)} {`);
+      lines.push(...this.formatBody(definition, INDENT));
+      lines.push('}');
+    } else {
+      lines.push(...this.formatBody(definition, ''));
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // Params, vars, environments, credentials, nodes, connects, then outputs; blank lines between groups and nodes
+  private formatBody(body: Body, indent: string): string[] {
+    const groups: string[][] = [];
+
+    const simpleGroup = (statements: ASTNode[], print: (statement: any) => string) => {
+      if (statements.length === 0) return;
+      const lines: string[] = [];
+      for (const statement of statements) {
+        this.pushComments(lines, statement.leadingComments, indent);
+        lines.push(indent + this.withTrailing(print(statement), statement));
+      }
+      groups.push(lines);
+    };
+
+    simpleGroup(body.parameters, param => this.formatParameter(param, indent));
+    simpleGroup(body.variables, variable =>
+      `var ${variable.name} = ${this.formatExpression(variable.value, indent)}`
+    );
+    for (const environment of body.environments || []) {
+      const lines: string[] = [];
+      this.pushComments(lines, environment.leadingComments, indent);
+      lines.push(...this.formatEnvironment(environment, indent));
+      groups.push(lines);
+    }
+    simpleGroup(body.credentials, credential => this.formatCredential(credential, indent));
+
+    // Nodes declared in a flow block print as the block, where its first node was
+    const flows = new Set<FlowBlock>();
+    for (const node of body.nodes) {
+      const lines: string[] = [];
+      if (node.type === 'NodeDeclaration' && node.flow) {
+        if (flows.has(node.flow)) continue;
+        flows.add(node.flow);
+        this.pushComments(lines, node.flow.leadingComments, indent);
+        lines.push(...this.formatFlow(node.flow, indent));
+      } else {
+        this.pushComments(lines, node.leadingComments, indent);
+        lines.push(...this.formatNode(node, indent));
+      }
+      groups.push(lines);
+    }
+
+    // Connections expanded from one statement print as that statement
+    const statements = new Set<ConnectionStatement>();
+    simpleGroup(body.connections.filter(connection => {
+      if (connection.flow) return false;
+      if (!connection.statement) return true;
+      if (statements.has(connection.statement)) return false;
+      statements.add(connection.statement);
+      return true;
+    }), connection => this.formatConnection(connection));
+    simpleGroup(body.outputs || [], output => this.formatOutput(output));
+
+    const lines: string[] = [];
+    groups.forEach((group, index) => {
+      if (index > 0) lines.push('');
+      lines.push(...group);
+    });
+
+    if (body.innerComments) {
+      if (lines.length > 0) lines.push('');
+      this.pushComments(lines, body.innerComments, indent);
+    }
+    return lines;
+  }
+
+  private formatParameter(param: ParameterDeclaration, indent: string): string {
+    const declaration = `param ${param.name} ${param.paramType}${param.nullable ? '?' : ''}`;
+    const rules = param.validation || {};
+    if (param.description === undefined && Object.keys(rules).length === 0) {
+      return param.defaultValue === undefined
+        ? declaration
+        : `${declaration} = ${this.formatExpression(param.defaultValue, indent)}`;
+    }
+
+    // Rules and descriptions need the block form, which then holds the default too
+    const inner = indent + INDENT;
+    const lines = [`${declaration} {`];
+    for (const key of ['min', 'max', 'pattern', 'allowed'] as const) {
+      if (rules[key] !== undefined) {
+        lines.push(`${inner}${key}: ${formatLiteral(rules[key])}`);
+      }
+    }
+    if (param.defaultValue !== undefined) {
+      lines.push(`${inner}default: ${this.formatExpression(param.defaultValue, inner)}`);
+    }
+    if (param.description !== undefined) {
+      lines.push(`${inner}description: ${quoteString(param.description)}`);
+    }
+    lines.push(`${indent}}`);
+    return lines.join('\n');
+  }
+
+  private formatEnvironment(environment: EnvironmentDeclaration, indent: string): string[] {
+    const inner = indent + INDENT;
+    const lines = [`${indent}environment ${quoteString(environment.name)} {`];
+    for (const [name, value] of Object.entries(environment.overrides)) {
+      this.pushComments(lines, value.leadingComments, inner);
+      lines.push(this.withTrailing(`${inner}${name} = ${this.formatExpression(value, inner)}`, value));
+    }
+    this.pushComments(lines, environment.innerComments, inner);
+    lines.push(this.withTrailing(`${indent}}`, environment));
+    return lines;
+  }
+
+  // One line, unless there are comments inside to keep
+  private formatCredential(credential: CredentialDeclaration, indent: string): string {
+    const declaration = `credential ${credential.name} ${quoteString(credential.credentialType)}`;
+    const fields = Object.entries(credential.fields);
+    const commented = !!credential.innerComments?.length ||
+      fields.some(([, value]) => value.leadingComments?.length || value.trailingComment);
+    if (!commented) {
+      const inline = fields.map(([key, value]) => `${key}: ${this.formatExpression(value, indent)}`);
+      return `${declaration} { ${inline.join(', ')} }`;
+    }
+
+    const inner = indent + INDENT;
+    const lines = [`${declaration} {`];
+    for (const [key, value] of fields) {
+      this.pushComments(lines, value.leadingComments, inner);
+      lines.push(this.withTrailing(`${inner}${key}: ${this.formatExpression(value, inner)}`, value));
+    }
+    this.pushComments(lines, credential.innerComments, inner);
+    lines.push(`${indent}}`);
+    return lines.join('\n');
+  }
+
+  // In a flow block, nodes are declared without the node keyword and follow an arrow
+  private formatNode(node: NodeDeclaration | ModuleDeclaration, indent: string, flowPrefix?: string): string[] {
+    const header = node.type === 'ModuleDeclaration'
+      ? `module ${node.name} = ${this.formatModulePath(node.modulePath)}`
+      : `${flowPrefix ?? 'node '}${node.name} ${quoteString(node.nodeType)}`;
+
+    // Settings come first; parameters that share a setting's name stay quoted
+    const entries: [string, Expression][] = node.type === 'NodeDeclaration'
+      ? [
+          ...Object.entries(node.settings),
+          ...Object.entries(node.parameters).map(([key, value]): [string, Expression] =>
+            [isNodeSetting(key) ? quoteString(key) : formatKey(key), value])
+        ]
+      : Object.entries(node.parameters).map(([key, value]) => [formatKey(key), value]);
+
+    const block = this.formatBlock(entries, node.innerComments, indent);
+    const lines = `${indent}${header} ${block}`.split('\n');
+    lines[lines.length - 1] = this.withTrailing(lines[lines.length - 1], node);
+    if (node.type === 'NodeDeclaration' && node.id !== undefined) {
+      lines.unshift(`${indent}@id(${quoteString(node.id)})`);
+    }
+    return lines;
+  }
+
+  /**
+   * One pipeline step per line, with the arrow leading:
+   *   flow {
+   *     trigger "trigger.manual" {}
+   *     -> check "flow.if" {...}
+   *     true {
+   *       ...
+   *     }
+   *   }
+   */
+  private formatFlow(flow: FlowBlock, indent: string): string[] {
+    const lines = [`${indent}flow {`];
+    lines.push(...this.formatPipelines(flow.pipelines, flow.innerComments, indent + INDENT));
+    lines.push(`${indent}}`);
+    return lines;
+  }
+
+  private formatPipelines(pipelines: FlowElement[][], innerComments: string[] | undefined, indent: string): string[] {
+    const lines: string[] = [];
+    pipelines.forEach((pipeline, index) => {
+      if (index > 0) lines.push('');
+      pipeline.forEach((element, position) => {
+        const arrow = position === 0 ? '' : '-> ';
+        if (element.node) {
+          this.pushComments(lines, element.node.leadingComments, indent);
+          lines.push(...this.formatNode(element.node, indent, arrow));
+        } else {
+          const { node, port } = element.reference!;
+          lines.push(`${indent}${arrow}${node}${port ? `.${port}` : ''}`);
+        }
+
+        for (const branch of element.branches || []) {
+          this.pushComments(lines, branch.leadingComments, indent);
+          lines.push(`${indent}${branch.port} {`);
+          lines.push(...this.formatPipelines(branch.pipelines, branch.innerComments, indent + INDENT));
+          lines.push(`${indent}}`);
+        }
+      });
+    });
+    this.pushComments(lines, innerComments, indent);
+    return lines;
+  }
+
+  private formatModulePath(modulePath: string): string {
+    return /^\.\.?\/[A-Za-z0-9_./-]*$/.test(modulePath) ? modulePath : quoteString(modulePath);
+  }
+
+  private formatConnection(connection: ConnectionDeclaration): string {
+    const steps = connection.statement?.steps || [
+      [{ node: connection.source.node, port: connection.source.output }],
+      [{ node: connection.target.node, port: connection.target.input }]
+    ];
+    const formatEndpoint = ({ node, port }: ConnectionEndpoint) => node + (port && port !== 'main' ? `.${port}` : '');
+    return 'connect ' + steps
+      .map(step => step.length === 1 ? formatEndpoint(step[0]) : `[${step.map(formatEndpoint).join(', ')}]`)
+      .join(' -> ');
+  }
+
+  private formatOutput(output: OutputDeclaration): string {
+    return `output ${output.name} = ${[output.node, 'output', ...output.path].join('.')}`;
+  }
+
+  /**
+   * `{ key: value }` with one property per line and values aligned. Keys are given
+   * as printed. Comments on properties are stored on their values.
+   */
+  private formatBlock(entries: [string, Expression][], innerComments: string[] | undefined, indent: string): string {
+    if (entries.length === 0 && !innerComments) {
+      return '{}';
+    }
+
+    const inner = indent + INDENT;
+    const keys = entries.map(([key]) => key + ':');
+    const width = Math.max(0, ...keys.map(key => key.length));
+
+    const lines: string[] = ['{'];
+    entries.forEach(([, value], index) => {
+      this.pushComments(lines, value.leadingComments, inner);
+      const formatted = this.formatExpression(value, inner);
+      lines.push(this.withTrailing(`${inner}${keys[index].padEnd(width)} ${formatted}`, value));
+    });
+    this.pushComments(lines, innerComments, inner);
+    lines.push(`${indent}}`);
+
+    return lines.join('\n');
+  }
+
+  // Short objects in arrays stay on one line: `{ value: "high", output: 0 }`
+  private formatInlineObject(expr: Expression, indent: string): string | null {
+    if (expr.type !== 'ObjectExpression' || expr.innerComments || expr.formField) {
+      return null;
+    }
+    const values = Object.values(expr.properties);
+    if (values.length === 0 || values.some(value => value.leadingComments || value.trailingComment)) {
+      return null;
+    }
+
+    const properties = Object.entries(expr.properties)
+      .map(([key, value]) => `${formatKey(key)}: ${this.formatExpression(value, indent)}`);
+    const inline = `{ ${properties.join(', ')} }`;
+    if (inline.includes('\n') || indent.length + inline.length > MAX_INLINE_WIDTH) {
+      return null;
+    }
+    return inline;
+  }
+
+  // Form fields keep their shorthand: `dropdown "Plan" ["free", "pro"] required`
+  private formatFormField(properties: { [key: string]: Expression }, indent: string): string {
+    const { type, label, options, placeholder } = properties;
+    const parts = [(type as LiteralExpression).value as string, this.formatExpression(label, indent)];
+    if (options) parts.push(this.formatExpression(options, indent));
+    if (properties.required) parts.push('required');
+    if (properties.multiple) parts.push('multiple');
+    if (placeholder) parts.push('placeholder', this.formatExpression(placeholder, indent));
+    return parts.join(' ');
+  }
+
+  formatExpression(expr: Expression, indent: string = ''): string {
+    return this.print(expr, indent).code;
+  }
+
+  private print(expr: Expression, indent: string): { code: string; precedence: number } {
+    switch (expr.type) {
+      case 'LiteralExpression':
+        return {
+          code: typeof expr.value === 'string' ? quoteString(expr.value) : String(expr.value),
+          precedence: POSTFIX_PRECEDENCE
+        };
+
+      case 'IdentifierExpression':
+        return { code: expr.name, precedence: POSTFIX_PRECEDENCE };
+
+      case 'TemplateExpression': {
+        const quote = expr.quasis.some(text => text.includes('\n')) ? '`' : '"';
+        const body = expr.quasis
+          .map((text, index) => {
+            const escaped = escapeString(text, quote);
+            return index < expr.expressions.length
+              ? `${escaped}\${${this.formatExpression(expr.expressions[index])}}`
+              : escaped;
+          })
+          .join('');
+        return { code: quote + body + quote, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'ObjectExpression':
+        if (expr.formField) {
+          return { code: this.formatFormField(expr.properties, indent), precedence: POSTFIX_PRECEDENCE };
+        }
+        return {
+          code: this.formatBlock(
+            Object.entries(expr.properties).map(([key, value]) => [formatKey(key), value]),
+            expr.innerComments,
+            indent
+          ),
+          precedence: POSTFIX_PRECEDENCE
+        };
+
+      case 'ArrayExpression': {
+        if (expr.elements.length === 0) {
+          return { code: '[]', precedence: POSTFIX_PRECEDENCE };
+        }
+        const inner = indent + INDENT;
+        const items = expr.elements.map(element =>
+          this.formatInlineObject(element, inner) ?? this.formatExpression(element, inner)
+        );
+        // A list of several objects always gets one object per line
+        const objects = expr.elements.filter(element => element.type === 'ObjectExpression').length;
+        const inline = `[${items.join(', ')}]`;
+        if (objects < 2 && !inline.includes('\n') && indent.length + inline.length <= MAX_INLINE_WIDTH) {
+          return { code: inline, precedence: POSTFIX_PRECEDENCE };
+        }
+        return {
+          code: `[\n${items.map(item => inner + item).join(',\n')}\n${indent}]`,
+          precedence: POSTFIX_PRECEDENCE
+        };
+      }
+
+      case 'FunctionCallExpression': {
+        const args = expr.arguments.map(arg => this.formatExpression(arg, indent)).join(', ');
+        if (expr.receiver) {
+          const receiver = this.operand(expr.receiver, indent, POSTFIX_PRECEDENCE);
+          const access = expr.optional ? '?.' : '.';
+          return { code: `${receiver}${access}${expr.functionName}(${args})`, precedence: POSTFIX_PRECEDENCE };
+        }
+        return { code: `${expr.functionName}(${args})`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'MemberExpression': {
+        const object = this.operand(expr.object, indent, POSTFIX_PRECEDENCE);
+        const access = expr.optional ? '?.' : '.';
+        return { code: `${object}${access}${expr.property}`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'IndexExpression': {
+        const object = this.operand(expr.object, indent, POSTFIX_PRECEDENCE);
+        return { code: `${object}[${this.formatExpression(expr.index, indent)}]`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'BinaryExpression': {
+        const precedence = PRECEDENCE[expr.operator];
+        const left = this.operand(expr.left, indent, precedence);
+        const right = this.operand(expr.right, indent, precedence + 1);
+        return { code: `${left} ${expr.operator} ${right}`, precedence };
+      }
+
+      case 'UnaryExpression': {
+        const argument = this.operand(expr.argument, indent, UNARY_PRECEDENCE);
+        return { code: `${expr.operator}${argument}`, precedence: UNARY_PRECEDENCE };
+      }
+
+      case 'ConditionalExpression': {
+        const test = this.operand(expr.test, indent, 1);
+        const consequent = this.formatExpression(expr.consequent, indent);
+        const alternate = this.formatExpression(expr.alternate, indent);
+        return { code: `${test} ? ${consequent} : ${alternate}`, precedence: 0 };
+      }
+
+      case 'ArrowFunctionExpression': {
+        const params = expr.params.length === 1 ? expr.params[0] : `(${expr.params.join(', ')})`;
+        return { code: `${params} => ${this.formatExpression(expr.body, indent)}`, precedence: 0 };
+      }
+    }
+  }
+
+  private operand(expr: Expression, indent: string, minPrecedence: number): string {
+    const { code, precedence } = this.print(expr, indent);
+    return precedence < minPrecedence ? `(${code})` : code;
+  }
+
+  private pushComments(lines: string[], comments: string[] | undefined, indent: string): void {
+    for (const comment of comments || []) {
+      lines.push(indent + comment);
+    }
+  }
+
+  private withTrailing(line: string, node: ASTNode): string {
+    return node.trailingComment ? `${line} ${node.trailingComment}` : line;
+  }
+}
+
+export function format(source: string): string {
+  return new Formatter().format(source);
+}
+
+// True if a name can be written bare, as a node name or property key
+export function isPlainIdentifier(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !KEYWORDS.has(name.toLowerCase());
+}
+
+export function formatKey(key: string): string {
+  return isPlainIdentifier(key) ? key : quoteString(key);
+}
+
+// Param rules are literals: strings, numbers, booleans or lists of them
+function formatLiteral(value: string | number | boolean | (string | number | boolean)[]): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatLiteral).join(', ')}]`;
+  }
+  return typeof value === 'string' ? quoteString(value) : String(value);
+}
+
+/**
+ * Quote a string for DSL source: double quotes, or backticks when it spans lines.
+ * `${` is escaped so the text isn't read back as an interpolation.
+ */
+export function quoteString(value: string): string {
+  const quote = value.includes('\n') ? '`' : '"';
+  return quote + escapeString(value, quote) + quote;
+}
+
+export function escapeString(value: string, quote: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/\$\{/g, '\\${');
+
+  if (quote === '`') {
+    return escaped.replace(/`/g, '\\`');
+  }
+
+  return escaped
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+}
@@ -0,0 +1,117 @@
+/**
+ * Built-in functions and methods available in compile-time expressions
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface BuiltinContext {
+  sourcePath?: string; // File being compiled; file() paths resolve relative to it
+  // Told about each environment variable read, so its value can be kept out of the output
+  onEnvRead?(name: string, value: string, secret: boolean): void;
+}
+
+export type BuiltinFunction = (args: any[], context: BuiltinContext) => any;
+
+// Units now(offset, unit) accepts; they're also the keys of Luxon's plus()
+export const TIME_UNITS = ['seconds', 'minutes', 'hours', 'days', 'weeks'];
+
+export const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+  // env(name), env(name, fallback): the value is written into the workflow
+  env: (args, context) => {
+    const name = String(args[0] ?? '');
+    const value = process.env[name];
+    if (value !== undefined) {
+      context.onEnvRead?.(name, value, false);
+      return value;
+    }
+    return args.length > 1 ? args[1] : '';
+  },
+
+  // secret(name): for compile-time decisions only; the value may not reach the workflow
+  secret: (args, context) => {
+    const name = String(args[0] ?? '');
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(`secret(): environment variable '${name}' is not set`);
+    }
+    context.onEnvRead?.(name, value, true);
+    return value;
+  },
+
+  json: (args) => JSON.stringify(args[0]),
+
+  file: (args, context) => {
+    const filePath = String(args[0] ?? '');
+    const baseDir = context.sourcePath ? path.dirname(context.sourcePath) : process.cwd();
+    const resolved = path.resolve(baseDir, filePath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`file(): '${filePath}' not found (resolved to ${resolved})`);
+    }
+    return fs.readFileSync(resolved, 'utf-8');
+  }
+};
+
+/**
+ * Stand-ins for the built-ins that read the environment and the disk, for
+ * checking a document in an editor: those may differ from where it's compiled,
+ * and run on every edit. Secrets still count as secrets.
+ */
+export const EDITOR_BUILTINS: Record<string, BuiltinFunction> = {
+  env: (args) => args.length > 1 ? args[1] : '',
+
+  secret: (args, context) => {
+    const name = String(args[0] ?? '');
+    const placeholder = `<secret ${name}>`;
+    context.onEnvRead?.(name, placeholder, true);
+    return placeholder;
+  },
+
+  // Whether the file exists is cheap to check; its contents aren't needed
+  file: (args, context) => {
+    const filePath = String(args[0] ?? '');
+    const baseDir = context.sourcePath ? path.dirname(context.sourcePath) : process.cwd();
+    const resolved = path.resolve(baseDir, filePath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`file(): '${filePath}' not found (resolved to ${resolved})`);
+    }
+    return '';
+  }
+};
+
+// Built-ins n8n evaluates when the workflow runs: runtimeEnv(name) reads $env, now() reads $now
+export const RUNTIME_BUILTINS = new Set(['runtimeEnv', 'now']);
+
+// Methods callable on compile-time values, by receiver kind
+const ALLOWED_METHODS: Record<string, string[]> = {
+  string: [
+    'toLowerCase', 'toUpperCase', 'trim', 'includes', 'startsWith', 'endsWith',
+    'split', 'replace', 'slice', 'substring', 'padStart', 'padEnd', 'toString'
+  ],
+  number: ['toFixed', 'toString'],
+  boolean: ['toString'],
+  array: [
+    'join', 'includes', 'indexOf', 'slice', 'concat',
+    'map', 'filter', 'find', 'some', 'every'
+  ]
+};
+
+export function callMethod(receiver: any, method: string, args: any[]): any {
+  const kind = Array.isArray(receiver) ? 'array' : typeof receiver;
+  const allowed = ALLOWED_METHODS[kind] || [];
+
+  if (!allowed.includes(method)) {
+    throw new Error(`Method '${method}' is not available on ${kind} values at compile time`);
+  }
+
+  return receiver[method](...args);
+}
+
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
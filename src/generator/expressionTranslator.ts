@@ -0,0 +1,315 @@
+/**
+ * Translates DSL expressions that depend on node data into n8n (JavaScript) expressions
+ */
+
+import { Expression, BinaryOperator, FunctionCallExpression } from '../types/dsl';
+import { TIME_UNITS, isTimeZone } from './builtins';
+
+/**
+ * Name resolution supplied by the generator. The translator only knows how to
+ * print JavaScript; what an identifier means is decided by the host.
+ */
+export interface TranslationHost {
+  // True if the expression reads node data (and so must be evaluated by n8n)
+  isRuntime(expr: Expression, locals: Set<string>): boolean;
+  // Evaluate a compile-time expression
+  evaluate(expr: Expression): any;
+  // JavaScript for a bare identifier, or null if the name is unknown to the DSL
+  translateIdentifier(name: string, expr: Expression): string | null;
+  // JavaScript for `name.property` when `name` is a node or module, otherwise null
+  translateReference(name: string, property: string, expr: Expression): string | null;
+}
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6
+};
+
+const UNARY_PRECEDENCE = 7;
+const POSTFIX_PRECEDENCE = 8;
+
+// Built-ins with a direct runtime equivalent
+const RUNTIME_FUNCTIONS: Record<string, string> = {
+  json: 'JSON.stringify'
+};
+
+// Property chains like $json.user.name, $env.TOKEN or $('fetch').item.json.id need no parentheses
+const SIMPLE_ACCESSOR = /^(\$json|\$env|\$\('(?:[^'\\]|\\.)*'\)\.item\.json)(\.[\w$]+)*$/;
+
+export class ExpressionTranslator {
+  constructor(private host: TranslationHost) {}
+
+  translate(expr: Expression, locals: Set<string> = new Set()): string {
+    return this.emit(expr, locals).code;
+  }
+
+  private emit(expr: Expression, locals: Set<string>): { code: string; precedence: number } {
+    // Anything that doesn't touch node data or arrow parameters is folded at compile time
+    if (expr.type !== 'ArrowFunctionExpression' &&
+        !this.host.isRuntime(expr, locals) && !this.usesLocals(expr, locals)) {
+      return { code: toJsLiteral(this.host.evaluate(expr)), precedence: POSTFIX_PRECEDENCE };
+    }
+
+    switch (expr.type) {
+      case 'IdentifierExpression': {
+        if (locals.has(expr.name)) {
+          return { code: expr.name, precedence: POSTFIX_PRECEDENCE };
+        }
+        const code = this.host.translateIdentifier(expr.name, expr) ?? expr.name;
+        return { code, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'MemberExpression': {
+        if (expr.object.type === 'IdentifierExpression' && !locals.has(expr.object.name)) {
+          const reference = this.host.translateReference(expr.object.name, expr.property, expr);
+          if (reference !== null) {
+            return { code: reference, precedence: POSTFIX_PRECEDENCE };
+          }
+        }
+        const object = this.operand(expr.object, locals, POSTFIX_PRECEDENCE);
+        const access = expr.optional ? '?.' : '.';
+        return { code: `${object}${access}${expr.property}`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'IndexExpression': {
+        const object = this.operand(expr.object, locals, POSTFIX_PRECEDENCE);
+        return { code: `${object}[${this.translate(expr.index, locals)}]`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'FunctionCallExpression': {
+        const args = expr.arguments.map(arg => this.translate(arg, locals)).join(', ');
+        if (expr.receiver) {
+          const receiver = this.operand(expr.receiver, locals, POSTFIX_PRECEDENCE);
+          const access = expr.optional ? '?.' : '.';
+          return { code: `${receiver}${access}${expr.functionName}(${args})`, precedence: POSTFIX_PRECEDENCE };
+        }
+        if (expr.functionName === 'runtimeEnv') {
+          return { code: this.runtimeEnv(expr, locals), precedence: POSTFIX_PRECEDENCE };
+        }
+        if (expr.functionName === 'now') {
+          return { code: this.now(expr, locals), precedence: POSTFIX_PRECEDENCE };
+        }
+        const name = RUNTIME_FUNCTIONS[expr.functionName] || expr.functionName;
+        return { code: `${name}(${args})`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'BinaryExpression': {
+        const precedence = PRECEDENCE[expr.operator];
+        const left = this.operand(expr.left, locals, precedence);
+        const right = this.operand(expr.right, locals, precedence + 1);
+        return { code: `${left} ${expr.operator} ${right}`, precedence };
+      }
+
+      case 'UnaryExpression': {
+        const argument = this.operand(expr.argument, locals, UNARY_PRECEDENCE);
+        return { code: `${expr.operator}${argument}`, precedence: UNARY_PRECEDENCE };
+      }
+
+      case 'ConditionalExpression': {
+        const test = this.operand(expr.test, locals, 1);
+        const consequent = this.translate(expr.consequent, locals);
+        const alternate = this.translate(expr.alternate, locals);
+        return { code: `${test} ? ${consequent} : ${alternate}`, precedence: 0 };
+      }
+
+      case 'ArrowFunctionExpression': {
+        const inner = new Set([...locals, ...expr.params]);
+        const params = expr.params.length === 1 ? expr.params[0] : `(${expr.params.join(', ')})`;
+        return { code: `${params} => ${this.translate(expr.body, inner)}`, precedence: 0 };
+      }
+
+      case 'ObjectExpression': {
+        const properties = Object.entries(expr.properties)
+          .map(([key, value]) => `${JSON.stringify(key)}: ${this.translate(value, locals)}`);
+        return { code: `{ ${properties.join(', ')} }`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      case 'ArrayExpression': {
+        const elements = expr.elements.map(element => this.translate(element, locals));
+        return { code: `[${elements.join(', ')}]`, precedence: POSTFIX_PRECEDENCE };
+      }
+
+      default:
+        // Literals and templates are resolved by the host
+        return { code: toJsLiteral(this.host.evaluate(expr)), precedence: POSTFIX_PRECEDENCE };
+    }
+  }
+
+  private operand(expr: Expression, locals: Set<string>, minPrecedence: number): string {
+    const { code, precedence } = this.emit(expr, locals);
+    return precedence < minPrecedence ? `(${code})` : code;
+  }
+
+  // runtimeEnv(name) or runtimeEnv(name, fallback), read from n8n's $env
+  private runtimeEnv(expr: FunctionCallExpression, locals: Set<string>): string {
+    const [nameArg, fallback] = expr.arguments;
+    const name = nameArg && !this.host.isRuntime(nameArg, locals) ? this.host.evaluate(nameArg) : undefined;
+    if (typeof name !== 'string' || name === '') {
+      throw new Error(`runtimeEnv() needs the name of an environment variable as a string (line ${expr.line})`);
+    }
+    const access = /^[A-Za-z_$][\w$]*$/.test(name) ? `$env.${name}` : `$env[${JSON.stringify(name)}]`;
+    return fallback ? `(${access} ?? ${this.translate(fallback, locals)})` : access;
+  }
+
+  // now(), now(format), now(timezone), now(timezone, format), now(offset, unit), on n8n's Luxon $now
+  private now(expr: FunctionCallExpression, locals: Set<string>): string {
+    const args = expr.arguments.map(arg => {
+      if (this.host.isRuntime(arg, locals)) {
+        throw new Error(`The arguments of now() must be known at compile time (line ${expr.line})`);
+      }
+      return this.host.evaluate(arg);
+    });
+    const [first, second] = args;
+
+    if (typeof first === 'number') {
+      const unit = String(second ?? 'minutes');
+      if (!TIME_UNITS.includes(unit)) {
+        throw new Error(`now(): unknown time unit '${unit}' (line ${expr.line})`);
+      }
+      return `$now.plus({ ${unit}: ${first} }).toISO()`;
+    }
+    if (args.length >= 2) {
+      return `$now.setZone(${toJsLiteral(String(first))}).toFormat(${toJsLiteral(String(second))})`;
+    }
+    if (args.length === 1) {
+      const arg = String(first);
+      return isTimeZone(arg) ? `$now.setZone(${toJsLiteral(arg)}).toISO()` : `$now.toFormat(${toJsLiteral(arg)})`;
+    }
+    return '$now.toISO()';
+  }
+
+  private usesLocals(expr: Expression, locals: Set<string>): boolean {
+    if (locals.size === 0) {
+      return false;
+    }
+    let found = false;
+    forEachIdentifier(expr, locals, (_name, isLocal) => {
+      if (isLocal) found = true;
+    });
+    return found;
+  }
+}
+
+/**
+ * Visit every identifier reference in an expression. Names bound by arrow
+ * functions are reported as local.
+ */
+export function forEachIdentifier(
+  expr: Expression,
+  locals: Set<string>,
+  visit: (name: string, isLocal: boolean, expr: Expression, parent?: Expression) => void,
+  parent?: Expression
+): void {
+  switch (expr.type) {
+    case 'IdentifierExpression':
+      visit(expr.name, locals.has(expr.name), expr, parent);
+      break;
+    case 'MemberExpression':
+      forEachIdentifier(expr.object, locals, visit, expr);
+      break;
+    case 'IndexExpression':
+      forEachIdentifier(expr.object, locals, visit);
+      forEachIdentifier(expr.index, locals, visit);
+      break;
+    case 'FunctionCallExpression':
+      if (expr.receiver) forEachIdentifier(expr.receiver, locals, visit);
+      expr.arguments.forEach(arg => forEachIdentifier(arg, locals, visit));
+      break;
+    case 'BinaryExpression':
+      forEachIdentifier(expr.left, locals, visit);
+      forEachIdentifier(expr.right, locals, visit);
+      break;
+    case 'UnaryExpression':
+      forEachIdentifier(expr.argument, locals, visit);
+      break;
+    case 'ConditionalExpression':
+      forEachIdentifier(expr.test, locals, visit);
+      forEachIdentifier(expr.consequent, locals, visit);
+      forEachIdentifier(expr.alternate, locals, visit);
+      break;
+    case 'ArrowFunctionExpression':
+      forEachIdentifier(expr.body, new Set([...locals, ...expr.params]), visit);
+      break;
+    case 'ObjectExpression':
+      Object.values(expr.properties).forEach(value => forEachIdentifier(value, locals, visit));
+      break;
+    case 'ArrayExpression':
+      expr.elements.forEach(element => forEachIdentifier(element, locals, visit));
+      break;
+    case 'TemplateExpression':
+      expr.expressions.forEach(part => forEachIdentifier(part, locals, visit));
+      break;
+  }
+}
+
+/**
+ * True if the expression calls one of the named built-in functions.
+ */
+export function callsBuiltin(expr: Expression, names: Set<string>): boolean {
+  const calls = (inner: Expression): boolean => callsBuiltin(inner, names);
+  switch (expr.type) {
+    case 'FunctionCallExpression':
+      return (!expr.receiver && names.has(expr.functionName)) ||
+        (expr.receiver !== undefined && calls(expr.receiver)) ||
+        expr.arguments.some(calls);
+    case 'MemberExpression':
+      return calls(expr.object);
+    case 'IndexExpression':
+      return calls(expr.object) || calls(expr.index);
+    case 'BinaryExpression':
+      return calls(expr.left) || calls(expr.right);
+    case 'UnaryExpression':
+      return calls(expr.argument);
+    case 'ConditionalExpression':
+      return calls(expr.test) || calls(expr.consequent) || calls(expr.alternate);
+    case 'ArrowFunctionExpression':
+      return calls(expr.body);
+    case 'ObjectExpression':
+      return Object.values(expr.properties).some(calls);
+    case 'ArrayExpression':
+      return expr.elements.some(calls);
+    case 'TemplateExpression':
+      return expr.expressions.some(calls);
+    default:
+      return false;
+  }
+}
+
+/**
+ * True for strings that n8n evaluates as expressions (`={{ ... }}`, `=Hi {{ $json.name }}`).
+ */
+export function isN8nExpression(value: any): value is string {
+  return typeof value === 'string' && value.startsWith('=') && value.includes('{{');
+}
+
+/**
+ * Render a compile-time value as JavaScript. n8n expression strings are
+ * unwrapped so they can be embedded in a larger expression.
+ */
+export function toJsLiteral(value: any): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (isN8nExpression(value)) {
+    const parts = value.slice(1).split(/\{\{([\s\S]*?)\}\}/);
+    const pieces = parts
+      .map((part, index) => index % 2 === 1 ? part.trim() : (part ? JSON.stringify(part) : ''))
+      .filter(piece => piece !== '');
+    if (pieces.length === 1) {
+      return SIMPLE_ACCESSOR.test(pieces[0]) ? pieces[0] : `(${pieces[0]})`;
+    }
+    return `(${pieces.map(piece => `(${piece})`).join(' + ')})`;
+  }
+  return JSON.stringify(value);
+}
@@ -5,54 +5,160 @@
 import {
   Program, WorkflowDeclaration, NodeDeclaration, ModuleDeclaration,
   ConnectionDeclaration, Expression, ParameterDeclaration, VariableDeclaration,
-  DSL_TO_N8N_NODE_TYPES, DEFAULT_TYPE_VERSIONS
+  CredentialDeclaration, ModuleDefinition, BinaryExpression, FunctionCallExpression, TemplateExpression,
+  ASTNode, DSL_TO_N8N_NODE_TYPES, DEFAULT_TYPE_VERSIONS, isN8nNodeType
 } from '../types/dsl';
 import {
-  N8nWorkflow, N8nNode, WorkflowConnections, NodeConnection,
-  generateNodeId, NodePosition
+  N8nWorkflow, N8nNode, WorkflowConnections, NodeConnection, NodeCredential, NodePosition, hasWebhook
 } from '../types/n8n';
 import { getNodeTemplate } from './nodeTemplates';
+import { ModuleLoader } from './moduleLoader';
+import { Layout, LayoutDirection } from './layout';
+import { Port, PortList, getNodePorts, findPort, portNames } from './ports';
+import { BUILTIN_FUNCTIONS, BuiltinFunction, RUNTIME_BUILTINS, callMethod } from './builtins';
+import { checkNodeSetting, checkParameterValue } from '../utils/validation';
+import { coerceParameterValue } from '../utils/params';
+import { isSecretName, redactParameters, redactText } from '../utils/secrets';
+import { deriveInstanceId, deriveNodeId, deriveWebhookId } from '../utils/ids';
+import { LockFile } from '../utils/lockFile';
+import {
+  ExpressionTranslator, TranslationHost, callsBuiltin, forEachIdentifier, isN8nExpression, toJsLiteral
+} from './expressionTranslator';
 
 export interface GeneratorOptions {
-  instanceId?: string;
+  instanceId?: string; // Default: derived from the workflow name
+  lock?: LockFile;     // Node ids of an earlier compile, kept over derived ones
   autoLayout?: boolean;
+  layoutDirection?: LayoutDirection; // Which way the graph flows, default horizontal
   startPosition?: [number, number];
-  spacing?: number;
+  spacing?: number;       // Between layers of the auto-layout
+  branchSpacing?: number; // Between branches of the auto-layout
+  sourcePath?: string; // File being compiled; module paths resolve relative to it
+  params?: Record<string, unknown>; // Values for the workflow's params, coerced to their declared types
+  allowMissingParams?: boolean;     // Leave required params without a value undefined (editors)
+  environment?: string;             // Name of an environment block whose values to use
+  redact?: boolean;                 // Mask sensitive values in the workflow and in error messages
+  builtins?: Record<string, BuiltinFunction>; // Replacements for built-in functions, such as EDITOR_BUILTINS
+}
+
+export class GeneratorError extends Error {
+  constructor(message: string, public line?: number, public column?: number) {
+    super(message);
+  }
+}
+
+// Statements shared by workflow and module bodies
+type DeclarationBody = Pick<WorkflowDeclaration, 'nodes' | 'connections'>;
+
+// Resolved connection endpoint on a generated node
+interface Endpoint {
+  node: string;
+  port: string;
+  path?: string[]; // Field path for module outputs (output data = request.output.body)
+}
+
+// An inlined module, as seen from the scope that declared it
+interface ModuleInstance {
+  entries: Endpoint[];
+  outputs: Map<string, Endpoint>;
+  defaultOutputs: Endpoint[];
 }
 
-export class Generator {
+// Name resolution context; each module instance gets its own
+interface GeneratorScope {
+  parameters: Map<string, any>;
+  variables: Map<string, any>;
+  credentials: Map<string, { credentialType: string; credential: NodeCredential }>;
+  nodeNames: Map<string, string>; // DSL name -> generated node name
+  moduleNames: Set<string>;
+  modules: Map<string, ModuleInstance>;
+  prefix: string;
+  sourcePath?: string;
+}
+
+// A value whose expression reads node data; it's evaluated where it's used
+class LazyValue {
+  constructor(public expr: Expression, public scope: GeneratorScope) {}
+}
+
+// Node whose parameters are generated once the connection graph is known
+interface PendingNode {
+  node: N8nNode;
+  decl: NodeDeclaration;
+  scope: GeneratorScope;
+}
+
+export class Generator implements TranslationHost {
   private options: GeneratorOptions;
-  private parameters: Map<string, any> = new Map();
-  private variables: Map<string, any> = new Map();
-  private nodePositions: Map<string, NodePosition> = new Map();
-  private currentPosition: [number, number] = [0, 0];
+  private scope: GeneratorScope;
+  private moduleLoader: ModuleLoader = new ModuleLoader();
+  private moduleStack: string[] = [];
+  private translator: ExpressionTranslator = new ExpressionTranslator(this);
+  private pendingNodes: PendingNode[] = [];
+  private currentNode?: string;
+  private currentExpression?: ASTNode;
+  private predecessors: Map<string, Set<string>> = new Map();
+  private ancestors: Map<string, Set<string>> = new Map();
+  private pinnedNodes: Set<string> = new Set(); // Nodes with an explicit position
+  private secrets: Map<string, string> = new Map(); // secret() value -> variable name
+  private sensitiveValues: Set<string> = new Set(); // Masked when redacting
 
   constructor(options: GeneratorOptions = {}) {
     this.options = {
       autoLayout: true,
+      layoutDirection: 'horizontal',
       startPosition: [0, 0],
       spacing: 200,
+      branchSpacing: 200,
       ...options
     };
-    this.currentPosition = [...this.options.startPosition!];
+    this.scope = this.createScope('', this.options.sourcePath);
   }
 
   generate(program: Program): N8nWorkflow {
-    const workflow = program.workflow;
+    const workflow = this.applyEnvironment(program.workflow);
+    this.scope = this.createScope('', this.options.sourcePath);
+    this.pendingNodes = [];
+    this.pinnedNodes = new Set();
+    this.secrets = new Map();
+    this.sensitiveValues = new Set();
+    this.declareBody(workflow);
     
     // Process parameters and variables
-    this.processParameters(workflow.parameters);
+    this.processParameters(workflow.parameters, this.workflowArguments(workflow.parameters));
     this.processVariables(workflow.variables);
+    this.processCredentials(workflow.credentials);
     
-    // Generate nodes
+    // Generate nodes, inlining modules, and resolve connection endpoints
     const nodes: N8nNode[] = [];
-    for (const nodeDecl of workflow.nodes) {
-      const node = this.generateNode(nodeDecl);
-      nodes.push(node);
-    }
+    const resolvedConnections: ConnectionDeclaration[] = [];
+    this.generateBody(workflow, nodes, resolvedConnections);
+    this.assignNodeIds(nodes, workflow.name);
     
+    // Node parameters may reference upstream nodes, so they come last
+    this.buildGraph(resolvedConnections);
+    this.generatePendingParameters();
+    this.assignWebhookIds(nodes);
+    
+    // Secrets stay out of the workflow; with redact, so do other sensitive values
+    this.checkSecrets(nodes);
+    if (this.options.redact) {
+      for (const node of nodes) {
+        node.parameters = redactParameters(node.parameters, this.sensitiveValues);
+      }
+    }
+
     // Generate connections
-    const connections = this.generateConnections(workflow.connections, nodes);
+    const connections = this.generateConnections(resolvedConnections, nodes);
+
+    if (this.options.autoLayout) {
+      new Layout({
+        direction: this.options.layoutDirection!,
+        spacing: this.options.spacing!,
+        branchSpacing: this.options.branchSpacing!,
+        startPosition: this.options.startPosition!
+      }).arrange(nodes, connections, this.pinnedNodes);
+    }
     
     // Create workflow
     const n8nWorkflow: N8nWorkflow = {
@@ -60,9 +166,9 @@ export class Generator {
       connections,
       pinData: {},
       meta: {
-        instanceId: this.options.instanceId || this.generateInstanceId()
+        instanceId: this.options.instanceId || deriveInstanceId(workflow.name)
       },
-      name: workflow.name,
+      name: this.options.environment ? `${workflow.name}-${this.options.environment}` : workflow.name,
       active: false,
       settings: {
         executionOrder: 'v1'
@@ -72,18 +178,132 @@ export class Generator {
     return n8nWorkflow;
   }
 
-  private processParameters(parameters: ParameterDeclaration[]): void {
+  /**
+   * Mask values that must not be shown: secret() values always, and with the
+   * redact option the other sensitive ones (env() and params with secret-looking
+   * names).
+   */
+  redact(text: string): string {
+    const masked = this.options.redact ? [...this.secrets.keys(), ...this.sensitiveValues] : this.secrets.keys();
+    return redactText(text, masked);
+  }
+
+  private recordEnvRead(name: string, value: string, secret: boolean): void {
+    if (secret) {
+      this.secrets.set(value, name);
+    } else {
+      this.recordSensitive(name, value);
+    }
+  }
+
+  private recordSensitive(name: string, value: unknown): void {
+    if (isSecretName(name) && typeof value === 'string' && value !== '') {
+      this.sensitiveValues.add(value);
+    }
+  }
+
+  // secret() values are only for decisions made while compiling
+  private checkSecrets(nodes: N8nNode[]): void {
+    const json = JSON.stringify(nodes);
+    for (const [value, name] of this.secrets) {
+      if (value !== '' && json.includes(JSON.stringify(value).slice(1, -1))) {
+        throw new GeneratorError(
+          `The value of secret('${name}') would be written into the workflow; ` +
+          `use runtimeEnv('${name}') or a credential to pass it to a node`
+        );
+      }
+    }
+  }
+
+  // An environment's values take the place of param defaults and var initialisers
+  private applyEnvironment(workflow: WorkflowDeclaration): WorkflowDeclaration {
+    const name = this.options.environment;
+    if (name === undefined) {
+      return workflow;
+    }
+    const environment = workflow.environments.find(candidate => candidate.name === name);
+    if (!environment) {
+      const names = workflow.environments.map(candidate => candidate.name).join(', ') || 'none';
+      throw new GeneratorError(`Unknown environment '${name}' (the workflow declares: ${names})`);
+    }
+
+    const { overrides } = environment;
+    const declared = new Set([...workflow.parameters, ...workflow.variables].map(declaration => declaration.name));
+    for (const key of Object.keys(overrides).filter(key => !declared.has(key))) {
+      const at = environment.keyPositions[key];
+      throw new GeneratorError(`Environment '${name}' sets '${key}', which is not a param or var`, at?.line, at?.column);
+    }
+
+    return {
+      ...workflow,
+      parameters: workflow.parameters.map(param => param.name in overrides
+        ? { ...param, defaultValue: overrides[param.name], required: false }
+        : param),
+      variables: workflow.variables.map(variable => variable.name in overrides
+        ? { ...variable, value: overrides[variable.name] }
+        : variable)
+    };
+  }
+
+  private createScope(prefix: string, sourcePath?: string): GeneratorScope {
+    return {
+      parameters: new Map(),
+      variables: new Map(),
+      credentials: new Map(),
+      nodeNames: new Map(),
+      moduleNames: new Set(),
+      modules: new Map(),
+      prefix,
+      sourcePath
+    };
+  }
+
+  // Values supplied for the workflow's params (--param, --params-file); all required params need one
+  private workflowArguments(parameters: ParameterDeclaration[]): Map<string, any> {
+    const declared = new Map(parameters.map(param => [param.name, param]));
+    const args = new Map<string, any>();
+    for (const [name, supplied] of Object.entries(this.options.params || {})) {
+      const param = declared.get(name);
+      this.recordSensitive(name, supplied);
+      if (!param) {
+        const names = [...declared.keys()].join(', ') || 'none';
+        throw new GeneratorError(`Unknown parameter '${name}' (the workflow declares: ${names})`);
+      }
+      const result = coerceParameterValue(param, supplied);
+      if ('problem' in result) {
+        throw new GeneratorError(result.problem, param.line, param.column);
+      }
+      args.set(name, result.value);
+    }
+
+    const missing = parameters.filter(param => param.required && !args.has(param.name));
+    if (missing.length > 0 && !this.options.allowMissingParams) {
+      const names = missing.map(param => `${param.name} (${param.paramType})`).join(', ');
+      throw new GeneratorError(`Missing values for required parameters: ${names}`, missing[0].line, missing[0].column);
+    }
+    return args;
+  }
+
+  private processParameters(parameters: ParameterDeclaration[], args: Map<string, any> = new Map()): void {
     for (const param of parameters) {
-      // Evaluate default value if it's an expression
-      let defaultValue = param.defaultValue;
-      if (param.defaultValue && typeof param.defaultValue === 'object' && param.defaultValue.type) {
-        defaultValue = this.evaluateExpression(param.defaultValue);
+      // Call-site arguments win over defaults; evaluate defaults if they're expressions
+      let value: any = param.nullable ? null : undefined;
+      if (args.has(param.name)) {
+        value = args.get(param.name);
+      } else if (param.defaultValue !== undefined) {
+        // A default like now() is only known when the workflow runs
+        value = this.bindValue(param.defaultValue);
+        this.recordSensitive(param.name, value);
+        const problem = value instanceof LazyValue ? undefined : checkParameterValue(param, value);
+        if (problem) {
+          throw this.error(problem, param.defaultValue);
+        }
       }
       
       // Store parameter info for template resolution
-      this.parameters.set(param.name, {
+      this.scope.parameters.set(param.name, {
         type: param.paramType,
-        defaultValue: defaultValue,
+        value,
         required: param.required
       });
     }
@@ -91,92 +311,466 @@ export class Generator {
 
   private processVariables(variables: VariableDeclaration[]): void {
     for (const variable of variables) {
-      const value = this.evaluateExpression(variable.value);
-      this.variables.set(variable.name, value);
+      this.scope.variables.set(variable.name, this.bindValue(variable.value));
     }
   }
 
-  private generateNode(nodeDecl: NodeDeclaration | ModuleDeclaration): N8nNode {
-    if (nodeDecl.type === 'ModuleDeclaration') {
-      // For now, treat modules as regular nodes
-      // In a full implementation, we'd resolve the module
-      throw new Error('Module resolution not implemented yet');
+  // Credential ids and names may come from params, so they're evaluated like vars
+  private processCredentials(credentials: CredentialDeclaration[]): void {
+    for (const decl of credentials) {
+      const credential: Record<string, string> = {};
+      for (const field of ['id', 'name']) {
+        const expr = decl.fields[field];
+        if (!expr) {
+          throw this.error(`Credential '${decl.name}' needs ${field === 'id' ? 'an id' : 'a name'}`, decl);
+        }
+        if (this.isRuntime(expr)) {
+          throw this.error(`The ${field} of credential '${decl.name}' must be known at compile time`, expr);
+        }
+        const value = this.evaluateExpression(expr);
+        if (typeof value !== 'string' || value === '') {
+          throw this.error(`The ${field} of credential '${decl.name}' must be a non-empty string`, expr);
+        }
+        credential[field] = value;
+      }
+      this.scope.credentials.set(decl.name, {
+        credentialType: decl.credentialType,
+        credential: { id: credential.id, name: credential.name }
+      });
     }
+  }
 
-    const node = nodeDecl as NodeDeclaration;
-    const n8nNodeType = this.mapNodeType(node.nodeType);
-    const position = this.getNodePosition(node.name);
-    const parameters = this.generateNodeParameters(node.parameters, n8nNodeType);
+  // Register node and module names up front so expressions can tell them apart from params
+  private declareBody(body: DeclarationBody): void {
+    for (const decl of body.nodes) {
+      if (decl.type === 'ModuleDeclaration') {
+        this.scope.moduleNames.add(decl.name);
+      } else {
+        this.scope.nodeNames.set(decl.name, this.scope.prefix + decl.name);
+      }
+    }
+  }
 
-    return {
-      id: generateNodeId(),
-      name: node.name,
+  // Compile-time values are evaluated now; references to node data wait for their use site
+  private bindValue(expr: Expression): any {
+    return this.isRuntime(expr) ? new LazyValue(expr, this.scope) : this.evaluateExpression(expr);
+  }
+
+  private generateBody(
+    body: DeclarationBody,
+    nodes: N8nNode[],
+    resolvedConnections: ConnectionDeclaration[]
+  ): void {
+    for (const nodeDecl of body.nodes) {
+      if (nodeDecl.type === 'ModuleDeclaration') {
+        this.generateModule(nodeDecl, nodes, resolvedConnections);
+      } else {
+        nodes.push(this.generateNode(nodeDecl));
+      }
+    }
+
+    for (const conn of body.connections) {
+      resolvedConnections.push(...this.resolveConnection(conn));
+    }
+  }
+
+  private generateNode(decl: NodeDeclaration): N8nNode {
+    const name = this.scope.prefix + decl.name;
+    const n8nNodeType = this.mapNodeType(decl.nodeType);
+    if (decl.position) {
+      this.pinnedNodes.add(name);
+    }
+    const position: NodePosition = decl.position ? [...decl.position] : [0, 0];
+
+    const node: N8nNode = {
+      id: decl.id ?? '', // Assigned once all nodes are known
+      name,
       type: n8nNodeType,
       position,
-      parameters,
+      parameters: {},
       typeVersion: DEFAULT_TYPE_VERSIONS[n8nNodeType] || 1
     };
+    this.applySettings(node, decl);
+
+    this.pendingNodes.push({ node, decl, scope: this.scope });
+    return node;
   }
 
-  private mapNodeType(dslType: string): string {
-    const n8nType = DSL_TO_N8N_NODE_TYPES[dslType];
-    if (!n8nType) {
-      throw new Error(`Unknown node type: ${dslType}`);
+  /**
+   * Node ids: @id, then the lock file, then derived from the workflow and node
+   * names. A node renamed since the lock was written keeps its id when it is
+   * the only new node of its type and the lock has one unused node of that type.
+   */
+  private assignNodeIds(nodes: N8nNode[], workflowName: string): void {
+    const locked = this.options.lock?.nodes || {};
+    const taken = new Set(nodes.map(node => node.id).filter(id => id !== ''));
+    const lockedId = (name: string) => {
+      const entry = Object.prototype.hasOwnProperty.call(locked, name) ? locked[name] : undefined;
+      return entry && !taken.has(entry.id) ? entry.id : undefined;
+    };
+
+    const names = new Set(nodes.map(node => node.name));
+    const unused = Object.entries(locked).filter(([name, entry]) => !names.has(name) && !taken.has(entry.id));
+    const unlocked = nodes.filter(node => node.id === '' && !lockedId(node.name));
+
+    for (const node of nodes) {
+      if (node.id !== '') continue;
+      const renamedFrom = unused.filter(([, entry]) => entry.type === node.type);
+      const sameType = unlocked.filter(other => other.type === node.type);
+      node.id = lockedId(node.name) ??
+        (renamedFrom.length === 1 && sameType.length === 1 ? renamedFrom[0][1].id : deriveNodeId(workflowName, node.name));
     }
-    return n8nType;
   }
 
-  private getNodePosition(nodeName: string): NodePosition {
-    if (this.nodePositions.has(nodeName)) {
-      return this.nodePositions.get(nodeName)!;
+  // Webhook ids come from the node ids, so they are as stable as those
+  private assignWebhookIds(nodes: N8nNode[]): void {
+    for (const node of nodes.filter(candidate => hasWebhook(candidate.type))) {
+      node.webhookId = deriveWebhookId(node.id);
+      // As in the editor, a webhook without a path listens on its id
+      if (node.type === 'n8n-nodes-base.webhook' && !node.parameters.path) {
+        node.parameters.path = node.webhookId;
+      }
     }
+  }
 
-    if (this.options.autoLayout) {
-      const position: NodePosition = [...this.currentPosition];
-      this.nodePositions.set(nodeName, position);
-      this.currentPosition[0] += this.options.spacing!;
-      return position;
+  // Settings are fixed when the workflow is compiled, so they can't read node data
+  private applySettings(node: N8nNode, decl: NodeDeclaration): void {
+    const settings = node as unknown as Record<string, unknown>;
+    for (const [key, expr] of Object.entries(decl.settings)) {
+      if (key === 'position') continue;
+      if (key === 'credentials') {
+        node.credentials = this.resolveCredentials(node, expr);
+        continue;
+      }
+      if (this.isRuntime(expr)) {
+        throw this.error(`Setting '${key}' of node '${node.name}' must be known at compile time`, expr);
+      }
+      const value = this.evaluateExpression(expr);
+      const problem = checkNodeSetting(key, value);
+      if (problem) {
+        throw this.error(`Node '${node.name}': ${problem}`, expr);
+      }
+      settings[key] = value;
+    }
+
+    // The legacy flag; n8n reads onError on current node versions
+    if (settings.continueOnFail !== undefined) {
+      if (settings.continueOnFail === true) {
+        node.onError ??= 'continueRegularOutput';
+      }
+      delete settings.continueOnFail;
+    }
+  }
+
+  // credentials: gmailMain or [gmailMain, sheetsMain], naming credential declarations
+  private resolveCredentials(node: N8nNode, expr: Expression): Record<string, NodeCredential> {
+    const references = expr.type === 'ArrayExpression' ? expr.elements : [expr];
+    const credentials: Record<string, NodeCredential> = {};
+    for (const reference of references) {
+      if (reference.type !== 'IdentifierExpression') {
+        throw this.error(`Node '${node.name}': ${checkNodeSetting('credentials', undefined)}`, reference);
+      }
+      const declared = this.scope.credentials.get(reference.name);
+      if (!declared) {
+        throw this.error(`Node '${node.name}' uses unknown credential '${reference.name}'`, reference);
+      }
+      if (credentials[declared.credentialType]) {
+        throw this.error(`Node '${node.name}' has two credentials of type '${declared.credentialType}'`, reference);
+      }
+      credentials[declared.credentialType] = { ...declared.credential };
+    }
+    return credentials;
+  }
+
+  private generatePendingParameters(): void {
+    const savedScope = this.scope;
+    try {
+      for (const { node, decl, scope } of this.pendingNodes) {
+        this.scope = scope;
+        this.currentNode = node.name;
+        node.parameters = this.generateNodeParameters(decl.parameters, node, isN8nNodeType(decl.nodeType));
+        if (node.credentials && !isN8nNodeType(decl.nodeType)) {
+          this.applyCredentialParameters(node);
+        }
+      }
+    } finally {
+      this.scope = savedScope;
+      this.currentNode = undefined;
+    }
+  }
+
+  // Templated nodes pick their authentication method to match the credentials they use
+  private applyCredentialParameters(node: N8nNode): void {
+    const template = getNodeTemplate(node.type);
+    for (const credentialType of Object.keys(node.credentials || {})) {
+      Object.assign(node.parameters, template?.credentialParameters?.(credentialType));
+    }
+  }
+
+  private buildGraph(connections: ConnectionDeclaration[]): void {
+    // Sub-nodes (chat models, tools) feed their root node no data. A switch
+    // has no outputs yet either, as its rules aren't generated, so go by port type.
+    const subNodes = new Set(this.pendingNodes
+      .filter(({ node }) => Object.values(getNodePorts(node).outputs.names).some(port => port.type !== 'main'))
+      .map(({ node }) => node.name));
+
+    this.predecessors = new Map();
+    for (const conn of connections) {
+      if (subNodes.has(conn.source.node)) continue;
+      if (!this.predecessors.has(conn.target.node)) {
+        this.predecessors.set(conn.target.node, new Set());
+      }
+      this.predecessors.get(conn.target.node)!.add(conn.source.node);
+    }
+
+    this.ancestors = new Map();
+    for (const node of this.predecessors.keys()) {
+      const seen = new Set<string>();
+      const queue = [...this.predecessors.get(node)!];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        queue.push(...(this.predecessors.get(current) || []));
+      }
+      this.ancestors.set(node, seen);
+    }
+  }
+
+  /**
+   * Inline a module: its nodes are generated under a `<module>.` name prefix
+   * with the call-site arguments bound to the module's parameters.
+   */
+  private generateModule(
+    decl: ModuleDeclaration,
+    nodes: N8nNode[],
+    resolvedConnections: ConnectionDeclaration[]
+  ): void {
+    const { path: modulePath, definition } = this.moduleLoader.load(decl.modulePath, this.scope.sourcePath);
+
+    if (this.moduleStack.includes(modulePath)) {
+      const cycle = [...this.moduleStack, modulePath].join(' -> ');
+      throw new Error(`Circular module reference: ${cycle}`);
+    }
+
+    // Call-site arguments are evaluated in the including scope
+    const args = new Map<string, any>();
+    for (const [key, expr] of Object.entries(decl.parameters)) {
+      args.set(key, this.bindValue(expr));
+    }
+
+    const declaredParams = new Set(definition.parameters.map(p => p.name));
+    for (const key of args.keys()) {
+      if (!declaredParams.has(key)) {
+        throw new Error(`Module '${decl.name}' (${decl.modulePath}) has no parameter '${key}'`);
+      }
+    }
+
+    // Values known at compile time must suit the param; node data is only known when the workflow runs
+    for (const param of definition.parameters) {
+      const value = args.get(param.name);
+      if (args.has(param.name) && !(value instanceof LazyValue)) {
+        const problem = checkParameterValue(param, value);
+        if (problem) {
+          throw this.error(`Module '${decl.name}' (${decl.modulePath}): ${problem}`, decl.parameters[param.name]);
+        }
+      }
+    }
+
+    const missing = definition.parameters.filter(p => p.required && !args.has(p.name));
+    if (missing.length > 0) {
+      const names = missing.map(p => p.name).join(', ');
+      throw new Error(`Module '${decl.name}' (${decl.modulePath}) is missing required parameters: ${names}`);
+    }
+
+    const parentScope = this.scope;
+    this.scope = this.createScope(`${parentScope.prefix}${decl.name}.`, modulePath);
+    this.moduleStack.push(modulePath);
+
+    try {
+      this.declareBody(definition);
+      this.processParameters(definition.parameters, args);
+      this.processVariables(definition.variables);
+      this.processCredentials(definition.credentials);
+      this.generateBody(definition, nodes, resolvedConnections);
+      parentScope.modules.set(decl.name, this.createModuleInstance(decl, definition));
+    } finally {
+      this.moduleStack.pop();
+      this.scope = parentScope;
+    }
+  }
+
+  private createModuleInstance(decl: ModuleDeclaration, definition: ModuleDefinition): ModuleInstance {
+    const declared = definition.nodes.map(n => n.name);
+    // A model or tool attached to a node doesn't make it any less the start of the flow
+    const flowConnections = definition.connections.filter(c => !this.isOutsideFlow(c.source.node));
+    const hasIncoming = new Set(flowConnections.map(c => c.target.node));
+    const hasOutgoing = new Set(definition.connections.map(c => c.source.node));
+    const inFlow = declared.filter(name => !this.isOutsideFlow(name));
+
+    if (declared.length === 0) {
+      throw new Error(`Module '${decl.name}' (${decl.modulePath}) declares no nodes`);
+    }
+
+    // Entry node: the first node nothing inside the module feeds into
+    const entry = inFlow.find(name => !hasIncoming.has(name)) || inFlow[0] || declared[0];
+
+    const outputs = new Map<string, Endpoint>();
+    for (const output of definition.outputs) {
+      const hasPort = output.path.length > 0 && this.isOutputPort(output.node, output.path[0]);
+      const port = hasPort ? output.path[0] : 'main';
+      const [endpoint] = this.resolveSource(output.node, port);
+      outputs.set(output.name, {
+        ...endpoint,
+        path: [...(endpoint.path || []), ...output.path.slice(hasPort ? 1 : 0)]
+      });
+    }
+
+    // Without declared outputs, connections leave from the module's sink nodes
+    const defaultOutputs = definition.outputs.length > 0
+      ? [outputs.get(definition.outputs[0].name)!]
+      : inFlow
+          .filter(name => !hasOutgoing.has(name))
+          .flatMap(name => this.resolveSource(name, 'main'));
+
+    return {
+      entries: this.resolveTarget(entry, 'main'),
+      outputs,
+      defaultOutputs
+    };
+  }
+
+  // Parameters aren't generated yet, so only ports that don't depend on them are known here
+  private isOutputPort(node: string, segment: string): boolean {
+    if (this.scope.modules.has(node)) {
+      return true;
     }
+    const name = this.scope.nodeNames.get(node);
+    const pending = this.pendingNodes.find(candidate => candidate.node.name === name);
+    return pending !== undefined && findPort(getNodePorts(pending.node).outputs, segment, 'output') !== undefined;
+  }
+
+  // Sub-nodes (models, tools, ...) and sticky notes have no main input or output
+  private isOutsideFlow(node: string): boolean {
+    const name = this.scope.nodeNames.get(node);
+    const pending = this.pendingNodes.find(candidate => candidate.node.name === name);
+    if (pending === undefined) {
+      return false;
+    }
+    const { inputs, outputs } = getNodePorts(pending.node);
+    return inputs.count === 0 && outputs.count === 0;
+  }
 
-    return [0, 0];
+  private resolveConnection(conn: ConnectionDeclaration): ConnectionDeclaration[] {
+    const sources = this.resolveSource(conn.source.node, conn.source.output || 'main');
+    const targets = this.resolveTarget(conn.target.node, conn.target.input || 'main');
+
+    const resolved: ConnectionDeclaration[] = [];
+    for (const source of sources) {
+      for (const target of targets) {
+        resolved.push({
+          ...conn,
+          source: { ...conn.source, node: source.node, output: source.port },
+          target: { ...conn.target, node: target.node, input: target.port }
+        });
+      }
+    }
+    return resolved;
+  }
+
+  private resolveSource(name: string, output: string): Endpoint[] {
+    const module = this.scope.modules.get(name);
+    if (module) {
+      if (output === 'main') {
+        return module.defaultOutputs;
+      }
+      const endpoint = module.outputs.get(output);
+      if (!endpoint) {
+        throw new Error(`Module '${name}' has no output '${output}'`);
+      }
+      return [endpoint];
+    }
+
+    const node = this.scope.nodeNames.get(name);
+    if (!node) {
+      throw new Error(`Source node '${name}' not found`);
+    }
+    return [{ node, port: output }];
+  }
+
+  private resolveTarget(name: string, input: string): Endpoint[] {
+    const module = this.scope.modules.get(name);
+    if (module) {
+      if (input !== 'main') {
+        throw new Error(`Module '${name}' has a single input; cannot connect to '${name}.${input}'`);
+      }
+      return module.entries;
+    }
+
+    const node = this.scope.nodeNames.get(name);
+    if (!node) {
+      throw new Error(`Target node '${name}' not found`);
+    }
+    return [{ node, port: input }];
+  }
+
+  private mapNodeType(dslType: string): string {
+    const n8nType = DSL_TO_N8N_NODE_TYPES[dslType] || (isN8nNodeType(dslType) ? dslType : undefined);
+    if (!n8nType) {
+      throw new Error(`Unknown node type: ${dslType}`);
+    }
+    return n8nType;
   }
 
   private generateNodeParameters(
     parameters: { [key: string]: Expression }, 
-    nodeType: string
+    node: N8nNode,
+    raw: boolean = false // Nodes declared with a full n8n type skip the DSL templates
   ): Record<string, any> {
     // First evaluate all expressions to get raw parameter values
     const rawParams: Record<string, any> = {};
     for (const [key, expr] of Object.entries(parameters)) {
+      this.currentExpression = expr;
       rawParams[key] = this.evaluateExpression(expr);
     }
     
     // Apply node-specific parameter mapping
-    const template = getNodeTemplate(nodeType);
+    const template = raw ? null : getNodeTemplate(node.type);
     if (template) {
-      return template.mapParameters(rawParams);
+      return template.mapParameters(rawParams, node.id);
     }
     
     // Fallback to raw parameters if no template found
     return rawParams;
   }
 
+  evaluate(expr: Expression): any {
+    return this.evaluateExpression(expr);
+  }
+
   private evaluateExpression(expr: Expression): any {
+    // Expressions reading node data become n8n expressions
+    if (this.isComputedExpression(expr) && this.isRuntime(expr)) {
+      return `={{ ${this.translator.translate(expr)} }}`;
+    }
+
     switch (expr.type) {
       case 'LiteralExpression':
+        // Strings using n8n's own {{ $json... }} syntax need the expression prefix
+        if (typeof expr.value === 'string' && this.hasNativeExpression(expr.value)) {
+          return `=${expr.value}`;
+        }
         return expr.value;
         
-      case 'IdentifierExpression':
+      case 'IdentifierExpression': {
         // Check variables first, then parameters
-        if (this.variables.has(expr.name)) {
-          return this.variables.get(expr.name);
-        }
-        if (this.parameters.has(expr.name)) {
-          const param = this.parameters.get(expr.name);
-          return param.defaultValue;
+        const binding = this.lookupValue(expr.name);
+        if (binding.found) {
+          return binding.value;
         }
         // If not found in variables/parameters, return as string (might be a parameter reference)
         return expr.name;
+      }
         
       case 'ObjectExpression':
         const obj: Record<string, any> = {};
@@ -189,48 +783,291 @@ export class Generator {
         return expr.elements.map(elem => this.evaluateExpression(elem));
         
       case 'TemplateExpression':
-        return this.evaluateTemplate(expr.template);
+        return this.evaluateTemplate(expr);
+
+      case 'ArrowFunctionExpression':
+        return (...values: any[]) => {
+          const savedScope = this.scope;
+          this.scope = { ...savedScope, variables: new Map(savedScope.variables) };
+          expr.params.forEach((param, index) => this.scope.variables.set(param, values[index]));
+          try {
+            return this.evaluateExpression(expr.body);
+          } finally {
+            this.scope = savedScope;
+          }
+        };
+
+      case 'BinaryExpression':
+        return this.evaluateBinary(expr);
+
+      case 'UnaryExpression': {
+        const argument = this.evaluateExpression(expr.argument);
+        return expr.operator === '!' ? !argument : -argument;
+      }
+
+      case 'ConditionalExpression':
+        return this.evaluateExpression(expr.test)
+          ? this.evaluateExpression(expr.consequent)
+          : this.evaluateExpression(expr.alternate);
+
+      case 'MemberExpression': {
+        const object = this.evaluateExpression(expr.object);
+        if (object === null || object === undefined) {
+          if (expr.optional) return undefined;
+          throw new Error(`Cannot read property '${expr.property}' of ${object} (line ${expr.line})`);
+        }
+        return object[expr.property];
+      }
+
+      case 'IndexExpression': {
+        const object = this.evaluateExpression(expr.object);
+        const index = this.evaluateExpression(expr.index);
+        if (object === null || object === undefined) {
+          throw new Error(`Cannot index ${object} (line ${expr.line})`);
+        }
+        return object[index];
+      }
+
+      case 'FunctionCallExpression':
+        return this.evaluateCall(expr);
         
       default:
         throw new Error(`Unsupported expression type: ${(expr as any).type}`);
     }
   }
 
-  private evaluateTemplate(template: string): string {
-    // Simple template evaluation - replace ${varName} with variable values
-    return template.replace(/\$\{([^}]+)\}/g, (match, varName) => {
-      const trimmed = varName.trim();
-      
-      if (this.variables.has(trimmed)) {
-        return String(this.variables.get(trimmed));
+  private evaluateBinary(expr: BinaryExpression): any {
+    // Logical operators short-circuit
+    if (expr.operator === '&&') {
+      const left = this.evaluateExpression(expr.left);
+      return left ? this.evaluateExpression(expr.right) : left;
+    }
+    if (expr.operator === '||') {
+      const left = this.evaluateExpression(expr.left);
+      return left ? left : this.evaluateExpression(expr.right);
+    }
+
+    const left = this.evaluateExpression(expr.left);
+    const right = this.evaluateExpression(expr.right);
+
+    switch (expr.operator) {
+      case '==': return left == right;
+      case '!=': return left != right;
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+    }
+  }
+
+  private evaluateCall(expr: FunctionCallExpression): any {
+    const args = expr.arguments.map(arg => this.evaluateExpression(arg));
+
+    if (expr.receiver) {
+      const receiver = this.evaluateExpression(expr.receiver);
+      if ((receiver === null || receiver === undefined) && expr.optional) {
+        return undefined;
       }
-      
-      if (this.parameters.has(trimmed)) {
-        const param = this.parameters.get(trimmed);
-        return String(param.defaultValue || '');
+      return callMethod(receiver, expr.functionName, args);
+    }
+
+    const builtin = this.options.builtins?.[expr.functionName] ?? BUILTIN_FUNCTIONS[expr.functionName];
+    if (!builtin) {
+      throw new Error(`Unknown function '${expr.functionName}' (line ${expr.line})`);
+    }
+    return builtin(args, {
+      sourcePath: this.scope.sourcePath,
+      onEnvRead: (name, value, secret) => this.recordEnvRead(name, value, secret)
+    });
+  }
+
+  /**
+   * Interpolate a template. Compile-time values are substituted; references to
+   * node data become `{{ }}` segments and the result gets n8n's `=` prefix.
+   */
+  private evaluateTemplate(expr: TemplateExpression): string {
+    let result = expr.quasis[0];
+    let isExpression = false;
+
+    expr.expressions.forEach((part, index) => {
+      this.assertKnownNodes(part);
+
+      if (this.isRuntime(part)) {
+        result += `{{ ${this.translator.translate(part)} }}`;
+        isExpression = true;
+      } else if (this.hasUnknownNames(part)) {
+        // Not ours (e.g. a JavaScript template literal in a code string); keep it verbatim
+        result += '${' + expr.sources[index] + '}';
+      } else {
+        const value = this.evaluateExpression(part);
+        if (isN8nExpression(value)) {
+          result += value.slice(1);
+          isExpression = true;
+        } else if (value !== null && typeof value === 'object') {
+          result += JSON.stringify(value);
+        } else {
+          result += String(value ?? '');
+        }
       }
-      
-      // Handle built-in functions
-      if (trimmed.startsWith('now(')) {
-        return new Date().toISOString();
+
+      result += expr.quasis[index + 1];
+    });
+
+    if (isExpression || this.hasNativeExpression(result)) {
+      return `=${result}`;
+    }
+    return result;
+  }
+
+  // Expression kinds that are translated as a whole; literals and containers are handled per part
+  private isComputedExpression(expr: Expression): boolean {
+    return expr.type !== 'LiteralExpression' &&
+      expr.type !== 'TemplateExpression' &&
+      expr.type !== 'ObjectExpression' &&
+      expr.type !== 'ArrayExpression' &&
+      !(expr.type === 'IdentifierExpression' && this.lookupValue(expr.name).found);
+  }
+
+  private hasNativeExpression(value: string): boolean {
+    return !value.startsWith('=') && /\{\{[^}]*\$[\s\S]*?\}\}/.test(value);
+  }
+
+  private lookupValue(name: string): { found: boolean; value?: any } {
+    let binding: any;
+    if (this.scope.variables.has(name)) {
+      binding = this.scope.variables.get(name);
+    } else if (this.scope.parameters.has(name)) {
+      binding = this.scope.parameters.get(name).value;
+    } else {
+      return { found: false };
+    }
+
+    if (binding instanceof LazyValue) {
+      const savedScope = this.scope;
+      this.scope = binding.scope;
+      try {
+        return { found: true, value: this.evaluateExpression(binding.expr) };
+      } finally {
+        this.scope = savedScope;
       }
-      
-      if (trimmed.startsWith('env(')) {
-        const envVar = trimmed.match(/env\(['"]([^'"]+)['"]\)/)?.[1];
-        return process.env[envVar || ''] || '';
+    }
+    return { found: true, value: binding };
+  }
+
+  isRuntime(expr: Expression, locals: Set<string> = new Set()): boolean {
+    let runtime = callsBuiltin(expr, RUNTIME_BUILTINS);
+    forEachIdentifier(expr, locals, (name, isLocal) => {
+      if (!isLocal && this.isRuntimeName(name)) runtime = true;
+    });
+    return runtime;
+  }
+
+  private isRuntimeName(name: string): boolean {
+    if (this.scope.variables.has(name)) {
+      return this.scope.variables.get(name) instanceof LazyValue;
+    }
+    if (this.scope.parameters.has(name)) {
+      return this.scope.parameters.get(name).value instanceof LazyValue;
+    }
+    return this.scope.nodeNames.has(name) || this.scope.moduleNames.has(name);
+  }
+
+  private isKnownName(name: string): boolean {
+    return this.scope.variables.has(name) ||
+      this.scope.parameters.has(name) ||
+      this.scope.nodeNames.has(name) ||
+      this.scope.moduleNames.has(name);
+  }
+
+  private hasUnknownNames(expr: Expression): boolean {
+    let unknown = false;
+    forEachIdentifier(expr, new Set(), (name, isLocal) => {
+      if (!isLocal && !this.isKnownName(name)) unknown = true;
+    });
+    return unknown;
+  }
+
+  // `x.output...` can only mean a node, so an unknown `x` is an error rather than literal text
+  private assertKnownNodes(expr: Expression): void {
+    forEachIdentifier(expr, new Set(), (name, isLocal, identifier, parent) => {
+      if (!isLocal && !this.isKnownName(name) &&
+          parent?.type === 'MemberExpression' && parent.property === 'output') {
+        throw this.error(`Unknown node '${name}' referenced in expression`, identifier);
       }
-      
-      return match; // Return original if not found
     });
   }
 
+  translateIdentifier(name: string, expr: Expression): string | null {
+    const binding = this.lookupValue(name);
+    if (binding.found) {
+      return toJsLiteral(binding.value);
+    }
+    if (this.scope.nodeNames.has(name) || this.scope.moduleNames.has(name)) {
+      return this.translateReference(name, 'output', expr)!;
+    }
+    return null;
+  }
+
+  translateReference(name: string, property: string, expr: Expression): string | null {
+    if (this.lookupValue(name).found) {
+      return null;
+    }
+
+    const node = this.scope.nodeNames.get(name);
+    if (node) {
+      const base = this.nodeDataAccessor(node, name, expr);
+      return property === 'output' ? base : `${base}.${property}`;
+    }
+
+    if (this.scope.moduleNames.has(name)) {
+      const module = this.scope.modules.get(name)!;
+      const named = module.outputs.get(property);
+      const endpoint = named || module.defaultOutputs[0];
+      const path = [...(endpoint.path || [])];
+      if (!named && property !== 'output') {
+        path.push(property);
+      }
+      const base = this.nodeDataAccessor(endpoint.node, name, expr);
+      return [base, ...path].join('.');
+    }
+
+    return null;
+  }
+
+  // $json for the node feeding this one directly, $('name').item.json for anything further up
+  private nodeDataAccessor(node: string, referencedAs: string, expr: Expression): string {
+    if (!this.currentNode) {
+      throw this.error(`Node '${referencedAs}' can only be referenced from node parameters`, expr);
+    }
+
+    const ancestors = this.ancestors.get(this.currentNode) || new Set();
+    if (!ancestors.has(node)) {
+      throw this.error(`Node '${this.currentNode}' references '${referencedAs}', which is not upstream of it`, expr);
+    }
+
+    const predecessors = this.predecessors.get(this.currentNode)!;
+    if (predecessors.size === 1 && predecessors.has(node)) {
+      return '$json';
+    }
+    return `$('${node.replace(/'/g, "\\'")}').item.json`;
+  }
+
+  private error(message: string, at: ASTNode | undefined = this.currentExpression): GeneratorError {
+    return new GeneratorError(message, at?.line, at?.column);
+  }
+
   private generateConnections(
     connections: ConnectionDeclaration[], 
     nodes: N8nNode[]
   ): WorkflowConnections {
-    const nodeNameToName = new Map<string, string>();
+    const nodesByName = new Map<string, N8nNode>();
     for (const node of nodes) {
-      nodeNameToName.set(node.name, node.name);
+      nodesByName.set(node.name, node);
     }
 
     const result: WorkflowConnections = {};
@@ -238,78 +1075,124 @@ export class Generator {
     for (const conn of connections) {
       const sourceName = conn.source.node;
       const targetName = conn.target.node;
+      const source = nodesByName.get(sourceName);
+      const target = nodesByName.get(targetName);
       
       // Validate nodes exist
-      if (!nodeNameToName.has(sourceName)) {
+      if (!source) {
         throw new Error(`Source node '${sourceName}' not found`);
       }
-      if (!nodeNameToName.has(targetName)) {
+      if (!target) {
         throw new Error(`Target node '${targetName}' not found`);
       }
 
+      const { output, input } = this.connectionPorts(conn, source, target);
+
       // Initialize source connections if not exists
       if (!result[sourceName]) {
         result[sourceName] = {};
       }
 
-      const connectionType = this.mapConnectionType(conn.source.output || 'main');
-      const outputIndex = this.mapOutputIndex(conn.source.output || 'main');
-      const inputIndex = 0;  // Simplified - always use first input
-
-      if (!result[sourceName][connectionType]) {
-        result[sourceName][connectionType] = [];
+      if (!result[sourceName][output.type]) {
+        result[sourceName][output.type] = [];
       }
 
-      if (!result[sourceName][connectionType][outputIndex]) {
-        result[sourceName][connectionType][outputIndex] = [];
+      const byIndex = result[sourceName][output.type];
+      for (let index = byIndex.length; index <= output.index; index++) {
+        byIndex[index] = []; // n8n expects every lower output to be present
       }
 
       const nodeConnection: NodeConnection = {
         node: targetName,
-        type: connectionType as any,
-        index: inputIndex
+        type: input.type,
+        index: input.index
       };
 
-      result[sourceName][connectionType][outputIndex].push(nodeConnection);
+      byIndex[output.index].push(nodeConnection);
+
+      // Roots only use an attached parser when told to
+      if (input.type === 'ai_outputParser') {
+        target.parameters.hasOutputParser = true;
+      }
     }
 
     return result;
   }
 
-  private mapConnectionType(dslType: string): string {
-    // Map DSL connection types to n8n connection types
-    switch (dslType) {
-      case 'main':
-      case 'output':
-      case 'true':
-      case 'false':
-        return 'main';
-      case 'error':
-        return 'main'; // n8n uses main for error connections too
-      default:
-        return 'main';
+  /**
+   * The output and input a connection joins. Unnamed ends default to main,
+   * except for LangChain sub-nodes, which connect through their own type
+   * (`connect model -> agent` is `connect model -> agent.languageModel`), and
+   * the nodes of `connect [a, b] -> merge`, which take the inputs in order.
+   */
+  private connectionPorts(
+    conn: ConnectionDeclaration,
+    source: N8nNode,
+    target: N8nNode
+  ): { output: Port; input: Port } {
+    const sourceAt = conn.source.line ? conn.source : conn;
+    const targetAt = conn.target.line ? conn.target : conn;
+    const sourcePorts = getNodePorts(source).outputs;
+    const targetPorts = getNodePorts(target).inputs;
+    const defaultPort = (ports: PortList) =>
+      ports.count === 0 && Object.keys(ports.names).length === 1 ? Object.keys(ports.names)[0] : 'main';
+
+    // Endpoints resolve to main when unnamed, so main counts as unnamed here
+    const outputName = conn.source.output !== 'main' ? conn.source.output : undefined;
+    const inputName = conn.target.input !== 'main' ? conn.target.input : undefined;
+
+    let output: Port;
+    let input: Port;
+    if (inputName) {
+      input = this.findPort(target, inputName, 'input', targetAt);
+      output = this.findPort(source, outputName || (input.type === 'main' ? 'main' : defaultPort(sourcePorts)), 'output', sourceAt);
+    } else {
+      output = this.findPort(source, outputName || defaultPort(sourcePorts), 'output', sourceAt);
+      const byType = Object.keys(targetPorts.names).find(name => targetPorts.names[name].type === output.type);
+      input = output.type === 'main' && conn.fanIn !== undefined && targetPorts.count > 1
+        ? this.fanInPort(conn.fanIn, target, targetPorts, sourceAt)
+        : this.findPort(target, output.type !== 'main' && byType ? byType : 'main', 'input', targetAt);
+    }
+
+    if (output.type !== input.type) {
+      throw new GeneratorError(
+        `Can't connect the ${output.type} output of '${source.name}' to the ${input.type} input of '${target.name}'`,
+        sourceAt.line,
+        sourceAt.column
+      );
     }
+    return { output, input };
   }
 
-  private mapOutputIndex(dslOutput: string): number {
-    // Map DSL output names to n8n output indices
-    switch (dslOutput) {
-      case 'main':
-      case 'output':
-      case 'true':
-        return 0;
-      case 'false':
-        return 1;
-      default:
-        return 0;
+  private fanInPort(position: number, target: N8nNode, inputs: PortList, at: { line?: number; column?: number }): Port {
+    if (position >= inputs.count) {
+      throw new GeneratorError(
+        `Node '${target.name}' (${target.type}) has ${inputs.count} inputs, too few for the list connected to it; ` +
+          `connect each node to one of ${portNames(inputs, 'input').filter(name => name !== 'main').join(', ')}`,
+        at.line,
+        at.column
+      );
     }
+    return { type: 'main', index: position };
   }
 
-  private generateInstanceId(): string {
-    return Array.from({ length: 64 }, () => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
+  private findPort(
+    node: N8nNode,
+    name: string,
+    direction: 'output' | 'input',
+    at: { line?: number; column?: number }
+  ): Port {
+    const ports = getNodePorts(node);
+    const list = direction === 'output' ? ports.outputs : ports.inputs;
+    const port = findPort(list, name, direction);
+    if (!port) {
+      const available = portNames(list, direction);
+      const hint = available.length > 0 ? `; it has ${available.join(', ')}` : '';
+      throw new GeneratorError(`Node '${node.name}' (${node.type}) has no ${direction} '${name}'${hint}`, at.line, at.column);
+    }
+    return port;
   }
+
 }
 
 export { Generator as N8nGenerator };
\ No newline at end of file
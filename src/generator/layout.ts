@@ -0,0 +1,321 @@
+/**
+ * Layered auto-layout over the connection graph
+ */
+
+import { N8nNode, NodePosition, WorkflowConnections } from '../types/n8n';
+
+export type LayoutDirection = 'horizontal' | 'vertical';
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  spacing: number;       // Between layers
+  branchSpacing: number; // Between nodes in the same layer
+  startPosition: NodePosition;
+}
+
+interface Edge {
+  source: string;
+  target: string;
+  output: number;
+  type: string; // main, or ai_* from a LangChain sub-node
+}
+
+const STICKY_NOTE_TYPE = 'n8n-nodes-base.stickyNote';
+const NOTE_STEP = 300;   // Notes are 240 wide by default
+const NOTE_OFFSET = 300; // and 160 high
+
+/**
+ * Nodes are ranked by their longest path from the triggers, so each connection
+ * points forward. Within a layer, a node sits at the mean height of its inputs,
+ * and the outputs of a node (if true/false, switch cases) fan out around it.
+ * Loops are broken at the edge that returns to a node already on the path.
+ * LangChain sub-nodes (models, memory, tools) sit in a row under their root.
+ *
+ * Coordinates are worked out with layers along x and branches along y, then
+ * swapped for vertical layouts.
+ */
+export class Layout {
+  constructor(private options: LayoutOptions) {}
+
+  arrange(nodes: N8nNode[], connections: WorkflowConnections, pinned: Set<string> = new Set()): void {
+    const names = nodes.filter(node => node.type !== STICKY_NOTE_TYPE).map(node => node.name);
+    const edges = this.collectEdges(connections, new Set(names));
+    const connected = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+
+    // [layer coordinate, branch coordinate]
+    const positions = new Map<string, [number, number]>();
+    const components = this.components(names.filter(name => connected.has(name)), edges);
+    let bottom: number | undefined;
+
+    // Separate graphs are stacked below each other
+    for (const component of components) {
+      const placed = this.layoutComponent(component, edges);
+      const branches = [...placed.values()].map(([, branch]) => branch);
+      const shift = bottom === undefined ? 0 : bottom + this.options.branchSpacing - Math.min(...branches);
+      for (const [name, [layer, branch]] of placed) {
+        positions.set(name, [layer, branch + shift]);
+      }
+      bottom = Math.max(...branches) + shift;
+    }
+
+    // Unconnected nodes go in a row below the graph, sticky notes in a row above it
+    const isolated = names.filter(name => !connected.has(name));
+    const isolatedRow = bottom === undefined ? 0 : bottom + this.options.branchSpacing;
+    isolated.forEach((name, index) => positions.set(name, [index * this.options.spacing, isolatedRow]));
+
+    const top = Math.min(0, ...[...positions.values()].map(([, branch]) => branch));
+    nodes
+      .filter(node => node.type === STICKY_NOTE_TYPE)
+      .forEach((note, index) => positions.set(note.name, [index * NOTE_STEP, top - NOTE_OFFSET]));
+
+    // Pinned nodes keep their position; the others are placed around them
+    const fixed = new Map<string, [number, number]>();
+    for (const node of nodes) {
+      if (pinned.has(node.name)) {
+        fixed.set(node.name, this.toLayoutSpace(node.position));
+      }
+    }
+
+    // A graph with pinned nodes moves with the first of them
+    for (const component of components) {
+      const anchor = component.find(name => fixed.has(name));
+      if (!anchor) continue;
+      const [layer, branch] = positions.get(anchor)!;
+      const [pinnedLayer, pinnedBranch] = fixed.get(anchor)!;
+      for (const name of component) {
+        const [memberLayer, memberBranch] = positions.get(name)!;
+        positions.set(name, [memberLayer + pinnedLayer - layer, memberBranch + pinnedBranch - branch]);
+      }
+    }
+
+    // Nodes landing on a pinned (or already moved) node move down its layer until clear
+    const occupied = [...fixed.values()];
+    const overlaps = ([layer, branch]: [number, number]) => occupied.some(([otherLayer, otherBranch]) =>
+      Math.abs(otherLayer - layer) < this.options.spacing / 2 &&
+      Math.abs(otherBranch - branch) < this.options.branchSpacing / 2
+    );
+    for (const node of nodes) {
+      if (pinned.has(node.name)) continue;
+      const position = positions.get(node.name)!;
+      while (overlaps(position)) {
+        position[1] += this.options.branchSpacing;
+      }
+      occupied.push(position);
+      node.position = this.fromLayoutSpace(position);
+    }
+  }
+
+  private toLayoutSpace([x, y]: NodePosition): [number, number] {
+    const [startX, startY] = this.options.startPosition;
+    const [layer, branch] = [x - startX, y - startY];
+    return this.options.direction === 'vertical' ? [branch, layer] : [layer, branch];
+  }
+
+  private fromLayoutSpace([layer, branch]: [number, number]): NodePosition {
+    const [startX, startY] = this.options.startPosition;
+    const [x, y] = this.options.direction === 'vertical' ? [branch, layer] : [layer, branch];
+    return [startX + Math.round(x), startY + Math.round(y)];
+  }
+
+  private collectEdges(connections: WorkflowConnections, names: Set<string>): Edge[] {
+    const edges: Edge[] = [];
+    for (const [source, outputs] of Object.entries(connections)) {
+      for (const [type, byIndex] of Object.entries(outputs)) {
+        (byIndex || []).forEach((targets, output) => {
+          for (const target of targets || []) {
+            if (names.has(source) && names.has(target.node)) {
+              edges.push({ source, target: target.node, output, type });
+            }
+          }
+        });
+      }
+    }
+    return edges;
+  }
+
+  // Connected components, each in declaration order
+  private components(names: string[], edges: Edge[]): string[][] {
+    const neighbours = new Map<string, string[]>(names.map(name => [name, []]));
+    for (const edge of edges) {
+      neighbours.get(edge.source)!.push(edge.target);
+      neighbours.get(edge.target)!.push(edge.source);
+    }
+
+    const seen = new Set<string>();
+    const components: string[][] = [];
+    for (const name of names) {
+      if (seen.has(name)) continue;
+      const members = new Set<string>();
+      const queue = [name];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        members.add(current);
+        queue.push(...neighbours.get(current)!);
+      }
+      components.push(names.filter(member => members.has(member)));
+    }
+    return components;
+  }
+
+  private layoutComponent(members: string[], allEdges: Edge[]): Map<string, [number, number]> {
+    // Sub-nodes (chat models, tools) only feed a root node, and are placed under it
+    const subNodeEdges = allEdges.filter(edge => edge.type !== 'main' && members.includes(edge.source));
+    const subNodes = new Set(subNodeEdges.map(edge => edge.source));
+    for (const edge of allEdges) {
+      if (edge.type === 'main' && (subNodes.has(edge.source) || subNodes.has(edge.target))) {
+        subNodes.delete(edge.source);
+        subNodes.delete(edge.target);
+      }
+    }
+
+    const names = members.filter(name => !subNodes.has(name));
+    const memberSet = new Set(names);
+    const edges = this.withoutBackEdges(names, allEdges.filter(edge =>
+      edge.type === 'main' && memberSet.has(edge.source) && memberSet.has(edge.target)
+    ));
+
+    // Longest path from the roots, in topological order
+    const rank = new Map<string, number>(names.map(name => [name, 0]));
+    const indegree = new Map<string, number>(names.map(name => [name, 0]));
+    for (const edge of edges) {
+      indegree.set(edge.target, indegree.get(edge.target)! + 1);
+    }
+    const queue = names.filter(name => indegree.get(name) === 0);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of edges.filter(candidate => candidate.source === current)) {
+        rank.set(edge.target, Math.max(rank.get(edge.target)!, rank.get(current)! + 1));
+        indegree.set(edge.target, indegree.get(edge.target)! - 1);
+        if (indegree.get(edge.target) === 0) {
+          queue.push(edge.target);
+        }
+      }
+    }
+
+    const layers: string[][] = [];
+    for (const name of names) {
+      (layers[rank.get(name)!] ||= []).push(name);
+    }
+
+    const branch = new Map<string, number>();
+    for (const layer of layers.filter(Boolean)) {
+      const desired = layer.map((name, index) => {
+        const incoming = edges.filter(edge => edge.target === name);
+        if (incoming.length === 0) {
+          return { name, value: index * this.options.branchSpacing };
+        }
+        const values = incoming.map(edge => branch.get(edge.source)! + this.outputOffset(edge, edges));
+        return { name, value: values.reduce((sum, value) => sum + value, 0) / values.length };
+      });
+      for (const [name, value] of this.spread(desired, names)) {
+        branch.set(name, value);
+      }
+    }
+
+    const placed = new Map<string, [number, number]>(
+      names.map(name => [name, [rank.get(name)! * this.options.spacing, branch.get(name)!]])
+    );
+    this.placeSubNodes(placed, subNodes, subNodeEdges);
+    return placed;
+  }
+
+  // A row under each root node, centred on it; sub-nodes of sub-nodes go a row further down
+  private placeSubNodes(placed: Map<string, [number, number]>, subNodes: Set<string>, edges: Edge[]): void {
+    let remaining = [...subNodes];
+    while (remaining.length > 0) {
+      const rows = new Map<string, string[]>();
+      for (const name of remaining) {
+        const root = edges.find(edge => edge.source === name)!.target;
+        if (placed.has(root)) {
+          rows.set(root, [...(rows.get(root) || []), name]);
+        }
+      }
+      if (rows.size === 0) {
+        // Sub-nodes only attached to each other get a row below the rest
+        const bottom = Math.max(...[...placed.values()].map(([, branch]) => branch));
+        remaining.forEach((name, index) => placed.set(name, [index * this.options.spacing, bottom + this.options.branchSpacing]));
+        return;
+      }
+
+      for (const [root, row] of rows) {
+        const [layer, branch] = placed.get(root)!;
+        row.forEach((name, index) => placed.set(name, [
+          layer + (index - (row.length - 1) / 2) * this.options.spacing,
+          branch + this.options.branchSpacing
+        ]));
+      }
+      remaining = remaining.filter(name => !placed.has(name));
+    }
+  }
+
+  // Edges that close a loop, found by a depth-first walk from the roots
+  private withoutBackEdges(names: string[], edges: Edge[]): Edge[] {
+    const state = new Map<string, 'active' | 'done'>();
+    const backEdges = new Set<Edge>();
+
+    const visit = (name: string) => {
+      state.set(name, 'active');
+      for (const edge of edges.filter(candidate => candidate.source === name)) {
+        if (state.get(edge.target) === 'active') {
+          backEdges.add(edge);
+        } else if (!state.has(edge.target)) {
+          visit(edge.target);
+        }
+      }
+      state.set(name, 'done');
+    };
+
+    const targets = new Set(edges.map(edge => edge.target));
+    for (const name of [...names.filter(name => !targets.has(name)), ...names]) {
+      if (!state.has(name)) {
+        visit(name);
+      }
+    }
+    return edges.filter(edge => !backEdges.has(edge));
+  }
+
+  // Outputs of one node are centred on it: if true above, false below
+  private outputOffset(edge: Edge, edges: Edge[]): number {
+    const outputs = [...new Set(edges.filter(other => other.source === edge.source).map(other => other.output))]
+      .sort((a, b) => a - b);
+    return (outputs.indexOf(edge.output) - (outputs.length - 1) / 2) * this.options.branchSpacing;
+  }
+
+  /**
+   * Place a layer's nodes as close to their desired heights as possible while
+   * keeping them `branchSpacing` apart. Overlapping nodes are merged into blocks
+   * centred on the mean of what their members want.
+   */
+  private spread(desired: { name: string; value: number }[], order: string[]): Map<string, number> {
+    const gap = this.options.branchSpacing;
+    const sorted = [...desired].sort((a, b) =>
+      a.value - b.value || order.indexOf(a.name) - order.indexOf(b.name)
+    );
+
+    const blocks: { names: string[]; values: number[]; start: number }[] = [];
+    for (const item of sorted) {
+      let block = { names: [item.name], values: [item.value], start: item.value };
+      while (blocks.length > 0) {
+        const previous = blocks[blocks.length - 1];
+        if (previous.start + previous.names.length * gap <= block.start) break;
+        blocks.pop();
+        const values = [...previous.values, ...block.values];
+        const starts = values.map((value, index) => value - index * gap);
+        block = {
+          names: [...previous.names, ...block.names],
+          values,
+          start: starts.reduce((sum, value) => sum + value, 0) / starts.length
+        };
+      }
+      blocks.push(block);
+    }
+
+    const result = new Map<string, number>();
+    for (const block of blocks) {
+      block.names.forEach((name, index) => result.set(name, block.start + index * gap));
+    }
+    return result;
+  }
+}
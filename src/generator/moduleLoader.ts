@@ -0,0 +1,54 @@
+/**
+ * Loads and caches module definitions referenced by module declarations
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Parser, ParseError } from '../parser/parser';
+import { ModuleDefinition } from '../types/dsl';
+
+export interface LoadedModule {
+  path: string;
+  definition: ModuleDefinition;
+}
+
+export class ModuleLoader {
+  private cache: Map<string, ModuleDefinition> = new Map();
+
+  /**
+   * Resolve a module path relative to the file that references it.
+   * Without a referencing file, paths resolve against the working directory.
+   */
+  resolvePath(modulePath: string, fromFile?: string): string {
+    const baseDir = fromFile ? path.dirname(fromFile) : process.cwd();
+    return path.resolve(baseDir, modulePath);
+  }
+
+  load(modulePath: string, fromFile?: string): LoadedModule {
+    const resolved = this.resolvePath(modulePath, fromFile);
+
+    const cached = this.cache.get(resolved);
+    if (cached) {
+      return { path: resolved, definition: cached };
+    }
+
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Module file '${modulePath}' not found (resolved to ${resolved})`);
+    }
+
+    const source = fs.readFileSync(resolved, 'utf-8');
+
+    let definition: ModuleDefinition;
+    try {
+      definition = new Parser(source).parseModuleDefinition();
+    } catch (error) {
+      if (error instanceof ParseError) {
+        throw new Error(`In module '${modulePath}': ${error.message}`);
+      }
+      throw error;
+    }
+
+    this.cache.set(resolved, definition);
+    return { path: resolved, definition };
+  }
+}
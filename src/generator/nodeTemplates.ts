@@ -2,12 +2,84 @@
  * Node-specific parameter templates and mappings
  */
 
+import { IdSequence } from '../utils/ids';
+import { ResourceLocator } from '../types/n8n';
+import { isN8nExpression, toJsLiteral } from './expressionTranslator';
+
 export interface NodeTemplate {
-  mapParameters(params: Record<string, any>): Record<string, any>;
+  // nodeId seeds the ids of the conditions and assignments a template generates
+  mapParameters(params: Record<string, any>, nodeId?: string): Record<string, any>;
+  // Inverse of mapParameters, used by the decompiler; null if the DSL form can't express them
+  unmapParameters?(params: Record<string, any>): Record<string, any> | null;
+  // DSL parameter names with a one-line description, for editor completion and hover
+  readonly parameters?: Record<string, string>;
+  // Parameters selecting the authentication method for a credential type the node uses
+  credentialParameters?(credentialType: string): Record<string, any>;
+}
+
+// n8n's [{ name, value }] parameter lists as a plain object
+function pairsToObject(pairs: Array<{ name: string; value: any }>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const pair of pairs) {
+    result[pair.name] = pair.value;
+  }
+  return result;
+}
+
+// A plain object as n8n's [{ name, value }] parameter list
+function objectToPairs(object: Record<string, any>): Array<{ name: string; value: string }> {
+  return Object.entries(object).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+// The DSL name for an n8n value in a DSL-to-n8n name table; the first matching entry wins
+function dslName(names: Record<string, string>, value: string): string | undefined {
+  return Object.keys(names).find(name => names[name] === value);
+}
+
+/**
+ * A resource locator from a DSL value: a URL in url mode, a value `isId`
+ * accepts (or an expression) in id mode, any other in `otherMode`. A full
+ * `{ __rl: true, ... }` object is kept as written.
+ */
+function locator(value: any, isId: (value: string) => boolean, otherMode: ResourceLocator['mode']): ResourceLocator {
+  if (value !== null && typeof value === 'object' && value.__rl) {
+    return value;
+  }
+  const text = String(value);
+  if (/^https?:\/\//.test(text)) {
+    return { __rl: true, value, mode: 'url' };
+  }
+  return { __rl: true, value, mode: isN8nExpression(text) || isId(text) ? 'id' : otherMode };
+}
+
+// Inverse of locator: the bare value when it reads back the same, else the whole locator
+function unlocator(rl: any, isId: (value: string) => boolean, otherMode: ResourceLocator['mode']): any {
+  if (rl === null || typeof rl !== 'object' || !rl.__rl) {
+    return rl;
+  }
+  const plain = locator(rl.value, isId, otherMode);
+  const same = Object.keys(rl).length === 3 && plain.mode === rl.mode;
+  return same ? rl.value : rl;
 }
 
+// Credential types the HTTP Request node uses as generic auth; others are predefined (service) credentials
+const GENERIC_AUTH_TYPES = [
+  'httpBasicAuth', 'httpDigestAuth', 'httpHeaderAuth', 'httpQueryAuth',
+  'httpCustomAuth', 'oAuth1Api', 'oAuth2Api'
+];
+
 // HTTP Request node parameter mapping
 export class HttpRequestTemplate implements NodeTemplate {
+  readonly parameters = {
+    method: 'HTTP method (GET, POST, PUT, PATCH, DELETE)',
+    url: 'Request URL',
+    queryParameters: 'Query string parameters, as an object',
+    headers: 'Request headers, as an object',
+    body: 'Request body: a string is sent raw, an object as JSON (POST, PUT and PATCH only)',
+    auth: 'Authentication: { type: "basicAuth", username, password } or { type: "headerAuth", name, value }',
+    timeout: 'Request timeout in milliseconds'
+  };
+
   mapParameters(params: Record<string, any>): Record<string, any> {
     const mapped: Record<string, any> = {
       method: params.method || 'GET',
@@ -79,10 +151,66 @@ export class HttpRequestTemplate implements NodeTemplate {
 
     return mapped;
   }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl: Record<string, any> = {
+      method: params.method || 'GET',
+      url: params.url || ''
+    };
+
+    if (params.queryParameters?.parameters) {
+      dsl.queryParameters = pairsToObject(params.queryParameters.parameters);
+    }
+    if (params.headerParameters?.parameters) {
+      dsl.headers = pairsToObject(params.headerParameters.parameters);
+    }
+
+    if (params.contentType === 'raw') {
+      dsl.body = params.body;
+    } else if (params.contentType === 'json' && params.jsonParameters?.parameters) {
+      dsl.body = pairsToObject(params.jsonParameters.parameters);
+    }
+
+    if (params.authentication === 'basicAuth') {
+      dsl.auth = { type: 'basicAuth', username: params.basicAuth?.user, password: params.basicAuth?.password };
+    } else if (params.authentication === 'headerAuth') {
+      dsl.auth = { type: 'headerAuth', name: params.headerAuth?.name, value: params.headerAuth?.value };
+    } else if (params.authentication && params.authentication !== 'none') {
+      dsl.auth = { type: params.authentication };
+    }
+
+    if (params.timeout !== undefined) {
+      dsl.timeout = params.timeout;
+    }
+
+    return dsl;
+  }
+
+  credentialParameters(credentialType: string): Record<string, any> {
+    return GENERIC_AUTH_TYPES.includes(credentialType)
+      ? { authentication: 'genericCredentialType', genericAuthType: credentialType }
+      : { authentication: 'predefinedCredentialType', nodeCredentialType: credentialType };
+  }
 }
 
 // Gmail node parameter mapping
 export class GmailTemplate implements NodeTemplate {
+  readonly parameters = {
+    operation: 'send (default), get or getAll',
+    to: 'Recipient addresses',
+    subject: 'Email subject',
+    body: 'Email body',
+    bodyType: 'text (default) or html',
+    cc: 'CC addresses',
+    bcc: 'BCC addresses',
+    attachments: 'Attachments to send',
+    messageId: 'Message to fetch (get)',
+    format: 'Message format for get, default resolved',
+    returnAll: 'Return every matching message (getAll)',
+    limit: 'Maximum number of messages (getAll), default 50',
+    query: 'Gmail search query (getAll)'
+  };
+
   mapParameters(params: Record<string, any>): Record<string, any> {
     const operation = params.operation || 'send';
     const mapped: Record<string, any> = {
@@ -117,47 +245,433 @@ export class GmailTemplate implements NodeTemplate {
 
     return mapped;
   }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    if (params.resource !== 'message') {
+      return null;
+    }
+
+    switch (params.operation) {
+      case 'send': {
+        const dsl: Record<string, any> = {
+          to: params.sendTo,
+          subject: params.subject,
+          body: params.message
+        };
+        if (params.emailType && params.emailType !== 'text') dsl.bodyType = params.emailType;
+        if (params.ccList) dsl.cc = params.ccList;
+        if (params.bccList) dsl.bcc = params.bccList;
+        if (params.attachments) dsl.attachments = params.attachments;
+        return dsl;
+      }
+      case 'get':
+        return { operation: 'get', messageId: params.messageId, format: params.format };
+      case 'getAll': {
+        const dsl: Record<string, any> = { operation: 'getAll', returnAll: params.returnAll };
+        if (params.limit !== undefined) dsl.limit = params.limit;
+        if (params.q) dsl.query = params.q;
+        return dsl;
+      }
+      default:
+        return null;
+    }
+  }
+
+  credentialParameters(credentialType: string): Record<string, any> {
+    return credentialType === 'googleApi' ? { authentication: 'serviceAccount' } : { authentication: 'oAuth2' };
+  }
 }
 
-// If node parameter mapping
-export class IfTemplate implements NodeTemplate {
+// Slack DSL operations: n8n resource and operation
+const SLACK_OPERATIONS: Record<string, [string, string]> = {
+  post: ['message', 'post'],
+  update: ['message', 'update'],
+  react: ['reaction', 'add'],
+  upload: ['file', 'upload']
+};
+
+// Slack ids: C (public channel), G (private channel), D (direct message), U and W (users)
+const isSlackChannelId = (value: string) => /^[CGD][A-Z0-9]{8,}$/.test(value);
+const isSlackUserId = (value: string) => /^[UW][A-Z0-9]{8,}$/.test(value);
+
+// Slack node parameter mapping
+export class SlackTemplate implements NodeTemplate {
+  readonly parameters = {
+    operation: 'post (default), update, react or upload',
+    channel: 'Channel: "#name", an ID such as "C0123ABCD" or a channel URL (channel IDs for upload)',
+    user: 'Post to a user instead of a channel: "@name" or a user ID (post)',
+    text: 'Message text; with blocks, the notification text (post, update)',
+    blocks: 'Block Kit blocks, as a list (post, update)',
+    thread: 'Timestamp of the message to reply to in its thread (post, upload)',
+    ts: 'Timestamp of the message to change (update) or react to (react)',
+    emoji: 'Emoji name without colons, e.g. "eyes" (react)',
+    file: 'Binary property holding the file, default "data" (upload)',
+    content: 'Text to upload as the file, instead of binary data (upload)',
+    fileName: 'Name of the uploaded file (upload)',
+    title: 'Title of the uploaded file (upload)',
+    comment: 'Message posted with the file (upload)',
+    options: 'Other n8n options, as an object'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const operation = params.operation || 'post';
+    const [resource, n8nOperation] = SLACK_OPERATIONS[operation] ?? ['message', operation];
+    const mapped: Record<string, any> = {};
+    if (resource !== 'message') mapped.resource = resource;
+    if (n8nOperation !== 'post') mapped.operation = n8nOperation;
+
+    switch (operation) {
+      case 'post': {
+        if (params.user !== undefined) {
+          mapped.select = 'user';
+          mapped.user = locator(params.user, isSlackUserId, 'username');
+        } else {
+          mapped.select = 'channel';
+          mapped.channelId = locator(params.channel ?? '', isSlackChannelId, 'name');
+        }
+        this.mapMessage(params, mapped);
+        const otherOptions: Record<string, any> = { ...params.options };
+        if (params.thread !== undefined) {
+          otherOptions.thread_ts = { replyValues: { thread_ts: params.thread } };
+        }
+        mapped.otherOptions = otherOptions;
+        break;
+      }
+      case 'update':
+        mapped.channelId = locator(params.channel ?? '', isSlackChannelId, 'name');
+        mapped.ts = params.ts ?? '';
+        this.mapMessage(params, mapped);
+        mapped.updateFields = { ...params.options };
+        break;
+      case 'react':
+        mapped.channelId = locator(params.channel ?? '', isSlackChannelId, 'name');
+        mapped.timestamp = params.ts ?? '';
+        mapped.name = params.emoji ?? '';
+        break;
+      case 'upload': {
+        if (params.content !== undefined) {
+          mapped.fileContent = params.content;
+        } else {
+          mapped.binaryData = true;
+          mapped.binaryPropertyName = params.file ?? 'data';
+        }
+        const options: Record<string, any> = { ...params.options };
+        if (params.channel !== undefined) {
+          options.channelIds = Array.isArray(params.channel) ? params.channel : [params.channel];
+        }
+        if (params.fileName !== undefined) options.fileName = params.fileName;
+        if (params.title !== undefined) options.title = params.title;
+        if (params.comment !== undefined) options.initialComment = params.comment;
+        if (params.thread !== undefined) options.threadTs = params.thread;
+        mapped.options = options;
+        break;
+      }
+    }
+
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const resource = params.resource ?? 'message';
+    const n8nOperation = params.operation ?? 'post';
+    const operation = Object.keys(SLACK_OPERATIONS)
+      .find(name => SLACK_OPERATIONS[name][0] === resource && SLACK_OPERATIONS[name][1] === n8nOperation);
+    if (!operation) {
+      return null;
+    }
+
+    const dsl: Record<string, any> = {};
+    if (operation !== 'post') dsl.operation = operation;
+
+    switch (operation) {
+      case 'post': {
+        if (params.select === 'user') {
+          dsl.user = unlocator(params.user, isSlackUserId, 'username');
+        } else {
+          dsl.channel = unlocator(params.channelId, isSlackChannelId, 'name');
+        }
+        this.unmapMessage(params, dsl);
+        const { thread_ts, ...options } = params.otherOptions || {};
+        if (thread_ts !== undefined) {
+          if (Object.keys(thread_ts.replyValues || {}).join() !== 'thread_ts') return null;
+          dsl.thread = thread_ts.replyValues.thread_ts;
+        }
+        if (Object.keys(options).length > 0) dsl.options = options;
+        break;
+      }
+      case 'update':
+        dsl.channel = unlocator(params.channelId, isSlackChannelId, 'name');
+        dsl.ts = params.ts;
+        this.unmapMessage(params, dsl);
+        if (Object.keys(params.updateFields || {}).length > 0) dsl.options = params.updateFields;
+        break;
+      case 'react':
+        dsl.channel = unlocator(params.channelId, isSlackChannelId, 'name');
+        dsl.ts = params.timestamp;
+        dsl.emoji = params.name;
+        break;
+      case 'upload': {
+        if (params.binaryData) {
+          if (params.binaryPropertyName !== 'data') dsl.file = params.binaryPropertyName;
+        } else {
+          dsl.content = params.fileContent;
+        }
+        const { channelIds, fileName, title, initialComment, threadTs, ...options } = params.options || {};
+        if (channelIds !== undefined) dsl.channel = channelIds.length === 1 ? channelIds[0] : channelIds;
+        if (fileName !== undefined) dsl.fileName = fileName;
+        if (title !== undefined) dsl.title = title;
+        if (initialComment !== undefined) dsl.comment = initialComment;
+        if (threadTs !== undefined) dsl.thread = threadTs;
+        if (Object.keys(options).length > 0) dsl.options = options;
+        break;
+      }
+    }
+
+    return dsl;
+  }
+
+  credentialParameters(credentialType: string): Record<string, any> {
+    return credentialType === 'slackOAuth2Api' ? { authentication: 'oAuth2' } : {};
+  }
+
+  // Plain text, or Block Kit blocks with the text as the notification fallback
+  private mapMessage(params: Record<string, any>, mapped: Record<string, any>): void {
+    if (params.blocks !== undefined) {
+      mapped.messageType = 'block';
+      mapped.blocksUi = typeof params.blocks === 'string'
+        ? params.blocks
+        : JSON.stringify({ blocks: params.blocks }, null, 2);
+      if (params.text !== undefined) mapped.text = params.text;
+    } else {
+      mapped.text = params.text ?? '';
+    }
+  }
+
+  private unmapMessage(params: Record<string, any>, dsl: Record<string, any>): void {
+    if (params.messageType === 'block') {
+      try {
+        dsl.blocks = JSON.parse(params.blocksUi).blocks;
+      } catch {
+        dsl.blocks = params.blocksUi;
+      }
+    }
+    if (params.text !== undefined) dsl.text = params.text;
+  }
+}
+
+// Google Sheets DSL operations: n8n operation. Lookups are reads with filters.
+const SHEETS_OPERATIONS: Record<string, string> = {
+  append: 'append',
+  update: 'update',
+  upsert: 'appendOrUpdate',
+  lookup: 'read',
+  read: 'read'
+};
+
+// Spreadsheets are picked by URL or ID; sheets by URL, name or numeric ID (gid)
+const isAnyId = () => true;
+const isSheetId = (value: string) => /^\d+$/.test(value);
+
+// Google Sheets node parameter mapping
+export class GoogleSheetsTemplate implements NodeTemplate {
+  readonly parameters = {
+    operation: 'append (default), update, upsert, lookup or read',
+    document: 'Spreadsheet URL or ID',
+    sheet: 'Sheet name, numeric ID (gid) or URL',
+    columns: 'Column values, as an object; omit (or "auto") to map input fields by name (append, update, upsert)',
+    matchOn: 'Column or columns that identify the row to change (update, upsert)',
+    where: 'Column values the rows must match, as an object (lookup)',
+    first: 'Return only the first matching row (lookup)',
+    range: 'A1 range to read, e.g. "A1:D100" (lookup, read)',
+    options: 'Other n8n options, as an object'
+  };
+
   mapParameters(params: Record<string, any>): Record<string, any> {
+    const operation = params.operation || 'append';
     const mapped: Record<string, any> = {
-      options: params.options || {}
+      operation: SHEETS_OPERATIONS[operation] ?? operation
+    };
+    if (params.document !== undefined) {
+      mapped.documentId = locator(params.document, isAnyId, 'id');
+    }
+    if (params.sheet !== undefined) {
+      mapped.sheetName = locator(params.sheet, isSheetId, 'name');
+    }
+
+    const options: Record<string, any> = { ...params.options };
+    if (['append', 'update', 'upsert'].includes(operation)) {
+      mapped.columns = this.mapColumns(params);
+    } else if (operation === 'lookup' || operation === 'read') {
+      if (operation === 'lookup') {
+        mapped.filtersUI = {
+          values: Object.entries(params.where || {})
+            .map(([lookupColumn, lookupValue]) => ({ lookupColumn, lookupValue }))
+        };
+        if (params.first) options.returnFirstMatch = true;
+      }
+      if (params.range !== undefined) {
+        options.dataLocationOnSheet = { values: { rangeDefinition: 'specifyRange', range: params.range } };
+      }
+    }
+    mapped.options = options;
+
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const operation = params.operation === 'read'
+      ? (params.filtersUI?.values?.length ? 'lookup' : 'read')
+      : dslName(SHEETS_OPERATIONS, params.operation);
+    if (!operation) {
+      return null;
+    }
+
+    const dsl: Record<string, any> = { operation };
+    if (params.documentId !== undefined) dsl.document = unlocator(params.documentId, isAnyId, 'id');
+    if (params.sheetName !== undefined) dsl.sheet = unlocator(params.sheetName, isSheetId, 'name');
+
+    const { returnFirstMatch, dataLocationOnSheet, ...options } = params.options || {};
+    if (params.columns !== undefined) {
+      const { mappingMode, value, matchingColumns } = params.columns;
+      if (mappingMode === 'defineBelow') dsl.columns = value;
+      if (matchingColumns?.length) dsl.matchOn = matchingColumns.length === 1 ? matchingColumns[0] : matchingColumns;
+    }
+    if (operation === 'lookup') {
+      dsl.where = pairsToObject(params.filtersUI.values
+        .map((filter: any) => ({ name: filter.lookupColumn, value: filter.lookupValue })));
+      if (returnFirstMatch) dsl.first = true;
+    }
+    if (dataLocationOnSheet?.values?.rangeDefinition === 'specifyRange') {
+      dsl.range = dataLocationOnSheet.values.range;
+    }
+    if (Object.keys(options).length > 0) dsl.options = options;
+
+    return dsl;
+  }
+
+  credentialParameters(credentialType: string): Record<string, any> {
+    return credentialType === 'googleApi' ? { authentication: 'serviceAccount' } : { authentication: 'oAuth2' };
+  }
+
+  // Columns given in the DSL, or n8n's own mapping of input fields to columns of the same name
+  private mapColumns(params: Record<string, any>): Record<string, any> {
+    const matchingColumns: string[] = params.matchOn === undefined
+      ? []
+      : Array.isArray(params.matchOn) ? params.matchOn : [params.matchOn];
+    if (params.columns === undefined || params.columns === 'auto') {
+      return { mappingMode: 'autoMapInputData', value: {}, matchingColumns, schema: [] };
+    }
+
+    const value: Record<string, any> = params.columns;
+    const names = [...new Set([...matchingColumns, ...Object.keys(value)])];
+    return {
+      mappingMode: 'defineBelow',
+      value,
+      matchingColumns,
+      schema: names.map(name => ({
+        id: name,
+        displayName: name,
+        required: false,
+        defaultMatch: false,
+        display: true,
+        type: 'string',
+        canBeUsedToMatch: true
+      })),
+      attemptToConvertTypes: false,
+      convertFieldsToString: false
+    };
+  }
+}
+
+// Operations that only look at the left value
+const UNARY_OPERATIONS = new Set(['exists', 'notExists', 'empty', 'notEmpty', 'true', 'false']);
+
+// If node parameter mapping
+export class IfTemplate implements NodeTemplate {
+  readonly parameters = {
+    condition: 'Condition as a string, e.g. "${fetch.output.count} > 10"',
+    conditions: 'List of { leftValue, operator, rightValue } conditions',
+    leftValue: 'Left side of a single comparison',
+    operator: 'Comparison operator (eq, ne, gt, lt, contains, ...)',
+    rightValue: 'Right side of a single comparison',
+    dataType: 'Type of the compared values (string, number, boolean)',
+    combinator: 'How conditions combine: and (default) or or',
+    caseSensitive: 'Compare strings case-sensitively, default true',
+    typeValidation: 'How strictly compared values must match their type: strict (default) or loose',
+    options: 'Raw n8n options'
+  };
+
+  // Condition ids are numbered from the node id, so each compile gives the same ones
+  private ids = new IdSequence('');
+
+  mapParameters(params: Record<string, any>, nodeId: string = ''): Record<string, any> {
+    return {
+      options: params.options || {},
+      conditions: this.mapConditions(params, new IdSequence(nodeId))
     };
+  }
+
+  /**
+   * n8n's filter for a condition in any of the DSL forms. The Switch node
+   * builds its rules with it, with a sequence of ids for each rule.
+   */
+  mapConditions(params: Record<string, any>, ids: IdSequence): Record<string, any> {
+    this.ids = ids;
 
     // Handle multiple conditions if provided as array
     if (params.conditions && Array.isArray(params.conditions)) {
-      mapped.conditions = {
+      return {
         options: {
           version: 2,
           leftValue: '',
           caseSensitive: params.caseSensitive !== false,
-          typeValidation: 'strict'
+          typeValidation: params.typeValidation || 'strict'
         },
         combinator: params.combinator || 'and',
-        conditions: params.conditions.map((cond: any) => ({
-          id: cond.id || this.generateId(),
-          leftValue: cond.leftValue || cond.left || '',
-          rightValue: cond.rightValue || cond.right || '',
-          operator: {
+        conditions: params.conditions.map((cond: any) => {
+          const operation = this.mapOperation(cond.operator || cond.operation || 'eq');
+          const operator = {
             type: this.getDataType(cond.dataType || this.inferDataType(cond.rightValue || cond.right)),
-            operation: this.mapOperation(cond.operator || cond.operation || 'eq')
-          }
-        }))
+            operation,
+            name: `filter.operator.${operation}`
+          };
+          return {
+            id: cond.id || this.generateId(),
+            leftValue: cond.leftValue || cond.left || '',
+            rightValue: UNARY_OPERATIONS.has(operation) ? '' : cond.rightValue || cond.right || '',
+            operator: UNARY_OPERATIONS.has(operation) ? { ...operator, singleValue: true } : operator
+          };
+        })
       };
-      return mapped;
     }
 
     // Parse single condition string into n8n's condition format
     const condition = params.condition || '';
+
+    // Conditions reading node data arrive already translated, e.g. ={{ $json.score > 5 }}
+    // or ={{ $json.count }} > 100; either way the text is one JavaScript condition
+    if (typeof condition === 'string' && condition.startsWith('=') && condition.includes('{{')) {
+      const expression = condition.slice(1).replace(/\{\{\s*([\s\S]*?)\s*\}\}/g, '$1').trim();
+      const parsedConditions = this.parseExpressionCondition(expression);
+
+      return {
+        options: {
+          version: 2,
+          leftValue: '',
+          caseSensitive: params.caseSensitive !== false,
+          typeValidation: 'loose'
+        },
+        combinator: parsedConditions.combinator,
+        conditions: parsedConditions.conditions
+      };
+    }
     
     // Check if this is a complex JavaScript expression
     if (this.isComplexExpression(condition)) {
       // Parse complex expressions and convert to n8n format
       const parsedConditions = this.parseComplexCondition(condition);
       
-      mapped.conditions = {
+      return {
         options: {
           version: 2,
           leftValue: '',
@@ -167,7 +681,6 @@ export class IfTemplate implements NodeTemplate {
         combinator: parsedConditions.combinator,
         conditions: parsedConditions.conditions
       };
-      return mapped;
     }
     
     // Enhanced condition parsing for simple comparisons
@@ -177,7 +690,7 @@ export class IfTemplate implements NodeTemplate {
     if (match) {
       const [, leftValue, operator, rightValue] = match;
       
-      mapped.conditions = {
+      return {
         options: {
           version: 2,
           leftValue: '',
@@ -198,12 +711,11 @@ export class IfTemplate implements NodeTemplate {
           }
         ]
       };
-      return mapped;
     }
 
     // Handle direct parameter mapping (leftValue, rightValue, operator)
     if (params.leftValue !== undefined || params.rightValue !== undefined) {
-      mapped.conditions = {
+      return {
         options: {
           version: 2,
           leftValue: '',
@@ -223,11 +735,10 @@ export class IfTemplate implements NodeTemplate {
           }
         ]
       };
-      return mapped;
     }
 
     // Fallback for empty conditions (will need to be configured)
-    mapped.conditions = {
+    return {
       options: {
         version: 2,
         leftValue: '',
@@ -247,8 +758,39 @@ export class IfTemplate implements NodeTemplate {
         }
       ]
     };
+  }
 
-    return mapped;
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl = this.unmapConditions(params.conditions);
+    if (dsl && params.options && Object.keys(params.options).length > 0) {
+      dsl.options = params.options;
+    }
+    return dsl;
+  }
+
+  // Inverse of mapConditions, as a list of conditions
+  unmapConditions(conditions: any): Record<string, any> | null {
+    if (!conditions || !Array.isArray(conditions.conditions)) {
+      return null;
+    }
+
+    const dsl: Record<string, any> = {
+      combinator: conditions.combinator,
+      conditions: conditions.conditions.map((cond: any) => ({
+        leftValue: cond.leftValue,
+        // exists, empty, true and the like only have a left side
+        rightValue: cond.operator?.singleValue ? undefined : cond.rightValue,
+        operator: cond.operator?.operation,
+        dataType: cond.operator?.type
+      }))
+    };
+    if (conditions.options?.caseSensitive === false) {
+      dsl.caseSensitive = false;
+    }
+    if (conditions.options?.typeValidation && conditions.options.typeValidation !== 'strict') {
+      dsl.typeValidation = conditions.options.typeValidation;
+    }
+    return dsl;
   }
 
   private mapOperation(op: string): string {
@@ -269,6 +811,13 @@ export class IfTemplate implements NodeTemplate {
       'equal': 'equals',
       'equals': 'equals',
       'notequal': 'notEquals',
+      'notequals': 'notEquals',
+      'exists': 'exists',
+      'notexists': 'notExists',
+      'empty': 'empty',
+      'notempty': 'notEmpty',
+      'true': 'true',
+      'false': 'false',
       'larger': 'gt',
       'smaller': 'lt',
       'largerequal': 'gte',
@@ -327,6 +876,91 @@ export class IfTemplate implements NodeTemplate {
     }
   }
 
+  private parseExpressionCondition(expression: string): { combinator: string, conditions: any[] } {
+    for (const [operator, combinator] of [['||', 'or'], ['&&', 'and']]) {
+      const parts = this.splitTopLevel(expression, operator);
+      if (parts.length > 1 && !parts.some(part => this.splitTopLevel(part, operator === '||' ? '&&' : '||').length > 1)) {
+        return { combinator, conditions: parts.map(part => this.parseExpressionPart(part)) };
+      }
+    }
+    return { combinator: 'and', conditions: [this.parseExpressionPart(expression)] };
+  }
+
+  private parseExpressionPart(part: string): any {
+    // Compare against a literal: $json.score >= 5, $json.status === 'open', $json.email != null
+    const match = part.match(/^(.+?)\s*(===|!==|==|!=|>=|<=|>|<)\s*(-?\d+(?:\.\d+)?|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|true|false|null|undefined)$/);
+    if (match && this.splitTopLevel(match[1], '?').length === 1) {
+      const [, left, operator, literal] = match;
+      const leftValue = `={{ ${left.trim()} }}`;
+
+      if (literal === 'null' || literal === 'undefined') {
+        const operation = operator.startsWith('!') ? 'exists' : 'notExists';
+        return {
+          id: this.generateId(),
+          leftValue,
+          rightValue: '',
+          operator: { type: 'string', operation, name: `filter.operator.${operation}`, singleValue: true }
+        };
+      }
+
+      const rightValue = /^['"]/.test(literal)
+        ? literal.slice(1, -1).replace(/\\(.)/g, '$1')
+        : JSON.parse(literal);
+      const operation = this.mapOperation(operator);
+      return {
+        id: this.generateId(),
+        leftValue,
+        rightValue,
+        operator: { type: this.getDataType(typeof rightValue), operation, name: `filter.operator.${operation}` }
+      };
+    }
+
+    // Anything else is evaluated by n8n and checked for truthiness
+    const bare = part.trim().replace(/^!\s*/, '');
+    const negated = bare !== part.trim();
+    return {
+      id: this.generateId(),
+      leftValue: `={{ ${negated ? bare : part.trim()} }}`,
+      rightValue: '',
+      operator: {
+        type: 'boolean',
+        operation: negated ? 'false' : 'true',
+        name: `filter.operator.${negated ? 'false' : 'true'}`,
+        singleValue: true
+      }
+    };
+  }
+
+  // Split on an operator that isn't nested in brackets or quotes
+  private splitTopLevel(expression: string, operator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < expression.length; i++) {
+      const char = expression[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (depth === 0 && expression.startsWith(operator, i) &&
+                 !(operator === '?' && expression[i + 1] === '.')) {
+        parts.push(expression.slice(start, i).trim());
+        i += operator.length - 1;
+        start = i + 1;
+      }
+    }
+
+    parts.push(expression.slice(start).trim());
+    return parts;
+  }
+
   private parseConditionPart(part: string): any {
     // Parse individual condition parts like:
     // fetchUnread.output.subject.toLowerCase().includes('meet')
@@ -431,25 +1065,411 @@ export class IfTemplate implements NodeTemplate {
   }
 
   private generateId(): string {
-    return Math.random().toString(36).substr(2, 9);
+    return this.ids.next();
   }
 }
 
-// Schedule Trigger parameter mapping
-export class ScheduleTriggerTemplate implements NodeTemplate {
+/**
+ * Switch node parameter mapping (version 3): rules, each with its own output,
+ * or an expression giving the number of the output.
+ */
+export class SwitchTemplate implements NodeTemplate {
+  readonly parameters = {
+    rules: 'Rules in output order, each a flow.if condition ({ condition }, { leftValue, operator, rightValue } or { conditions }); output: "name" names its port',
+    dataProperty: 'Input field that rules written as { value } are compared with',
+    fallback: 'Items matching no rule: true or a name for an extra fallback output, or the number of a rule output (from 1)',
+    allMatching: 'Send items to every matching output, not just the first',
+    caseSensitive: 'Compare strings case-sensitively, default true',
+    output: 'Expression mode: index of the output each item goes to, from 0 as n8n counts',
+    outputs: 'Expression mode: number of outputs, default 4',
+    options: 'Raw n8n options'
+  };
+
+  // Rule conditions take the same forms as the If node's
+  private conditions = new IfTemplate();
+
+  mapParameters(params: Record<string, any>, nodeId: string = ''): Record<string, any> {
+    if (params.mode === 'expression' || (params.mode === undefined && params.output !== undefined && params.rules === undefined)) {
+      const mapped: Record<string, any> = { mode: 'expression' };
+      if (params.outputs !== undefined) {
+        mapped.numberOutputs = params.outputs;
+      }
+      mapped.output = params.output ?? '';
+      mapped.options = { ...params.options };
+      return mapped;
+    }
+
+    const rules = (Array.isArray(params.rules) ? params.rules : []).map((rule: Record<string, any>, index: number) => {
+      const { output, value, ...condition } = rule;
+      const compared = value !== undefined && params.dataProperty !== undefined
+        ? this.valueCondition(params.dataProperty, value)
+        : condition;
+      const mapped: Record<string, any> = {
+        conditions: this.conditions.mapConditions(
+          { caseSensitive: params.caseSensitive, ...compared },
+          new IdSequence(`${nodeId}/rules/${index}`)
+        )
+      };
+      if (typeof output === 'string' && output !== '') {
+        mapped.renameOutput = true;
+        mapped.outputKey = output;
+      }
+      return mapped;
+    });
+
+    const options: Record<string, any> = { ...params.options };
+    if (params.fallback === true || typeof params.fallback === 'string') {
+      options.fallbackOutput = 'extra';
+      if (typeof params.fallback === 'string') {
+        options.renameFallbackOutput = params.fallback;
+      }
+    } else if (typeof params.fallback === 'number') {
+      // Rule outputs are numbered from 1, like output1...; n8n counts from 0
+      options.fallbackOutput = params.fallback - 1;
+    }
+    if (params.allMatching !== undefined) {
+      options.allMatchingOutputs = params.allMatching;
+    }
+
+    return { rules: { values: rules }, options };
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    if (params.mode === 'expression') {
+      const dsl: Record<string, any> = { output: params.output };
+      if (params.numberOutputs !== undefined) {
+        dsl.outputs = params.numberOutputs;
+      }
+      if (params.options && Object.keys(params.options).length > 0) {
+        dsl.options = params.options;
+      }
+      return dsl;
+    }
+
+    const values = params.rules?.values;
+    if ((params.mode !== undefined && params.mode !== 'rules') || !Array.isArray(values)) {
+      return null;
+    }
+    const rules: Array<Record<string, any>> = [];
+    for (const rule of values) {
+      const conditions = this.conditions.unmapConditions(rule.conditions);
+      if (!conditions) {
+        return null;
+      }
+      if (rule.renameOutput && rule.outputKey) {
+        conditions.output = rule.outputKey;
+      }
+      rules.push(conditions);
+    }
+
+    const dsl: Record<string, any> = { rules };
+    const { fallbackOutput, renameFallbackOutput, allMatchingOutputs, ...options } = params.options || {};
+    if (fallbackOutput === 'extra') {
+      dsl.fallback = renameFallbackOutput ?? true;
+    } else if (typeof fallbackOutput === 'number') {
+      dsl.fallback = fallbackOutput + 1;
+    } else if (fallbackOutput !== undefined) {
+      options.fallbackOutput = fallbackOutput;
+    }
+    if (allMatchingOutputs !== undefined) {
+      dsl.allMatching = allMatchingOutputs;
+    }
+    if (Object.keys(options).length > 0) {
+      dsl.options = options;
+    }
+    return dsl;
+  }
+
+  // A { value } rule: the item's dataProperty field equals the value
+  private valueCondition(property: string, value: any): Record<string, any> {
+    const accessor = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(property)
+      ? `$json.${property}`
+      : `$json[${JSON.stringify(property)}]`;
+    return { leftValue: `={{ ${accessor} }}`, operator: 'equals', rightValue: value };
+  }
+}
+
+// Field names as n8n's comma separated lists
+function fieldList(fields: any): string {
+  return Array.isArray(fields) ? fields.join(', ') : String(fields ?? '');
+}
+
+// Inverse of fieldList, for lists of more than one field
+function unfieldList(fields: string): string | string[] {
+  const names = fields.split(',').map(name => name.trim()).filter(name => name !== '');
+  return names.length === 1 ? names[0] : names;
+}
+
+// Split Out: which other fields each new item keeps
+const SPLIT_OUT_INCLUDE: Record<string, string> = {
+  none: 'noOtherFields',
+  all: 'allOtherFields'
+};
+
+// Split Out node parameter mapping
+export class SplitOutTemplate implements NodeTemplate {
+  readonly parameters = {
+    field: 'Field holding the list to turn into items; several fields (a list) are split side by side',
+    include: 'Other fields each item keeps: "none" (default), "all", or a list of field names',
+    as: 'Field each item holds its entry in; defaults to the split field',
+    binary: 'Copy the binary data of the input item to each item'
+  };
+
   mapParameters(params: Record<string, any>): Record<string, any> {
-    // Handle cron expressions
-    if (params.cron || params.cronExpression) {
-      const cronExpression = params.cron || params.cronExpression;
-      return this.parseCronExpression(cronExpression);
+    const mapped: Record<string, any> = { fieldToSplitOut: fieldList(params.field ?? params.fieldToSplitOut) };
+    if (Array.isArray(params.include)) {
+      mapped.include = 'selectedOtherFields';
+      mapped.fieldsToInclude = fieldList(params.include);
+    } else if (params.include !== undefined && params.include !== 'none') {
+      mapped.include = SPLIT_OUT_INCLUDE[params.include] ?? params.include;
     }
-    
-    const triggerInterval = params.triggerInterval || params.interval || 'minutes';
-    
-    // Handle predefined intervals using rule format
-    switch (triggerInterval) {
-      case 'seconds':
-        return {
+
+    const options: Record<string, any> = {};
+    if (params.as !== undefined) options.destinationFieldName = params.as;
+    if (params.binary !== undefined) options.includeBinary = params.binary;
+    mapped.options = options;
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl: Record<string, any> = { field: unfieldList(params.fieldToSplitOut ?? '') };
+    if (params.include === 'selectedOtherFields') {
+      const fields = unfieldList(params.fieldsToInclude ?? '');
+      dsl.include = Array.isArray(fields) ? fields : [fields];
+    } else if (params.include !== undefined) {
+      dsl.include = dslName(SPLIT_OUT_INCLUDE, params.include) ?? params.include;
+    }
+
+    const { destinationFieldName, includeBinary, ...rest } = params.options || {};
+    if (Object.keys(rest).length > 0) return null;
+    if (destinationFieldName !== undefined) dsl.as = destinationFieldName;
+    if (includeBinary !== undefined) dsl.binary = includeBinary;
+    return dsl;
+  }
+}
+
+// Aggregate node parameter mapping
+export class AggregateTemplate implements NodeTemplate {
+  readonly parameters = {
+    fields: 'Fields to collect into one list each: names, or { field, as } to name the list',
+    all: 'Collect whole items into one list instead, in this field; true for "data"',
+    include: 'With all: only these fields of each item',
+    exclude: 'With all: every field but these',
+    mergeLists: 'Flatten lists found in the fields into one list (fields)',
+    keepMissing: 'Keep null entries for items without the field (fields)',
+    binary: 'Also collect the items\' binary data'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mapped: Record<string, any> = {};
+    const options: Record<string, any> = {};
+
+    if (params.all !== undefined && params.all !== false) {
+      mapped.aggregate = 'aggregateAllItemData';
+      if (typeof params.all === 'string' && params.all !== 'data') {
+        mapped.destinationFieldName = params.all;
+      }
+      if (params.include !== undefined) {
+        mapped.include = 'specifiedFields';
+        mapped.fieldsToInclude = fieldList(params.include);
+      } else if (params.exclude !== undefined) {
+        mapped.include = 'allFieldsExcept';
+        mapped.fieldsToExclude = fieldList(params.exclude);
+      }
+    } else {
+      const fields = Array.isArray(params.fields) ? params.fields : params.fields === undefined ? [] : [params.fields];
+      mapped.fieldsToAggregate = {
+        fieldToAggregate: fields.map((field: any) => {
+          if (typeof field !== 'object' || field === null) {
+            return { fieldToAggregate: String(field) };
+          }
+          const entry: Record<string, any> = { fieldToAggregate: field.field ?? '' };
+          if (field.as !== undefined) {
+            entry.renameField = true;
+            entry.outputFieldName = field.as;
+          }
+          return entry;
+        })
+      };
+      if (params.mergeLists !== undefined) options.mergeLists = params.mergeLists;
+      if (params.keepMissing !== undefined) options.keepMissing = params.keepMissing;
+    }
+
+    if (params.binary !== undefined) options.includeBinaries = params.binary;
+    mapped.options = options;
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl: Record<string, any> = {};
+    const { includeBinaries, mergeLists, keepMissing, ...rest } = params.options || {};
+    if (Object.keys(rest).length > 0) return null;
+
+    if (params.aggregate === 'aggregateAllItemData') {
+      dsl.all = params.destinationFieldName ?? true;
+      if (params.include === 'specifiedFields') {
+        dsl.include = unfieldList(params.fieldsToInclude ?? '');
+      } else if (params.include === 'allFieldsExcept') {
+        dsl.exclude = unfieldList(params.fieldsToExclude ?? '');
+      }
+    } else {
+      dsl.fields = (params.fieldsToAggregate?.fieldToAggregate || []).map((entry: any) =>
+        entry.renameField ? { field: entry.fieldToAggregate, as: entry.outputFieldName } : entry.fieldToAggregate
+      );
+      if (mergeLists !== undefined) dsl.mergeLists = mergeLists;
+      if (keepMissing !== undefined) dsl.keepMissing = keepMissing;
+    }
+
+    if (includeBinaries !== undefined) dsl.binary = includeBinaries;
+    return dsl;
+  }
+}
+
+/**
+ * Loop Over Items (Split in Batches) parameter mapping. Each run sends the
+ * next batch to the `loop` output; once every item has been through, all of
+ * them go to `done`.
+ */
+export class SplitInBatchesTemplate implements NodeTemplate {
+  readonly parameters = {
+    batchSize: 'Items per batch, default 1',
+    reset: 'Treat the incoming items as a new set each time the node runs'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mapped: Record<string, any> = {};
+    if (params.batchSize !== undefined && params.batchSize !== 1) {
+      mapped.batchSize = params.batchSize;
+    }
+    mapped.options = params.reset !== undefined ? { reset: params.reset } : {};
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const { reset, ...rest } = params.options || {};
+    if (Object.keys(rest).length > 0) return null;
+    const dsl: Record<string, any> = {};
+    if (params.batchSize !== undefined) dsl.batchSize = params.batchSize;
+    if (reset !== undefined) dsl.reset = reset;
+    return dsl;
+  }
+}
+
+// Merge DSL modes: n8n mode, and for combine the way items are paired
+const MERGE_MODES: Record<string, [string, string?]> = {
+  append: ['append'],
+  combine: ['combine', 'combineByFields'],
+  position: ['combine', 'combineByPosition'],
+  allCombinations: ['combine', 'combineAll'],
+  choose: ['chooseBranch'],
+  chooseBranch: ['chooseBranch']
+};
+
+// Which items a combine by fields outputs; n8n's names are accepted too
+const MERGE_JOINS: Record<string, string> = {
+  matches: 'keepMatches',
+  nonMatches: 'keepNonMatches',
+  everything: 'keepEverything',
+  enrichInput1: 'enrichInput1',
+  enrichInput2: 'enrichInput2',
+  keepMatches: 'keepMatches',
+  keepNonMatches: 'keepNonMatches',
+  keepEverything: 'keepEverything'
+};
+
+// Merge node parameter mapping
+export class MergeTemplate implements NodeTemplate {
+  readonly parameters = {
+    mode: 'append (default), combine, position, allCombinations or choose; combine when on is set',
+    on: 'Fields matching items of the two inputs (combine): a name, a list, or { input1Field: "input2Field" }',
+    join: 'Items a combine outputs: matches (default), nonMatches, everything, enrichInput1 or enrichInput2',
+    from: 'With matches or nonMatches: items from both inputs (default), input1 or input2',
+    includeUnpaired: 'Keep items without a partner at the same position (position)',
+    input: 'Input whose items are output, counting from 1 (choose)',
+    inputs: 'Number of inputs, default 2 (append, choose)',
+    options: 'Other n8n options, as an object'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mode = params.mode ?? (params.on !== undefined ? 'combine' : 'append');
+    const [n8nMode, combineBy] = MERGE_MODES[mode] ?? [mode];
+    const mapped: Record<string, any> = {};
+    if (n8nMode !== 'append') mapped.mode = n8nMode;
+    if (combineBy !== undefined && combineBy !== 'combineByFields') mapped.combineBy = combineBy;
+
+    const options: Record<string, any> = { ...params.options };
+    if (combineBy === 'combineByFields') {
+      if (params.on !== null && typeof params.on === 'object' && !Array.isArray(params.on)) {
+        mapped.advanced = true;
+        mapped.mergeByFields = {
+          values: Object.entries(params.on).map(([field1, field2]) => ({ field1, field2 }))
+        };
+      } else {
+        mapped.fieldsToMatchString = fieldList(params.on);
+      }
+      const joinMode = MERGE_JOINS[params.join] ?? params.join;
+      if (joinMode !== undefined && joinMode !== 'keepMatches') mapped.joinMode = joinMode;
+      if (params.from !== undefined && params.from !== 'both') mapped.outputDataFrom = params.from;
+    } else if (combineBy === 'combineByPosition' && params.includeUnpaired !== undefined) {
+      options.includeUnpaired = params.includeUnpaired;
+    } else if (n8nMode === 'chooseBranch' && params.input !== undefined && params.input !== 1) {
+      mapped.useDataOfInput = params.input;
+    }
+    if (params.inputs !== undefined && params.inputs !== 2) {
+      mapped.numberInputs = params.inputs;
+    }
+    mapped.options = options;
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const n8nMode = params.mode ?? 'append';
+    const combineBy = n8nMode === 'combine' ? params.combineBy ?? 'combineByFields' : undefined;
+    const mode = Object.keys(MERGE_MODES)
+      .find(name => MERGE_MODES[name][0] === n8nMode && MERGE_MODES[name][1] === combineBy);
+    if (!mode) return null;
+
+    const dsl: Record<string, any> = {};
+    if (mode !== 'append') dsl.mode = mode;
+    const { includeUnpaired, ...options } = params.options || {};
+    if (combineBy === 'combineByFields') {
+      dsl.on = params.advanced
+        ? Object.fromEntries((params.mergeByFields?.values || []).map((pair: any) => [pair.field1, pair.field2]))
+        : unfieldList(params.fieldsToMatchString ?? '');
+      if (params.joinMode !== undefined) dsl.join = dslName(MERGE_JOINS, params.joinMode) ?? params.joinMode;
+      if (params.outputDataFrom !== undefined) dsl.from = params.outputDataFrom;
+    }
+    if (includeUnpaired !== undefined) {
+      if (combineBy !== 'combineByPosition') return null;
+      dsl.includeUnpaired = includeUnpaired;
+    }
+    if (params.useDataOfInput !== undefined) dsl.input = params.useDataOfInput;
+    if (params.numberInputs !== undefined) dsl.inputs = params.numberInputs;
+    if (Object.keys(options).length > 0) dsl.options = options;
+    return dsl;
+  }
+}
+
+// Schedule Trigger parameter mapping
+export class ScheduleTriggerTemplate implements NodeTemplate {
+  readonly parameters = {
+    cron: 'Cron expression, e.g. "0 9 * * 1-5"',
+    interval: 'Fixed interval: seconds, minutes (default), hours or days'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    // Handle cron expressions
+    if (params.cron || params.cronExpression) {
+      const cronExpression = params.cron || params.cronExpression;
+      return this.parseCronExpression(cronExpression);
+    }
+    
+    const triggerInterval = params.triggerInterval || params.interval || 'minutes';
+    
+    // Handle predefined intervals using rule format
+    switch (triggerInterval) {
+      case 'seconds':
+        return {
           rule: {
             interval: [
               {
@@ -502,6 +1522,18 @@ export class ScheduleTriggerTemplate implements NodeTemplate {
     }
   }
 
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    if (params.triggerInterval === 'custom' && params.expression) {
+      return { cron: params.expression };
+    }
+
+    const interval = params.rule?.interval;
+    if (Array.isArray(interval) && interval.length === 1 && interval[0].field) {
+      return { interval: interval[0].field };
+    }
+    return null;
+  }
+
   private parseCronExpression(cronExpression: string): Record<string, any> {
     const parts = cronExpression.trim().split(/\s+/);
     
@@ -632,8 +1664,419 @@ export class ScheduleTriggerTemplate implements NodeTemplate {
   }
 }
 
+// Webhook authentication methods, by DSL name; n8n's names are accepted too
+const WEBHOOK_AUTHENTICATION: Record<string, string> = {
+  none: 'none',
+  basic: 'basicAuth',
+  header: 'headerAuth',
+  jwt: 'jwtAuth',
+  basicAuth: 'basicAuth',
+  headerAuth: 'headerAuth',
+  jwtAuth: 'jwtAuth'
+};
+
+// The webhook checks callers against the credential, so its type decides the method
+const WEBHOOK_CREDENTIAL_AUTHENTICATION: Record<string, string> = {
+  httpBasicAuth: 'basicAuth',
+  httpHeaderAuth: 'headerAuth',
+  jwtAuth: 'jwtAuth'
+};
+
+// When the webhook answers the caller
+const WEBHOOK_RESPONSE_MODES: Record<string, string> = {
+  immediately: 'onReceived',
+  lastNode: 'lastNode',
+  responseNode: 'responseNode',
+  onReceived: 'onReceived'
+};
+
+// n8n paths have no leading or trailing slash: "/leads/process/" is "leads/process"
+function normalisePath(path: any): any {
+  if (typeof path !== 'string' || path.startsWith('=')) {
+    return path;
+  }
+  return path.trim().replace(/\/{2,}/g, '/').replace(/^\/|\/$/g, '');
+}
+
+// What a lastNode response contains
+const WEBHOOK_RESPONSE_DATA: Record<string, string> = {
+  firstItem: 'firstEntryJson',
+  allItems: 'allEntries',
+  firstBinary: 'firstEntryBinary',
+  noData: 'noData',
+  firstEntryJson: 'firstEntryJson',
+  allEntries: 'allEntries',
+  firstEntryBinary: 'firstEntryBinary'
+};
+
+// Webhook trigger parameter mapping. Parameters at n8n's defaults are left
+// out, as in workflows exported from the editor.
+export class WebhookTemplate implements NodeTemplate {
+  readonly parameters = {
+    path: 'URL path after /webhook/, e.g. "leads/process"; defaults to the webhook id',
+    method: 'HTTP method: GET (default), POST, PUT, PATCH, DELETE or HEAD',
+    authentication: 'none (default), basic, header or jwt; the credential holds the user, header or key',
+    responseMode: 'When to answer: immediately (default), lastNode, or responseNode for a flow.respond node',
+    responseCode: 'HTTP status of the response, default 200 (immediately and lastNode)',
+    responseData: 'What a lastNode response contains: firstItem (default), allItems, firstBinary or noData',
+    binary: 'Store a binary request body: true, or the binary property name (default "data")',
+    rawBody: 'Keep the raw request body',
+    responseHeaders: 'Headers sent with the response, as an object',
+    allowedOrigins: 'Origins allowed to call the webhook (CORS), comma separated',
+    ipWhitelist: 'IP addresses allowed to call the webhook, comma separated',
+    ignoreBots: 'Ignore requests from bots and link previewers'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mapped: Record<string, any> = {};
+
+    const method = String(params.method ?? params.httpMethod ?? 'GET').toUpperCase();
+    if (method !== 'GET') {
+      mapped.httpMethod = method;
+    }
+    mapped.path = normalisePath(params.path ?? '');
+
+    const authentication = WEBHOOK_AUTHENTICATION[params.authentication] ?? params.authentication;
+    if (authentication !== undefined && authentication !== 'none') {
+      mapped.authentication = authentication;
+    }
+
+    const responseMode = WEBHOOK_RESPONSE_MODES[params.responseMode] ?? params.responseMode;
+    if (responseMode !== undefined && responseMode !== 'onReceived') {
+      mapped.responseMode = responseMode;
+    }
+    if (params.responseCode !== undefined) {
+      mapped.responseCode = params.responseCode;
+    }
+    if (params.responseData !== undefined) {
+      mapped.responseData = WEBHOOK_RESPONSE_DATA[params.responseData] ?? params.responseData;
+    }
+
+    const options: Record<string, any> = {};
+    if (params.binary) {
+      options.binaryPropertyName = typeof params.binary === 'string' ? params.binary : 'data';
+    }
+    if (params.rawBody !== undefined) {
+      options.rawBody = params.rawBody;
+    }
+    if (params.allowedOrigins !== undefined) {
+      options.allowedOrigins = Array.isArray(params.allowedOrigins) ? params.allowedOrigins.join(',') : params.allowedOrigins;
+    }
+    if (params.ipWhitelist !== undefined) {
+      options.ipWhitelist = Array.isArray(params.ipWhitelist) ? params.ipWhitelist.join(',') : params.ipWhitelist;
+    }
+    if (params.ignoreBots !== undefined) {
+      options.ignoreBots = params.ignoreBots;
+    }
+    if (params.responseHeaders && typeof params.responseHeaders === 'object') {
+      options.responseHeaders = { entries: objectToPairs(params.responseHeaders) };
+    }
+    mapped.options = options;
+
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    if (params.multipleMethods || typeof params.path !== 'string') {
+      return null;
+    }
+
+    const dsl: Record<string, any> = { path: params.path };
+    if (params.httpMethod !== undefined) {
+      dsl.method = params.httpMethod;
+    }
+    if (params.authentication !== undefined) {
+      dsl.authentication = dslName(WEBHOOK_AUTHENTICATION, params.authentication) ?? params.authentication;
+    }
+    if (params.responseMode !== undefined) {
+      dsl.responseMode = dslName(WEBHOOK_RESPONSE_MODES, params.responseMode) ?? params.responseMode;
+    }
+    if (params.responseCode !== undefined) {
+      dsl.responseCode = params.responseCode;
+    }
+    if (params.responseData !== undefined) {
+      dsl.responseData = dslName(WEBHOOK_RESPONSE_DATA, params.responseData) ?? params.responseData;
+    }
+
+    const options = params.options || {};
+    if (options.binaryPropertyName !== undefined) {
+      dsl.binary = options.binaryPropertyName === 'data' ? true : options.binaryPropertyName;
+    }
+    for (const key of ['rawBody', 'allowedOrigins', 'ipWhitelist', 'ignoreBots']) {
+      if (options[key] !== undefined) {
+        dsl[key] = options[key];
+      }
+    }
+    if (options.responseHeaders?.entries) {
+      dsl.responseHeaders = pairsToObject(options.responseHeaders.entries);
+    }
+    return dsl;
+  }
+
+  credentialParameters(credentialType: string): Record<string, any> {
+    const authentication = WEBHOOK_CREDENTIAL_AUTHENTICATION[credentialType];
+    return authentication ? { authentication } : {};
+  }
+}
+
+// Respond to Webhook answers, by DSL name; n8n's names are accepted too
+const RESPOND_WITH: Record<string, string> = {
+  firstItem: 'firstIncomingItem',
+  allItems: 'allIncomingItems',
+  json: 'json',
+  text: 'text',
+  binary: 'binary',
+  redirect: 'redirect',
+  noData: 'noData',
+  firstIncomingItem: 'firstIncomingItem',
+  allIncomingItems: 'allIncomingItems'
+};
+
+// Respond to Webhook parameter mapping, for webhooks with responseMode: "responseNode"
+export class RespondToWebhookTemplate implements NodeTemplate {
+  readonly parameters = {
+    respondWith: 'firstItem (default), allItems, json, text, binary, redirect or noData; json or text when body is set',
+    body: 'Response body: an object is sent as JSON, a string as text',
+    redirectUrl: 'Where a redirect sends the caller',
+    binaryField: 'Binary property sent with respondWith: "binary" (default: the first one)',
+    statusCode: 'HTTP status code, default 200',
+    headers: 'Response headers, as an object'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mapped: Record<string, any> = {};
+
+    const respondWith = params.respondWith !== undefined
+      ? RESPOND_WITH[params.respondWith] ?? params.respondWith
+      : params.body === undefined ? 'firstIncomingItem' : typeof params.body === 'string' ? 'text' : 'json';
+    if (respondWith !== 'firstIncomingItem') {
+      mapped.respondWith = respondWith;
+    }
+
+    if (params.body !== undefined) {
+      mapped.responseBody = respondWith === 'json' ? this.jsonBody(params.body) : String(params.body);
+    }
+    if (params.redirectUrl !== undefined) {
+      mapped.redirectURL = params.redirectUrl;
+    }
+    if (params.binaryField !== undefined) {
+      mapped.responseDataSource = 'set';
+      mapped.inputFieldName = params.binaryField;
+    }
+
+    const options: Record<string, any> = {};
+    if (params.statusCode !== undefined) {
+      options.responseCode = params.statusCode;
+    }
+    if (params.headers && typeof params.headers === 'object') {
+      options.responseHeaders = { entries: objectToPairs(params.headers) };
+    }
+    mapped.options = options;
+
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const respondWith = params.respondWith ?? 'firstIncomingItem';
+    const name = dslName(RESPOND_WITH, respondWith);
+    if (!name) {
+      return null;
+    }
+
+    const dsl: Record<string, any> = {};
+    if (params.respondWith !== undefined) {
+      dsl.respondWith = name;
+    }
+    if (params.responseBody !== undefined) {
+      dsl.body = respondWith === 'json' ? this.parseJsonBody(params.responseBody) : params.responseBody;
+    }
+    if (params.redirectURL !== undefined) {
+      dsl.redirectUrl = params.redirectURL;
+    }
+    if (params.responseDataSource === 'set') {
+      dsl.binaryField = params.inputFieldName;
+    }
+
+    const options = params.options || {};
+    if (options.responseCode !== undefined) {
+      dsl.statusCode = options.responseCode;
+    }
+    if (options.responseHeaders?.entries) {
+      dsl.headers = pairsToObject(options.responseHeaders.entries);
+    }
+    return dsl;
+  }
+
+  /**
+   * An object body as JSON text. Values that are n8n expressions can't be
+   * written into JSON text, so such a body becomes one expression building
+   * the object.
+   */
+  private jsonBody(body: any): string {
+    if (typeof body === 'string') {
+      return body;
+    }
+
+    const expressions: string[] = [];
+    const json = JSON.stringify(body, (key, value) => {
+      if (isN8nExpression(value)) {
+        expressions.push(toJsLiteral(value));
+        return `\u0000${expressions.length - 1}`;
+      }
+      return value;
+    });
+    if (expressions.length === 0) {
+      return JSON.stringify(body, null, 2);
+    }
+    return `={{ ${json.replace(/"\\u0000(\d+)"/g, (match, index) => expressions[Number(index)])} }}`;
+  }
+
+  // JSON text the editor would have written as an object; anything else stays text
+  private parseJsonBody(text: any): any {
+    if (typeof text !== 'string' || isN8nExpression(text)) {
+      return text;
+    }
+    try {
+      const value = JSON.parse(text);
+      return value !== null && typeof value === 'object' && JSON.stringify(value, null, 2) === text ? value : text;
+    } catch {
+      return text;
+    }
+  }
+}
+
+// Form Trigger node parameter mapping
+export class FormTriggerTemplate implements NodeTemplate {
+  readonly parameters = {
+    title: 'Form title, shown at the top of the form',
+    description: 'Text under the title',
+    fields: 'Form fields, e.g. [text "Name" required, email "Email", dropdown "Plan" ["free", "pro"]]',
+    path: 'URL path after /form/; defaults to the webhook id',
+    buttonLabel: 'Label of the submit button, default "Submit"',
+    attribution: 'Show the "Form automated with n8n" note, default true',
+    responseMode: 'When the form is answered: immediately (default), lastNode, or responseNode for a flow.respond node',
+    submittedText: 'Text shown after submitting (immediately)',
+    redirectUrl: 'Page to open after submitting, instead of the text (immediately)',
+    ignoreBots: 'Ignore submissions from bots and link previewers'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mapped: Record<string, any> = {
+      formTitle: params.title ?? ''
+    };
+    if (params.description !== undefined) {
+      mapped.formDescription = params.description;
+    }
+    mapped.formFields = {
+      values: (Array.isArray(params.fields) ? params.fields : []).map(field => this.mapField(field))
+    };
+
+    const responseMode = WEBHOOK_RESPONSE_MODES[params.responseMode] ?? params.responseMode;
+    if (responseMode !== undefined && responseMode !== 'onReceived') {
+      mapped.responseMode = responseMode;
+    }
+
+    const options: Record<string, any> = {};
+    if (params.path !== undefined) {
+      options.path = normalisePath(params.path);
+    }
+    if (params.buttonLabel !== undefined) {
+      options.buttonLabel = params.buttonLabel;
+    }
+    if (params.attribution !== undefined) {
+      options.appendAttribution = params.attribution;
+    }
+    if (params.redirectUrl !== undefined) {
+      options.respondWithOptions = { values: { respondWith: 'redirect', redirectUrl: params.redirectUrl } };
+    } else if (params.submittedText !== undefined) {
+      options.respondWithOptions = { values: { formSubmittedText: params.submittedText } };
+    }
+    if (params.ignoreBots !== undefined) {
+      options.ignoreBots = params.ignoreBots;
+    }
+    mapped.options = options;
+
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const fields = (params.formFields?.values || []).map((field: any) => this.unmapField(field));
+    if (fields.includes(null)) {
+      return null;
+    }
+
+    const dsl: Record<string, any> = { title: params.formTitle };
+    if (params.formDescription !== undefined) dsl.description = params.formDescription;
+    dsl.fields = fields;
+    if (params.responseMode !== undefined) {
+      dsl.responseMode = dslName(WEBHOOK_RESPONSE_MODES, params.responseMode) ?? params.responseMode;
+    }
+
+    const { path, buttonLabel, appendAttribution, respondWithOptions, ignoreBots, ...rest } = params.options || {};
+    if (Object.keys(rest).length > 0) {
+      return null;
+    }
+    if (path !== undefined) dsl.path = path;
+    if (buttonLabel !== undefined) dsl.buttonLabel = buttonLabel;
+    if (appendAttribution !== undefined) dsl.attribution = appendAttribution;
+    const respondWith = respondWithOptions?.values;
+    if (respondWith?.respondWith === 'redirect') {
+      dsl.redirectUrl = respondWith.redirectUrl;
+    } else if (respondWith?.formSubmittedText !== undefined) {
+      dsl.submittedText = respondWith.formSubmittedText;
+    }
+    if (ignoreBots !== undefined) dsl.ignoreBots = ignoreBots;
+
+    return dsl;
+  }
+
+  // A field object ({ type, label, required, placeholder, options, multiple }), or a label for a text field
+  private mapField(field: any): Record<string, any> {
+    if (typeof field !== 'object' || field === null) {
+      return { fieldLabel: String(field) };
+    }
+
+    const mapped: Record<string, any> = { fieldLabel: field.label ?? '' };
+    if (field.type !== undefined && field.type !== 'text') {
+      mapped.fieldType = field.type;
+    }
+    if (field.placeholder !== undefined) {
+      mapped.placeholder = field.placeholder;
+    }
+    if (Array.isArray(field.options)) {
+      mapped.fieldOptions = { values: field.options.map((option: any) => ({ option: String(option) })) };
+    }
+    if (field.multiple) {
+      mapped[field.type === 'file' ? 'multipleFiles' : 'multiselect'] = true;
+    }
+    if (field.required) {
+      mapped.requiredField = true;
+    }
+    return mapped;
+  }
+
+  private unmapField(field: Record<string, any>): Record<string, any> | null {
+    const { fieldLabel, fieldType, placeholder, fieldOptions, multiselect, multipleFiles, requiredField, ...rest } = field;
+    if (Object.keys(rest).length > 0) {
+      return null;
+    }
+
+    const dsl: Record<string, any> = { type: fieldType ?? 'text', label: fieldLabel };
+    if (requiredField) dsl.required = true;
+    if (placeholder !== undefined) dsl.placeholder = placeholder;
+    if (fieldOptions !== undefined) dsl.options = (fieldOptions.values || []).map((value: any) => value.option);
+    if (multiselect || multipleFiles) dsl.multiple = true;
+    return dsl;
+  }
+}
+
 // Code node parameter mapping
 export class CodeTemplate implements NodeTemplate {
+  readonly parameters = {
+    code: 'JavaScript to run',
+    mode: 'runOnceForAllItems (default) or runOnceForEachItem'
+  };
+
   mapParameters(params: Record<string, any>): Record<string, any> {
     const mode = params.mode || 'runOnceForAllItems';
     const mapped: Record<string, any> = {
@@ -648,23 +2091,34 @@ export class CodeTemplate implements NodeTemplate {
       mapped.mode = 'runOnceForAllItems';
     }
     
-    // Handle additional options
-    if (params.onError) {
-      mapped.onError = params.onError; // 'stopWorkflow' or 'continueRegularOutput' or 'continueErrorOutput'
-    }
-    
-    // Handle continue on fail
-    if (params.continueOnFail !== undefined) {
-      mapped.continueOnFail = Boolean(params.continueOnFail);
-    }
-    
     return mapped;
   }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl: Record<string, any> = { code: params.jsCode };
+    if (params.mode && params.mode !== 'runOnceForAllItems') dsl.mode = params.mode;
+    return dsl;
+  }
 }
 
 // Edit Fields (Set) node parameter mapping
 export class SetTemplate implements NodeTemplate {
-  mapParameters(params: Record<string, any>): Record<string, any> {
+  readonly parameters = {
+    assignments: 'Fields to set, as an object of name: value',
+    fields: 'Alias for assignments',
+    mode: 'manual (default) or expression',
+    expression: 'JSON object to output, in expression mode',
+    duplicateItem: 'Duplicate each item',
+    includeOtherFields: 'Keep input fields not being set, default true',
+    dotNotation: 'Treat dots in names as nested paths',
+    ignoreConversionErrors: 'Ignore type conversion errors'
+  };
+
+  // Assignment ids follow from the node id and the field name
+  private ids = new IdSequence('');
+
+  mapParameters(params: Record<string, any>, nodeId: string = ''): Record<string, any> {
+    this.ids = new IdSequence(nodeId);
     const mode = params.mode || 'manual';
     const mapped: Record<string, any> = {
       mode,
@@ -679,7 +2133,7 @@ export class SetTemplate implements NodeTemplate {
       if (params.assignments && Array.isArray(params.assignments)) {
         // Direct assignments array
         assignments.push(...params.assignments.map((assignment: any) => ({
-          id: assignment.id || this.generateId(),
+          id: assignment.id || this.generateId(assignment.name || assignment.field || ''),
           name: assignment.name || assignment.field || '',
           value: assignment.value,
           type: assignment.type || this.getValueType(assignment.value)
@@ -688,7 +2142,7 @@ export class SetTemplate implements NodeTemplate {
         // Object format assignments
         for (const [key, value] of Object.entries(params.assignments)) {
           assignments.push({
-            id: this.generateId(),
+            id: this.generateId(key),
             name: key,
             value: value,
             type: this.getValueType(value)
@@ -698,7 +2152,7 @@ export class SetTemplate implements NodeTemplate {
         // Alternative fields format
         for (const [key, value] of Object.entries(params.fields)) {
           assignments.push({
-            id: this.generateId(),
+            id: this.generateId(key),
             name: key,
             value: value,
             type: this.getValueType(value)
@@ -726,6 +2180,31 @@ export class SetTemplate implements NodeTemplate {
     return mapped;
   }
 
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl: Record<string, any> = {};
+
+    if (params.mode === 'expression') {
+      dsl.mode = 'expression';
+      dsl.expression = params.expression;
+    } else {
+      const assignments = params.assignments?.assignments || [];
+      dsl.assignments = {};
+      for (const assignment of assignments) {
+        if (assignment.name in dsl.assignments) {
+          return null;
+        }
+        dsl.assignments[assignment.name] = assignment.value;
+      }
+    }
+
+    if (params.duplicateItem) dsl.duplicateItem = true;
+    if (params.includeOtherFields === false) dsl.includeOtherFields = false;
+    for (const [key, value] of Object.entries(params.options || {})) {
+      dsl[key] = value;
+    }
+    return dsl;
+  }
+
   private getValueType(value: any): string {
     if (typeof value === 'number') return 'number';
     if (typeof value === 'boolean') return 'boolean';
@@ -735,27 +2214,222 @@ export class SetTemplate implements NodeTemplate {
     return 'string';
   }
 
-  private generateId(): string {
-    return Math.random().toString(36).substr(2, 9);
+  private generateId(name: string): string {
+    return this.ids.next(name);
   }
 }
 
 // Manual Trigger - no special parameters needed
 export class ManualTriggerTemplate implements NodeTemplate {
+  readonly parameters = {};
+
   mapParameters(params: Record<string, any>): Record<string, any> {
     return {};
   }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    return {};
+  }
+}
+
+// LangChain agent and chain prompts. Without a prompt they read chatInput,
+// as sent by the chat trigger. hasOutputParser is set by the generator when a
+// parser is connected.
+function mapPrompt(params: Record<string, any>): Record<string, any> {
+  return params.prompt !== undefined ? { promptType: 'define', text: params.prompt } : {};
+}
+
+function unmapPrompt(params: Record<string, any>): Record<string, any> | null {
+  if (params.promptType === 'define') {
+    return { prompt: params.text };
+  }
+  return params.promptType === undefined || params.promptType === 'auto' ? {} : null;
+}
+
+// AI Agent node parameter mapping
+export class AgentTemplate implements NodeTemplate {
+  readonly parameters = {
+    prompt: 'Prompt for the agent; defaults to the chat message (chatInput)',
+    systemMessage: 'System message describing how the agent behaves',
+    maxIterations: 'Most tool calls before the agent stops (n8n default 10)',
+    returnIntermediateSteps: 'Include the tool calls in the output'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const options: Record<string, any> = {};
+    for (const key of ['systemMessage', 'maxIterations', 'returnIntermediateSteps']) {
+      if (params[key] !== undefined) {
+        options[key] = params[key];
+      }
+    }
+    return { ...mapPrompt(params), options };
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl = unmapPrompt(params);
+    return dsl && { ...dsl, ...(params.options || {}) };
+  }
+}
+
+// Basic LLM Chain node parameter mapping
+export class ChainTemplate implements NodeTemplate {
+  readonly parameters = {
+    prompt: 'Prompt for the model; defaults to the chat message (chatInput)'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    return mapPrompt(params);
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    return unmapPrompt(params);
+  }
+}
+
+// Chat model sub-nodes. Newer versions pick the model with a resource locator.
+export class ChatModelTemplate implements NodeTemplate {
+  readonly parameters = {
+    model: 'Model name (or Azure deployment name)',
+    temperature: 'Sampling temperature',
+    maxTokens: 'Most tokens to generate'
+  };
+
+  constructor(private modelLocator: boolean, private maxTokensOption: string = 'maxTokens') {}
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mapped: Record<string, any> = {};
+    if (params.model !== undefined) {
+      mapped.model = this.modelLocator ? { __rl: true, mode: 'list', value: params.model } : params.model;
+    }
+
+    const options: Record<string, any> = {};
+    if (params.temperature !== undefined) {
+      options.temperature = params.temperature;
+    }
+    if (params.maxTokens !== undefined) {
+      options[this.maxTokensOption] = params.maxTokens;
+    }
+    mapped.options = options;
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl: Record<string, any> = {};
+    if (params.model !== undefined) {
+      dsl.model = this.modelLocator ? params.model?.value : params.model;
+    }
+    const { temperature, [this.maxTokensOption]: maxTokens } = params.options || {};
+    if (temperature !== undefined) dsl.temperature = temperature;
+    if (maxTokens !== undefined) dsl.maxTokens = maxTokens;
+    return dsl;
+  }
+}
+
+// Window Buffer Memory sub-node parameter mapping
+export class MemoryTemplate implements NodeTemplate {
+  readonly parameters = {
+    sessionKey: 'Key that identifies the conversation; defaults to the chat session',
+    contextWindowLength: 'Past messages the model sees (n8n default 5)'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    const mapped: Record<string, any> = {};
+    if (params.sessionKey !== undefined) {
+      mapped.sessionIdType = 'customKey';
+      mapped.sessionKey = params.sessionKey;
+    }
+    if (params.contextWindowLength !== undefined) {
+      mapped.contextWindowLength = params.contextWindowLength;
+    }
+    return mapped;
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    const dsl: Record<string, any> = {};
+    if (params.sessionIdType === 'customKey') dsl.sessionKey = params.sessionKey;
+    if (params.contextWindowLength !== undefined) dsl.contextWindowLength = params.contextWindowLength;
+    return dsl;
+  }
+}
+
+// Code Tool sub-node parameter mapping
+export class CodeToolTemplate implements NodeTemplate {
+  readonly parameters = {
+    name: 'Tool name the model calls it by',
+    description: 'What the tool does, for the model',
+    code: 'JavaScript that returns a string; the input is in `query`'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    return {
+      name: params.name || '',
+      description: params.description || '',
+      jsCode: params.code || ''
+    };
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    return { name: params.name, description: params.description, code: params.jsCode };
+  }
+}
+
+// Structured Output Parser sub-node parameter mapping
+export class OutputParserTemplate implements NodeTemplate {
+  readonly parameters = {
+    schema: 'JSON Schema of the output, as an object',
+    example: 'Example output, as an object; the schema is derived from it'
+  };
+
+  mapParameters(params: Record<string, any>): Record<string, any> {
+    if (params.schema !== undefined) {
+      return { schemaType: 'manual', inputSchema: this.stringify(params.schema) };
+    }
+    return { jsonSchemaExample: this.stringify(params.example ?? {}) };
+  }
+
+  unmapParameters(params: Record<string, any>): Record<string, any> | null {
+    try {
+      if (params.schemaType === 'manual') {
+        return { schema: JSON.parse(params.inputSchema) };
+      }
+      return params.schemaType === undefined ? { example: JSON.parse(params.jsonSchemaExample) } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private stringify(value: any): string {
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  }
 }
 
 // Node template registry
 export const NODE_TEMPLATES: Record<string, NodeTemplate> = {
   'n8n-nodes-base.httpRequest': new HttpRequestTemplate(),
   'n8n-nodes-base.gmail': new GmailTemplate(),
+  'n8n-nodes-base.slack': new SlackTemplate(),
+  'n8n-nodes-base.googleSheets': new GoogleSheetsTemplate(),
   'n8n-nodes-base.if': new IfTemplate(),
+  'n8n-nodes-base.switch': new SwitchTemplate(),
+  'n8n-nodes-base.splitOut': new SplitOutTemplate(),
+  'n8n-nodes-base.aggregate': new AggregateTemplate(),
+  'n8n-nodes-base.splitInBatches': new SplitInBatchesTemplate(),
+  'n8n-nodes-base.merge': new MergeTemplate(),
   'n8n-nodes-base.scheduleTrigger': new ScheduleTriggerTemplate(),
+  'n8n-nodes-base.webhook': new WebhookTemplate(),
+  'n8n-nodes-base.respondToWebhook': new RespondToWebhookTemplate(),
+  'n8n-nodes-base.formTrigger': new FormTriggerTemplate(),
   'n8n-nodes-base.code': new CodeTemplate(),
   'n8n-nodes-base.set': new SetTemplate(),
   'n8n-nodes-base.manualTrigger': new ManualTriggerTemplate(),
+  '@n8n/n8n-nodes-langchain.agent': new AgentTemplate(),
+  '@n8n/n8n-nodes-langchain.chainLlm': new ChainTemplate(),
+  '@n8n/n8n-nodes-langchain.lmChatOpenAi': new ChatModelTemplate(true),
+  '@n8n/n8n-nodes-langchain.lmChatAnthropic': new ChatModelTemplate(true, 'maxTokensToSample'),
+  '@n8n/n8n-nodes-langchain.lmChatAzureOpenAi': new ChatModelTemplate(false),
+  '@n8n/n8n-nodes-langchain.memoryBufferWindow': new MemoryTemplate(),
+  '@n8n/n8n-nodes-langchain.toolCode': new CodeToolTemplate(),
+  '@n8n/n8n-nodes-langchain.outputParserStructured': new OutputParserTemplate(),
 };
 
 export function getNodeTemplate(nodeType: string): NodeTemplate | null {
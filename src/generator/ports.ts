@@ -0,0 +1,182 @@
+/**
+ * Input and output ports of n8n node types, as used by `connect a.port -> b.port`
+ */
+
+import { N8nNode, ConnectionType, isTriggerNode, isLangChainNode } from '../types/n8n';
+import { DEFAULT_TYPE_VERSIONS } from '../types/dsl';
+
+export interface Port {
+  type: ConnectionType;
+  index: number;
+}
+
+export interface PortList {
+  names: Record<string, Port>; // Named ports, besides main and the numbered ones
+  count: number;               // Numbered ports (output1... / input1...), all of type main
+}
+
+export interface NodePorts {
+  inputs: PortList;
+  outputs: PortList;
+  required?: ConnectionType[]; // Sub-node inputs that must be connected
+}
+
+const NONE: PortList = { names: {}, count: 0 };
+const ONE: PortList = { names: {}, count: 1 };
+
+function named(...names: string[]): PortList {
+  return {
+    names: Object.fromEntries(names.map((name, index) => [name, { type: 'main' as ConnectionType, index }])),
+    count: names.length
+  };
+}
+
+// LangChain sub-nodes plug into a root node through an input of their own type
+const SUB_NODE_PORTS: Record<string, ConnectionType> = {
+  languageModel: 'ai_languageModel',
+  memory: 'ai_memory',
+  tool: 'ai_tool',
+  outputParser: 'ai_outputParser'
+};
+
+function subNodePorts(...names: string[]): Record<string, Port> {
+  return Object.fromEntries(names.map(name => [name, { type: SUB_NODE_PORTS[name], index: 0 }]));
+}
+
+// The sub-node kind of a LangChain node, from its type name (lmChatOpenAi, memoryBufferWindow, ...)
+function subNodeKind(type: string): string | undefined {
+  const name = type.slice(type.lastIndexOf('.') + 1);
+  if (/^lm[A-Z]/.test(name)) return 'languageModel';
+  if (/^memory[A-Z]/.test(name)) return 'memory';
+  if (/^tool[A-Z]/.test(name)) return 'tool';
+  if (/^outputParser[A-Z]/.test(name)) return 'outputParser';
+  return undefined;
+}
+
+/**
+ * Switch outputs. Version 3 has one output per rule (named by the rule's
+ * outputKey when renameOutput is set) plus an optional `fallback` output, also
+ * named by renameFallbackOutput, or numberOutputs in expression mode.
+ * Version 1 always has four.
+ */
+function switchOutputs(node: N8nNode): PortList {
+  const params = node.parameters || {};
+  if (node.typeVersion < 3) {
+    const names: Record<string, Port> = {};
+    if (typeof params.fallbackOutput === 'number' && params.fallbackOutput >= 0) {
+      names.fallback = { type: 'main', index: params.fallbackOutput };
+    }
+    return { names, count: 4 };
+  }
+
+  if (params.mode === 'expression') {
+    return { names: {}, count: typeof params.numberOutputs === 'number' ? params.numberOutputs : 4 };
+  }
+
+  const rules: any[] = params.rules?.values || [];
+  const names: Record<string, Port> = {};
+  rules.forEach((rule, index) => {
+    if (rule.renameOutput && typeof rule.outputKey === 'string' && rule.outputKey !== '') {
+      names[rule.outputKey] = { type: 'main', index };
+    }
+  });
+  let count = rules.length;
+  if (params.options?.fallbackOutput === 'extra') {
+    names.fallback = { type: 'main', index: count };
+    const renamed = params.options.renameFallbackOutput;
+    if (typeof renamed === 'string' && renamed !== '' && !(renamed in names)) {
+      names[renamed] = names.fallback;
+    }
+    count++;
+  }
+  return { names, count };
+}
+
+const PORT_DEFINITIONS: Record<string, (node: N8nNode) => NodePorts> = {
+  'n8n-nodes-base.if': () => ({ inputs: ONE, outputs: named('true', 'false') }),
+  'n8n-nodes-base.switch': node => ({ inputs: ONE, outputs: switchOutputs(node) }),
+  // Version 3 added the done output; before, the node had just one
+  'n8n-nodes-base.splitInBatches': node => ({ inputs: ONE, outputs: node.typeVersion >= 3 ? named('done', 'loop') : ONE }),
+  'n8n-nodes-base.merge': node => ({
+    inputs: { names: {}, count: node.typeVersion >= 3 ? (node.parameters?.numberInputs ?? 2) : 2 },
+    outputs: ONE
+  }),
+  'n8n-nodes-base.stickyNote': () => ({ inputs: NONE, outputs: NONE }),
+  '@n8n/n8n-nodes-langchain.agent': () => ({
+    inputs: { names: subNodePorts('languageModel', 'memory', 'tool', 'outputParser'), count: 1 },
+    outputs: ONE,
+    required: ['ai_languageModel']
+  }),
+  '@n8n/n8n-nodes-langchain.chainLlm': () => ({
+    inputs: { names: subNodePorts('languageModel', 'outputParser'), count: 1 },
+    outputs: ONE,
+    required: ['ai_languageModel']
+  })
+};
+
+/**
+ * Ports of a generated node. The error output is added after the regular
+ * outputs when the node's onError setting is continueErrorOutput.
+ */
+export function getNodePorts(node: N8nNode): NodePorts {
+  const definition = PORT_DEFINITIONS[node.type];
+  const kind = isLangChainNode(node.type) ? subNodeKind(node.type) : undefined;
+  const ports: NodePorts = definition
+    ? definition(node)
+    : kind
+      ? { inputs: NONE, outputs: { names: subNodePorts(kind), count: 0 } }
+      : { inputs: isTriggerNode(node.type) ? NONE : ONE, outputs: ONE };
+
+  if (node.onError === 'continueErrorOutput') {
+    const { names, count } = ports.outputs;
+    ports.outputs = { names: { ...names, error: { type: 'main', index: count } }, count: count + 1 };
+  }
+  return ports;
+}
+
+/**
+ * Ports of a node type before its parameters are known, as the validator and
+ * the language server see it. Switch rule names need the generated node.
+ */
+export function getTypePorts(type: string, onError?: unknown): NodePorts {
+  return getNodePorts({
+    id: '',
+    name: '',
+    type,
+    typeVersion: DEFAULT_TYPE_VERSIONS[type] || 1,
+    position: [0, 0],
+    parameters: {},
+    onError: onError === 'continueErrorOutput' ? onError : undefined
+  });
+}
+
+/**
+ * Look up a port by name: `main` is the first port, `output1`... and
+ * `input1`... pick one by number, counting from 1 like the merge's "Input 1",
+ * anything else must be a named port.
+ */
+export function findPort(ports: PortList, name: string, direction: 'output' | 'input'): Port | undefined {
+  if (Object.prototype.hasOwnProperty.call(ports.names, name)) {
+    return ports.names[name];
+  }
+  if (name === 'main') {
+    return ports.count > 0 ? { type: 'main', index: 0 } : undefined;
+  }
+  const numbered = new RegExp(`^${direction}(\\d+)$`).exec(name);
+  const index = numbered ? Number(numbered[1]) - 1 : -1;
+  if (index >= 0 && index < ports.count) {
+    return { type: 'main', index };
+  }
+  return undefined;
+}
+
+// The name of a numbered port, as findPort reads it
+export function numberedPortName(index: number, direction: 'output' | 'input'): string {
+  return `${direction}${index + 1}`;
+}
+
+// Every name findPort accepts, for error messages and completions
+export function portNames(ports: PortList, direction: 'output' | 'input'): string[] {
+  const numbered = Array.from({ length: ports.count }, (_, index) => numberedPortName(index, direction));
+  return [...(ports.count > 0 ? ['main'] : []), ...Object.keys(ports.names), ...numbered];
+}
@@ -7,6 +7,11 @@ export { Parser, ParseError } from './parser/parser';
 export { Lexer, Token, TokenType } from './parser/lexer';
 export { Generator as N8nGenerator, GeneratorOptions } from './generator/generator';
 export { Validator, ValidationError } from './utils/validation';
+export { readParamsFile, parseParamAssignments } from './utils/params';
+export { LockFile, readLockFile, createLockFile, writeLockFile, lockFilePath } from './utils/lockFile';
+export { Decompiler, decompile } from './decompiler/decompiler';
+export { LanguageService } from './lsp/languageService';
+export { LanguageServer } from './lsp/server';
 
 // Type exports
 export * from './types/dsl';
@@ -14,9 +19,15 @@ export * from './types/n8n';
 
 // Re-export the Compiler class for the convenience function
 import { Compiler, CompilerOptions } from './compiler';
+import { decompile } from './decompiler/decompiler';
 
 // Main convenience function
 export function compileDslToN8n(dslCode: string, options?: CompilerOptions): string {
   const compiler = new Compiler(options);
   return compiler.compileToJson(dslCode);
-}
\ No newline at end of file
+}
+
+// Convert n8n workflow JSON (as exported from the editor) to DSL source
+export function decompileN8nToDsl(workflowJson: string): string {
+  return decompile(JSON.parse(workflowJson));
+}
@@ -0,0 +1,701 @@
+/**
+ * Editor features for DSL documents: diagnostics, completion, go-to-definition,
+ * hover and rename. Independent of the transport; see server.ts for the LSP wiring.
+ */
+
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Lexer, Token, TokenType } from '../parser/lexer';
+import { Parser, ParseError } from '../parser/parser';
+import { Compiler } from '../compiler';
+import { ModuleLoader } from '../generator/moduleLoader';
+import { getNodeTemplate } from '../generator/nodeTemplates';
+import { getTypePorts, portNames } from '../generator/ports';
+import { BUILTIN_FUNCTIONS, EDITOR_BUILTINS, RUNTIME_BUILTINS } from '../generator/builtins';
+import { forEachIdentifier } from '../generator/expressionTranslator';
+import { Formatter, isPlainIdentifier } from '../formatter/formatter';
+import { ValidationError, formFieldNames } from '../utils/validation';
+import {
+  DSL_TO_N8N_NODE_TYPES, NODE_SETTINGS, isNodeSetting, Expression, ModuleDefinition, CredentialDeclaration,
+  ParameterDeclaration, VariableDeclaration, EnvironmentDeclaration, NodeDeclaration, ModuleDeclaration,
+  ConnectionDeclaration, OutputDeclaration
+} from '../types/dsl';
+import {
+  Position, Range, Location, Diagnostic, DiagnosticSeverity, CompletionItem,
+  CompletionItemKind, Hover, WorkspaceEdit
+} from '../types/lsp';
+
+type SymbolKind = 'param' | 'var' | 'credential' | 'node' | 'module';
+
+type Statement = ParameterDeclaration | VariableDeclaration | CredentialDeclaration | NodeDeclaration | ModuleDeclaration;
+
+interface Declaration {
+  kind: SymbolKind;
+  name: string;
+  line: number;   // Position of the name, one-based
+  column: number;
+  statement: Statement;
+}
+
+// A name as written in the source: where it's declared, in a connect or output, or in an expression
+interface Occurrence {
+  line: number;
+  column: number;
+  declaration: Declaration;
+}
+
+interface Body {
+  parameters: ParameterDeclaration[];
+  variables: VariableDeclaration[];
+  environments?: EnvironmentDeclaration[];
+  credentials: CredentialDeclaration[];
+  nodes: (NodeDeclaration | ModuleDeclaration)[];
+  connections: ConnectionDeclaration[];
+  outputs?: OutputDeclaration[];
+}
+
+interface Analysis {
+  tokens: Token[];
+  body?: Body; // Unset if the document doesn't parse
+  declarations: Map<string, Declaration>;
+  occurrences: Occurrence[];
+}
+
+// Innermost `{ }` block: a node or module body, or anything else
+type Block =
+  | { kind: 'node'; name: string; nodeType: string }
+  | { kind: 'module'; name: string; modulePath: string }
+  | { kind: 'other' };
+
+const DECLARATION_KEYWORDS: Partial<Record<TokenType, SymbolKind>> = {
+  [TokenType.PARAM]: 'param',
+  [TokenType.VAR]: 'var',
+  [TokenType.NODE]: 'node',
+  [TokenType.MODULE]: 'module'
+};
+
+// Lexer errors are plain Errors with the position in the message
+const LEXER_ERROR = /(?:Unexpected character|Unterminated (?:multi-line )?string).* at line (\d+), column (\d+)/;
+
+export class LanguageService {
+  // Last body that parsed, per document, so completion keeps working while typing
+  private lastBodies: Map<string, Body> = new Map();
+  private formatter = new Formatter();
+
+  getDiagnostics(uri: string, text: string): Diagnostic[] {
+    const lines = text.split('\n');
+
+    if (!this.isWorkflow(text)) {
+      try {
+        new Parser(text).parseModuleDefinition();
+        return [];
+      } catch (error) {
+        return [this.toDiagnostic(this.errorLocation(error), lines)];
+      }
+    }
+
+    // Parse, validate and generate, without reading the environment or files
+    const result = new Compiler({
+      sourcePath: this.toPath(uri),
+      allowMissingParams: true,
+      builtins: EDITOR_BUILTINS
+    }).compile(text);
+    return [...result.errors, ...result.warnings].map(error => {
+      if (error.line === undefined) {
+        const match = LEXER_ERROR.exec(error.message);
+        if (match) {
+          return this.toDiagnostic({ ...error, line: Number(match[1]), column: Number(match[2]) }, lines);
+        }
+      }
+      return this.toDiagnostic(error, lines);
+    });
+  }
+
+  getCompletions(uri: string, text: string, position: Position): CompletionItem[] {
+    const prefix = (text.split('\n')[position.line] || '').slice(0, position.character);
+    const analysis = this.analyze(uri, text);
+    const body = analysis.body || this.lastBodies.get(uri);
+    let match: RegExpExecArray | null;
+
+    // node fetch "http.req|
+    if ((match = /\bnode\s+[A-Za-z_]\w*\s+"([^"]*)$/.exec(prefix))) {
+      const range = this.toRange(position.line + 1, position.character + 1 - match[1].length, match[1].length);
+      return Object.entries(DSL_TO_N8N_NODE_TYPES).map(([type, n8nType]) => ({
+        label: type,
+        kind: CompletionItemKind.Class,
+        detail: n8nType,
+        documentation: { kind: 'markdown', value: this.describeNodeType(type) },
+        textEdit: { range, newText: type }
+      }));
+    }
+
+    if (!body) {
+      return [];
+    }
+
+    // "Hello ${na|" and "${fetch.|"
+    const interpolation = /\$\{([^}]*)$/.exec(prefix);
+    if (interpolation && this.isInString(prefix.slice(0, interpolation.index))) {
+      // "${form.output.|": the form's fields
+      if ((match = /([A-Za-z_]\w*)\.output\.\w*$/.exec(interpolation[1]))) {
+        const node = body.nodes.find(candidate => candidate.name === match![1]);
+        return ((node && formFieldNames(node)) ?? []).filter(isPlainIdentifier).map(field => ({
+          label: field,
+          kind: CompletionItemKind.Field,
+          detail: `Field of form ${match![1]}`
+        }));
+      }
+      if ((match = /([A-Za-z_]\w*)\.\w*$/.exec(interpolation[1]))) {
+        const declared = body.nodes.some(node => node.name === match![1]);
+        return declared ? [{ label: 'output', kind: CompletionItemKind.Field, detail: `Output data of ${match[1]}` }] : [];
+      }
+      return this.nameCompletions(body);
+    }
+    if (this.isInString(prefix)) {
+      return [];
+    }
+
+    // connect fetch.| and -> merge.|, also in lists: connect [a, b.| and -> [c.|
+    const inConnect = /^\s*connect\b|->/.test(prefix);
+    if (inConnect && (match = /(connect|->|\[|,)\s*([A-Za-z_]\w*)\.\w*$/.exec(prefix))) {
+      const direction = prefix.slice(0, match.index).includes('->') || match[1] === '->' ? 'input' : 'output';
+      return this.ports(body, match[2], direction, this.toPath(uri)).map(port => ({
+        label: port,
+        kind: CompletionItemKind.EnumMember,
+        detail: `${direction} of ${match![2]}`
+      }));
+    }
+
+    // connect | and -> |, and in lists
+    if (inConnect && /(connect|->|\[|,)\s*\w*$/.test(prefix)) {
+      return this.nameCompletions({ ...body, parameters: [], variables: [] });
+    }
+
+    // Keys inside a node or module body
+    const block = this.blockAtLine(text, position.line);
+    if (/^\s*\w*$/.test(prefix) && (block.kind === 'node' || block.kind === 'module')) {
+      return this.keyCompletions(block, body, this.toPath(uri));
+    }
+
+    // Values: after `key:`, `=`, an operator or an opening bracket
+    if (/[:=(,+\-*/%?&|!<>[]\s*\w*$/.test(prefix)) {
+      return [
+        ...this.nameCompletions(body),
+        ...[...Object.keys(BUILTIN_FUNCTIONS), ...RUNTIME_BUILTINS].map(name => ({
+          label: name,
+          kind: CompletionItemKind.Function,
+          detail: `${name}()`
+        }))
+      ];
+    }
+
+    return [];
+  }
+
+  getDefinition(uri: string, text: string, position: Position): Location | null {
+    const analysis = this.analyze(uri, text);
+
+    const modulePath = this.modulePathAt(analysis.tokens, position);
+    if (modulePath !== null) {
+      const resolved = new ModuleLoader().resolvePath(modulePath, this.toPath(uri));
+      return { uri: pathToFileURL(resolved).href, range: this.toRange(1, 1, 0) };
+    }
+
+    const occurrence = this.occurrenceAt(analysis, position);
+    if (!occurrence) {
+      return null;
+    }
+    const { declaration } = occurrence;
+    return { uri, range: this.toRange(declaration.line, declaration.column, declaration.name.length) };
+  }
+
+  getHover(uri: string, text: string, position: Position): Hover | null {
+    const analysis = this.analyze(uri, text);
+
+    const occurrence = this.occurrenceAt(analysis, position);
+    if (occurrence) {
+      return {
+        contents: { kind: 'markdown', value: this.describeDeclaration(occurrence.declaration, uri) },
+        range: this.toRange(occurrence.line, occurrence.column, occurrence.declaration.name.length)
+      };
+    }
+
+    const index = analysis.tokens.findIndex(token => this.tokenContains(token, position));
+    if (index < 0) {
+      return null;
+    }
+    const token = analysis.tokens[index];
+    const range = this.tokenRange(token);
+
+    // The type string of a node declaration
+    if (token.type === TokenType.STRING && analysis.tokens[index - 2]?.type === TokenType.NODE) {
+      return { contents: { kind: 'markdown', value: this.describeNodeType(token.value) }, range };
+    }
+
+    // A parameter name in a node body
+    if (analysis.tokens[index + 1]?.type === TokenType.COLON) {
+      const block = this.enclosingBlock(analysis.tokens, index);
+      if (block.kind === 'node') {
+        const description = token.type === TokenType.IDENTIFIER && isNodeSetting(token.value)
+          ? NODE_SETTINGS[token.value].description
+          : getNodeTemplate(DSL_TO_N8N_NODE_TYPES[block.nodeType])?.parameters?.[token.value];
+        if (description) {
+          return { contents: { kind: 'markdown', value: `\`${token.value}\`: ${description}` }, range };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  prepareRename(uri: string, text: string, position: Position): Range | null {
+    const occurrence = this.occurrenceAt(this.analyze(uri, text), position);
+    if (!occurrence) {
+      return null;
+    }
+    return this.toRange(occurrence.line, occurrence.column, occurrence.declaration.name.length);
+  }
+
+  /**
+   * Rename a node, module, param or var at its declaration and every reference:
+   * connects, module outputs and expressions, including `${}` interpolations.
+   */
+  rename(uri: string, text: string, position: Position, newName: string): WorkspaceEdit | null {
+    const analysis = this.analyze(uri, text);
+    const occurrence = this.occurrenceAt(analysis, position);
+    if (!occurrence) {
+      return null;
+    }
+
+    if (!isPlainIdentifier(newName)) {
+      throw new Error(`'${newName}' is not a valid name`);
+    }
+    if (newName !== occurrence.declaration.name && analysis.declarations.has(newName)) {
+      throw new Error(`'${newName}' is already declared`);
+    }
+
+    const edits = analysis.occurrences
+      .filter(other => other.declaration === occurrence.declaration)
+      .map(other => ({
+        range: this.toRange(other.line, other.column, other.declaration.name.length),
+        newText: newName
+      }));
+    return { changes: { [uri]: edits } };
+  }
+
+  forget(uri: string): void {
+    this.lastBodies.delete(uri);
+  }
+
+  private analyze(uri: string, text: string): Analysis {
+    const analysis: Analysis = { tokens: [], declarations: new Map(), occurrences: [] };
+
+    try {
+      analysis.tokens = new Lexer(text).tokenize()
+        .filter(token => token.type !== TokenType.COMMENT && token.type !== TokenType.NEWLINE);
+      const parser = new Parser(text);
+      analysis.body = this.isWorkflow(text) ? parser.parse().workflow : parser.parseModuleDefinition();
+    } catch {
+      return analysis;
+    }
+
+    this.lastBodies.set(uri, analysis.body);
+    this.indexSymbols(analysis, analysis.body);
+    return analysis;
+  }
+
+  private indexSymbols(analysis: Analysis, body: Body): void {
+    const { tokens, declarations, occurrences } = analysis;
+    const statements: Record<SymbolKind, Statement[]> = {
+      param: body.parameters,
+      var: body.variables,
+      credential: body.credentials,
+      node: body.nodes.filter(node => node.type === 'NodeDeclaration'),
+      module: body.nodes.filter(node => node.type === 'ModuleDeclaration')
+    };
+
+    const reference = (name: string, line: number, column: number) => {
+      const declaration = declarations.get(name);
+      const seen = occurrences.some(occurrence => occurrence.line === line && occurrence.column === column);
+      if (declaration && !seen) {
+        occurrences.push({ line, column, declaration });
+      }
+    };
+
+    // Declarations are found in the tokens, which have the position of the name
+    tokens.forEach((token, index) => {
+      // credential isn't a keyword, so it's only a declaration when the statement parsed as one
+      const kind = token.type === TokenType.IDENTIFIER && token.value === 'credential'
+        ? 'credential'
+        : DECLARATION_KEYWORDS[token.type];
+      const name = tokens[index + 1];
+      if (!kind || name?.type !== TokenType.IDENTIFIER || this.isPropertyName(tokens, index)) {
+        return;
+      }
+      const statement = statements[kind].find(candidate => candidate.name === name.value);
+      if (statement && !declarations.has(name.value)) {
+        const declaration = { kind, name: name.value, line: name.line, column: name.column, statement };
+        declarations.set(name.value, declaration);
+        occurrences.push({ line: name.line, column: name.column, declaration });
+      }
+    });
+
+    // Nodes declared in flow blocks have no keyword; their position is the name's
+    for (const node of body.nodes) {
+      if (node.type === 'NodeDeclaration' && node.flow && !declarations.has(node.name) &&
+          node.line !== undefined && node.column !== undefined) {
+        const declaration = { kind: 'node' as SymbolKind, name: node.name, line: node.line, column: node.column, statement: node };
+        declarations.set(node.name, declaration);
+        occurrences.push({ line: node.line, column: node.column, declaration });
+      }
+    }
+
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1];
+      if (token.type !== TokenType.IDENTIFIER || !previous) {
+        return;
+      }
+      // output name = node.output
+      if (previous.type === TokenType.EQUALS && tokens[index - 3]?.value === 'output' &&
+          tokens[index - 3].type === TokenType.IDENTIFIER && !this.isPropertyName(tokens, index - 3)) {
+        reference(token.value, token.line, token.column);
+      }
+    });
+
+    // connect a -> [b, c]; a statement's endpoints are shared by its connections
+    for (const connection of body.connections) {
+      for (const endpoint of [connection.source, connection.target]) {
+        if (endpoint.line !== undefined && endpoint.column !== undefined) {
+          reference(endpoint.node, endpoint.line, endpoint.column);
+        }
+      }
+    }
+
+    const visit = (expr: Expression | undefined) => {
+      if (!expr) return;
+      forEachIdentifier(expr, new Set(), (name, isLocal, identifier) => {
+        if (!isLocal && identifier.line !== undefined && identifier.column !== undefined) {
+          reference(name, identifier.line, identifier.column);
+        }
+      });
+    };
+    body.parameters.forEach(param => visit(param.defaultValue));
+    body.variables.forEach(variable => visit(variable.value));
+    body.credentials.forEach(credential => Object.values(credential.fields).forEach(visit));
+    // environment "prod" { apiUrl = ... } names the param or var it sets
+    for (const environment of body.environments || []) {
+      for (const [name, value] of Object.entries(environment.overrides)) {
+        const at = environment.keyPositions[name];
+        reference(name, at.line, at.column);
+        visit(value);
+      }
+    }
+    body.nodes.forEach(node => {
+      Object.values(node.parameters).forEach(visit);
+      if (node.type === 'NodeDeclaration') Object.values(node.settings).forEach(visit);
+    });
+  }
+
+  private occurrenceAt(analysis: Analysis, position: Position): Occurrence | null {
+    const line = position.line + 1;
+    const column = position.character + 1;
+    return analysis.occurrences.find(occurrence =>
+      occurrence.line === line &&
+      occurrence.column <= column && column <= occurrence.column + occurrence.declaration.name.length
+    ) || null;
+  }
+
+  // The path of `module name = ./path.n8n` when the position is on it
+  private modulePathAt(tokens: Token[], position: Position): string | null {
+    const index = tokens.findIndex(token => this.tokenContains(token, position));
+    const token = tokens[index];
+    if (!token || (token.type !== TokenType.PATH && token.type !== TokenType.STRING)) {
+      return null;
+    }
+    const isModulePath = tokens[index - 1]?.type === TokenType.EQUALS &&
+      tokens[index - 3]?.type === TokenType.MODULE;
+    return isModulePath ? token.value : null;
+  }
+
+  private blockAtLine(text: string, line: number): Block {
+    // Only the lines before the cursor are lexed; the current one is usually incomplete
+    const before = text.split('\n').slice(0, line).join('\n');
+    try {
+      const tokens = new Lexer(before).tokenize()
+        .filter(token => token.type !== TokenType.COMMENT && token.type !== TokenType.NEWLINE);
+      return this.enclosingBlock(tokens, tokens.length);
+    } catch {
+      return { kind: 'other' };
+    }
+  }
+
+  // Innermost block still open before tokens[end]
+  private enclosingBlock(tokens: Token[], end: number): Block {
+    const stack: Block[] = [];
+
+    for (let index = 0; index < end; index++) {
+      const type = tokens[index].type;
+      if (type === TokenType.RBRACE) {
+        stack.pop();
+      } else if (type === TokenType.LBRACE) {
+        const before = (offset: number) => tokens[index - offset];
+        // node name "type" {, or name "type" { in a flow block
+        if (before(2)?.type === TokenType.IDENTIFIER && before(1).type === TokenType.STRING) {
+          stack.push({ kind: 'node', name: before(2).value, nodeType: before(1).value });
+        // module name = ./path.n8n {
+        } else if (before(4)?.type === TokenType.MODULE && before(2).type === TokenType.EQUALS) {
+          stack.push({ kind: 'module', name: before(3).value, modulePath: before(1).value });
+        } else {
+          stack.push({ kind: 'other' });
+        }
+      }
+    }
+
+    return stack[stack.length - 1] || { kind: 'other' };
+  }
+
+  private keyCompletions(block: Block, body: Body, fromFile?: string): CompletionItem[] {
+    const declared = body.nodes.find(node => block.kind !== 'other' && node.name === block.name);
+    const existing = new Set(Object.keys(declared?.parameters || {}));
+
+    if (block.kind === 'node') {
+      const parameters = getNodeTemplate(DSL_TO_N8N_NODE_TYPES[block.nodeType])?.parameters || {};
+      if (declared?.type === 'NodeDeclaration') {
+        Object.keys(declared.settings).forEach(key => existing.add(key));
+      }
+      const keys = [
+        ...Object.entries(parameters).map(([key, description]) => ({ key, description, kind: CompletionItemKind.Property })),
+        ...Object.entries(NODE_SETTINGS).map(([key, setting]) => ({ key, description: setting.description, kind: CompletionItemKind.Field }))
+      ];
+      return keys
+        .filter(({ key }) => !existing.has(key))
+        .map(({ key, description, kind }) => ({
+          label: key,
+          kind,
+          documentation: { kind: 'markdown', value: description }
+        }));
+    }
+
+    if (block.kind === 'module') {
+      const definition = this.loadModule(block.modulePath, fromFile);
+      return (definition?.parameters || [])
+        .filter(param => !existing.has(param.name))
+        .map(param => ({
+          label: param.name,
+          kind: CompletionItemKind.Property,
+          detail: this.formatParameter(param)
+        }));
+    }
+
+    return [];
+  }
+
+  private nameCompletions(body: Body): CompletionItem[] {
+    return [
+      ...body.parameters.map(param => ({
+        label: param.name,
+        kind: CompletionItemKind.Constant,
+        detail: this.formatParameter(param)
+      })),
+      ...body.variables.map(variable => ({
+        label: variable.name,
+        kind: CompletionItemKind.Variable,
+        detail: 'var'
+      })),
+      ...body.credentials.map(credential => ({
+        label: credential.name,
+        kind: CompletionItemKind.Value,
+        detail: `credential ${credential.credentialType}`
+      })),
+      ...body.nodes.map(node => ({
+        label: node.name,
+        kind: node.type === 'NodeDeclaration' ? CompletionItemKind.Class : CompletionItemKind.Module,
+        detail: node.type === 'NodeDeclaration' ? node.nodeType : node.modulePath
+      }))
+    ];
+  }
+
+  // Port names usable in `connect name.<port>` (outputs) and `-> name.<port>` (inputs)
+  private ports(body: Body, name: string, direction: 'output' | 'input', fromFile?: string): string[] {
+    const node = body.nodes.find(candidate => candidate.name === name);
+    if (!node) {
+      return [];
+    }
+
+    if (node.type === 'ModuleDeclaration') {
+      if (direction === 'input') {
+        return ['main'];
+      }
+      const definition = this.loadModule(node.modulePath, fromFile);
+      return ['main', ...(definition?.outputs || []).map(output => output.name)];
+    }
+
+    const type = DSL_TO_N8N_NODE_TYPES[node.nodeType] || node.nodeType;
+    const onError = node.settings.onError?.type === 'LiteralExpression' ? node.settings.onError.value : undefined;
+    const ports = getTypePorts(type, onError);
+    const names = portNames(direction === 'output' ? ports.outputs : ports.inputs, direction);
+
+    // Switch rules name their outputs in the parameters, which the type's ports don't know
+    const rules = node.parameters.rules;
+    if (direction === 'output' && node.nodeType === 'flow.switch' && rules?.type === 'ArrayExpression') {
+      for (const rule of rules.elements) {
+        const output = rule.type === 'ObjectExpression' ? rule.properties.output : undefined;
+        if (output?.type === 'LiteralExpression' && typeof output.value === 'string' && output.value !== '') {
+          names.push(output.value);
+        }
+      }
+      if (node.parameters.fallback !== undefined) {
+        names.push('fallback');
+      }
+    }
+
+    // So does a merge's number of inputs
+    const inputs = node.parameters.inputs;
+    if (direction === 'input' && node.nodeType === 'flow.merge' &&
+        inputs?.type === 'LiteralExpression' && typeof inputs.value === 'number') {
+      return portNames({ names: {}, count: inputs.value }, 'input');
+    }
+    return names;
+  }
+
+  private describeDeclaration(declaration: Declaration, uri: string): string {
+    const statement = declaration.statement;
+    switch (statement.type) {
+      case 'ParameterDeclaration':
+        return this.codeBlock(this.formatParameter(statement)) +
+          (statement.description ? '\n' + statement.description : '');
+      case 'VariableDeclaration':
+        return this.codeBlock(`var ${statement.name} = ${this.formatter.formatExpression(statement.value)}`);
+      case 'CredentialDeclaration': {
+        const fields = Object.entries(statement.fields)
+          .map(([key, value]) => `${key}: ${this.formatter.formatExpression(value)}`);
+        return this.codeBlock(`credential ${statement.name} "${statement.credentialType}" { ${fields.join(', ')} }`);
+      }
+      case 'NodeDeclaration':
+        return this.codeBlock(`node ${statement.name} "${statement.nodeType}"`) + '\n' +
+          this.describeNodeType(statement.nodeType);
+      case 'ModuleDeclaration': {
+        const lines = [this.codeBlock(`module ${statement.name} = ${statement.modulePath}`)];
+        const definition = this.loadModule(statement.modulePath, this.toPath(uri));
+        if (definition && definition.parameters.length > 0) {
+          lines.push('Parameters:', ...definition.parameters.map(param =>
+            `- \`${this.formatParameter(param)}\`` + (param.description ? `: ${param.description}` : '')
+          ));
+        }
+        if (definition && definition.outputs.length > 0) {
+          lines.push('', 'Outputs: ' + definition.outputs.map(output => `\`${output.name}\``).join(', '));
+        }
+        return lines.join('\n');
+      }
+    }
+  }
+
+  private describeNodeType(type: string): string {
+    const n8nType = DSL_TO_N8N_NODE_TYPES[type];
+    if (!n8nType) {
+      return `n8n type \`${type}\`; parameters are passed through unchanged`;
+    }
+
+    const lines = [`n8n type \`${n8nType}\``];
+    const parameters = getNodeTemplate(n8nType)?.parameters;
+    if (parameters && Object.keys(parameters).length > 0) {
+      lines.push('', ...Object.entries(parameters).map(([key, description]) => `- \`${key}\`: ${description}`));
+    }
+    return lines.join('\n');
+  }
+
+  private formatParameter(param: ParameterDeclaration): string {
+    const declaration = `param ${param.name} ${param.paramType}${param.nullable ? '?' : ''}`;
+    return param.defaultValue === undefined
+      ? declaration
+      : `${declaration} = ${this.formatter.formatExpression(param.defaultValue)}`;
+  }
+
+  private codeBlock(code: string): string {
+    return '```n8n-dsl\n' + code + '\n```';
+  }
+
+  private loadModule(modulePath: string, fromFile?: string): ModuleDefinition | null {
+    try {
+      return new ModuleLoader().load(modulePath, fromFile).definition;
+    } catch {
+      return null;
+    }
+  }
+
+  private isWorkflow(text: string): boolean {
+    return /^\s*workflow\s/m.test(text);
+  }
+
+  // True if a line prefix ends inside a "..." string
+  private isInString(prefix: string): boolean {
+    const quotes = prefix.replace(/\\./g, '').match(/"/g);
+    return (quotes?.length || 0) % 2 === 1;
+  }
+
+  // Keywords used as property names (item.node) aren't declarations
+  private isPropertyName(tokens: Token[], index: number): boolean {
+    const previous = tokens[index - 1];
+    return previous?.type === TokenType.DOT || previous?.type === TokenType.QUESTION_DOT;
+  }
+
+  private errorLocation(error: unknown): ValidationError {
+    if (error instanceof ParseError) {
+      return { message: error.message, line: error.token.line, column: error.token.column, type: 'error' };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const match = LEXER_ERROR.exec(message);
+    return {
+      message,
+      line: match ? Number(match[1]) : undefined,
+      column: match ? Number(match[2]) : undefined,
+      type: 'error'
+    };
+  }
+
+  // Highlights the word or string at the error position
+  private toDiagnostic(error: ValidationError, lines: string[]): Diagnostic {
+    const line = error.line ?? 1;
+    const column = error.column ?? 1;
+    const text = lines[line - 1] || '';
+    const rest = text.slice(column - 1);
+    const word = /^("(?:[^"\\]|\\.)*"?|[A-Za-z_$][\w$]*|\S)/.exec(rest);
+
+    return {
+      range: this.toRange(line, column, error.line === undefined ? text.length : (word?.[0].length ?? 0)),
+      severity: error.type === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      message: error.message,
+      source: 'n8n-dsl'
+    };
+  }
+
+  private tokenContains(token: Token, position: Position): boolean {
+    const line = position.line + 1;
+    const column = position.character + 1;
+    const endLine = token.endLine ?? token.line;
+    const endColumn = token.endColumn ?? token.column + token.value.length;
+    const afterStart = line > token.line || (line === token.line && column >= token.column);
+    const beforeEnd = line < endLine || (line === endLine && column <= endColumn);
+    return afterStart && beforeEnd && token.type !== TokenType.EOF;
+  }
+
+  private tokenRange(token: Token): Range {
+    return {
+      start: { line: token.line - 1, character: token.column - 1 },
+      end: {
+        line: (token.endLine ?? token.line) - 1,
+        character: (token.endColumn ?? token.column + token.value.length) - 1
+      }
+    };
+  }
+
+  private toRange(line: number, column: number, length: number): Range {
+    return {
+      start: { line: line - 1, character: column - 1 },
+      end: { line: line - 1, character: column - 1 + length }
+    };
+  }
+
+  private toPath(uri: string): string | undefined {
+    return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+  }
+}
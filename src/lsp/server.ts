@@ -0,0 +1,179 @@
+/**
+ * Language server for .n8n files: LSP over JSON-RPC on stdio
+ */
+
+import { LanguageService } from './languageService';
+
+interface Message {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+const ERROR_CODES = {
+  MethodNotFound: -32601,
+  RequestFailed: -32803
+};
+
+type Handler = (params: any) => any;
+
+export class LanguageServer {
+  private service = new LanguageService();
+  private documents: Map<string, string> = new Map(); // uri -> text
+  private buffer: Buffer = Buffer.alloc(0);
+  private shutdownRequested = false;
+  private handlers: Record<string, Handler> = {
+    'initialize': () => ({
+      capabilities: {
+        textDocumentSync: 1, // Full document on every change
+        completionProvider: { triggerCharacters: ['.', '"', '{'] },
+        definitionProvider: true,
+        hoverProvider: true,
+        renameProvider: { prepareProvider: true }
+      },
+      serverInfo: { name: 'n8n-dsl' }
+    }),
+    'initialized': () => undefined,
+    'shutdown': () => {
+      this.shutdownRequested = true;
+      return null;
+    },
+    'exit': () => process.exit(this.shutdownRequested ? 0 : 1),
+
+    'textDocument/didOpen': ({ textDocument }) => {
+      this.update(textDocument.uri, textDocument.text);
+    },
+    'textDocument/didChange': ({ textDocument, contentChanges }) => {
+      const latest = contentChanges[contentChanges.length - 1];
+      if (latest) {
+        this.update(textDocument.uri, latest.text);
+      }
+    },
+    'textDocument/didClose': ({ textDocument }) => {
+      this.documents.delete(textDocument.uri);
+      this.service.forget(textDocument.uri);
+      this.notify('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+    },
+
+    'textDocument/completion': ({ textDocument, position }) => ({
+      isIncomplete: false,
+      items: this.service.getCompletions(textDocument.uri, this.text(textDocument.uri), position)
+    }),
+    'textDocument/definition': ({ textDocument, position }) =>
+      this.service.getDefinition(textDocument.uri, this.text(textDocument.uri), position),
+    'textDocument/hover': ({ textDocument, position }) =>
+      this.service.getHover(textDocument.uri, this.text(textDocument.uri), position),
+    'textDocument/prepareRename': ({ textDocument, position }) =>
+      this.service.prepareRename(textDocument.uri, this.text(textDocument.uri), position),
+    'textDocument/rename': ({ textDocument, position, newName }) =>
+      this.service.rename(textDocument.uri, this.text(textDocument.uri), position, newName)
+  };
+
+  constructor(
+    private input: NodeJS.ReadableStream = process.stdin,
+    private output: NodeJS.WritableStream = process.stdout
+  ) {}
+
+  start(): void {
+    this.input.on('data', (chunk: Buffer) => this.receive(chunk));
+    this.input.on('end', () => process.exit(this.shutdownRequested ? 0 : 1));
+  }
+
+  // Messages are framed by a Content-Length header
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (true) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) {
+        return;
+      }
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const length = /Content-Length:\s*(\d+)/i.exec(header);
+      const start = headerEnd + 4;
+      if (!length) {
+        this.buffer = this.buffer.subarray(start);
+        continue;
+      }
+
+      const end = start + Number(length[1]);
+      if (this.buffer.length < end) {
+        return;
+      }
+      const body = this.buffer.subarray(start, end).toString('utf-8');
+      this.buffer = this.buffer.subarray(end);
+
+      let message: Message;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        continue;
+      }
+      this.handle(message);
+    }
+  }
+
+  private handle(message: Message): void {
+    // Responses to server requests; the server sends none
+    if (message.method === undefined) {
+      return;
+    }
+
+    const isRequest = message.id !== undefined && message.id !== null;
+    const handler = this.handlers[message.method];
+    if (!handler) {
+      // Unknown notifications ($/setTrace, ...) are ignored
+      if (isRequest) {
+        this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: ERROR_CODES.MethodNotFound, message: `Unhandled method ${message.method}` }
+        });
+      }
+      return;
+    }
+
+    try {
+      const result = handler(message.params || {});
+      if (isRequest) {
+        this.send({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+      }
+    } catch (error) {
+      if (isRequest) {
+        const text = error instanceof Error ? error.message : String(error);
+        this.send({ jsonrpc: '2.0', id: message.id, error: { code: ERROR_CODES.RequestFailed, message: text } });
+      }
+    }
+  }
+
+  private update(uri: string, text: string): void {
+    this.documents.set(uri, text);
+    this.notify('textDocument/publishDiagnostics', {
+      uri,
+      diagnostics: this.service.getDiagnostics(uri, text)
+    });
+  }
+
+  private text(uri: string): string {
+    return this.documents.get(uri) ?? '';
+  }
+
+  private notify(method: string, params: any): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: Message): void {
+    const json = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(json, 'utf-8')}\r\n\r\n${json}`);
+  }
+}
+
+export function startServer(): LanguageServer {
+  const server = new LanguageServer();
+  server.start();
+  return server;
+}
@@ -8,6 +8,7 @@ export enum TokenType {
   NUMBER = 'NUMBER', 
   BOOLEAN = 'BOOLEAN',
   IDENTIFIER = 'IDENTIFIER',
+  PATH = 'PATH',            // ./relative/path.n8n
   
   // Keywords
   WORKFLOW = 'WORKFLOW',
@@ -29,13 +30,35 @@ export enum TokenType {
   SEMICOLON = 'SEMICOLON',  // ;
   EQUALS = 'EQUALS',        // =
   ARROW = 'ARROW',          // ->
+  FAT_ARROW = 'FAT_ARROW',  // =>
   DOT = 'DOT',              // .
   
   // Logical operators
   OR = 'OR',                // ||
   AND = 'AND',              // &&
+  BANG = 'BANG',            // !
+  
+  // Comparison operators
+  EQ = 'EQ',                // == (also ===)
+  NOT_EQ = 'NOT_EQ',        // != (also !==)
+  LT = 'LT',                // <
+  LTE = 'LTE',              // <=
+  GT = 'GT',                // >
+  GTE = 'GTE',              // >=
+  
+  // Arithmetic operators
+  PLUS = 'PLUS',            // +
+  MINUS = 'MINUS',          // -
+  STAR = 'STAR',            // *
+  SLASH = 'SLASH',          // /
+  PERCENT = 'PERCENT',      // %
+  
+  // Conditional and member access
+  QUESTION = 'QUESTION',    // ?
+  QUESTION_DOT = 'QUESTION_DOT', // ?.
   
   // Special
+  AT = 'AT',                // @, before an annotation
   TEMPLATE_START = 'TEMPLATE_START',  // ${
   TEMPLATE_END = 'TEMPLATE_END',      // }
   NEWLINE = 'NEWLINE',
@@ -50,8 +73,16 @@ export interface Token {
   value: string;
   line: number;
   column: number;
+  parts?: TemplatePart[]; // Set on strings containing ${...} interpolations
+  endLine?: number;       // Position just after the token's last character
+  endColumn?: number;
 }
 
+// A piece of a template string: literal text, or the raw source of an interpolation
+export type TemplatePart =
+  | { kind: 'text'; value: string }
+  | { kind: 'interpolation'; source: string; line: number; column: number };
+
 export class Lexer {
   private input: string;
   private position: number = 0;
@@ -63,8 +94,11 @@ export class Lexer {
     'true', 'false', 'string', 'number', 'boolean', 'array', 'object'
   ]);
 
-  constructor(input: string) {
+  // Start position can be given when lexing a fragment of a larger source
+  constructor(input: string, line: number = 1, column: number = 1) {
     this.input = input;
+    this.line = line;
+    this.column = column;
   }
 
   tokenize(): Token[] {
@@ -77,6 +111,8 @@ export class Lexer {
       
       const token = this.nextToken();
       if (token) {
+        token.endLine = this.line;
+        token.endColumn = this.column;
         tokens.push(token);
       }
     }
@@ -96,6 +132,11 @@ export class Lexer {
     const line = this.line;
     const column = this.column;
 
+    // Relative module paths (./file.n8n, ../shared/file.n8n)
+    if (char === '.' && (this.peek() === '/' || (this.peek() === '.' && this.peek(2) === '/'))) {
+      return this.readPath();
+    }
+
     // Single character tokens
     switch (char) {
       case '{': return this.makeToken(TokenType.LBRACE, this.advance());
@@ -108,41 +149,69 @@ export class Lexer {
       case ':': return this.makeToken(TokenType.COLON, this.advance());
       case ';': return this.makeToken(TokenType.SEMICOLON, this.advance());
       case '.': return this.makeToken(TokenType.DOT, this.advance());
-      case '\n': 
-        this.line++;
-        this.column = 1;
-        return this.makeToken(TokenType.NEWLINE, this.advance());
+      case '@': return this.makeToken(TokenType.AT, this.advance());
+      case '\n':
+        return { type: TokenType.NEWLINE, value: this.newline(), line, column };
     }
 
     // Multi-character tokens
     if (char === '=' && this.peek() === '=') {
-      this.advance();
-      return this.makeToken(TokenType.EQUALS, this.advance());
+      return this.readOperator(TokenType.EQ, this.peek(2) === '=' ? 3 : 2);
     }
     
+    if (char === '=' && this.peek() === '>') {
+      return this.readOperator(TokenType.FAT_ARROW, 2);
+    }
+
     if (char === '=') {
       return this.makeToken(TokenType.EQUALS, this.advance());
     }
 
+    if (char === '!' && this.peek() === '=') {
+      return this.readOperator(TokenType.NOT_EQ, this.peek(2) === '=' ? 3 : 2);
+    }
+
+    if (char === '!') {
+      return this.makeToken(TokenType.BANG, this.advance());
+    }
+
     if (char === '-' && this.peek() === '>') {
-      this.advance();
-      return this.makeToken(TokenType.ARROW, this.advance());
+      return this.readOperator(TokenType.ARROW, 2);
     }
 
     if (char === '$' && this.peek() === '{') {
-      this.advance();
-      return this.makeToken(TokenType.TEMPLATE_START, this.advance());
+      return this.readOperator(TokenType.TEMPLATE_START, 2);
     }
 
     // Logical operators
     if (char === '|' && this.peek() === '|') {
-      this.advance();
-      return this.makeToken(TokenType.OR, this.advance());
+      return this.readOperator(TokenType.OR, 2);
     }
 
     if (char === '&' && this.peek() === '&') {
-      this.advance();
-      return this.makeToken(TokenType.AND, this.advance());
+      return this.readOperator(TokenType.AND, 2);
+    }
+
+    // Comparison operators
+    if (char === '<') {
+      return this.peek() === '='
+        ? this.readOperator(TokenType.LTE, 2)
+        : this.makeToken(TokenType.LT, this.advance());
+    }
+
+    if (char === '>') {
+      return this.peek() === '='
+        ? this.readOperator(TokenType.GTE, 2)
+        : this.makeToken(TokenType.GT, this.advance());
+    }
+
+    // Optional member access; '?' followed by a digit is a ternary (a ?.5 : 1)
+    if (char === '?' && this.peek() === '.' && !this.isDigit(this.peek(2))) {
+      return this.readOperator(TokenType.QUESTION_DOT, 2);
+    }
+
+    if (char === '?') {
+      return this.makeToken(TokenType.QUESTION, this.advance());
     }
 
     // Comments
@@ -159,8 +228,8 @@ export class Lexer {
       return this.readMultiLineString();
     }
 
-    // Strings
-    if (char === '"' || char === "'") {
+    // Strings; backticks may span lines
+    if (char === '"' || char === "'" || char === '`') {
       return this.readString(char);
     }
 
@@ -174,8 +243,17 @@ export class Lexer {
       return this.readIdentifier();
     }
 
+    // Arithmetic operators (after comments, so '//' and '/*' are not division)
+    switch (char) {
+      case '+': return this.makeToken(TokenType.PLUS, this.advance());
+      case '-': return this.makeToken(TokenType.MINUS, this.advance());
+      case '*': return this.makeToken(TokenType.STAR, this.advance());
+      case '/': return this.makeToken(TokenType.SLASH, this.advance());
+      case '%': return this.makeToken(TokenType.PERCENT, this.advance());
+    }
+
     // Skip unknown characters that might be in strings (more forgiving)
-    if (char === '*' || char === '?' || char === '\\' || char === '|' || char === '&') {
+    if (char === '\\' || char === '|' || char === '&') {
       console.warn(`Skipping unexpected character '${char}' at line ${line}, column ${column}`);
       this.advance();
       return this.nextToken(); // Try next character
@@ -194,6 +272,14 @@ export class Lexer {
     };
   }
 
+  private readOperator(type: TokenType, length: number): Token {
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      value += this.advance();
+    }
+    return this.makeToken(type, value);
+  }
+
   private advance(): string {
     const char = this.input[this.position];
     this.position++;
@@ -201,6 +287,13 @@ export class Lexer {
     return char;
   }
 
+  private newline(): string {
+    const char = this.advance();
+    this.line++;
+    this.column = 1;
+    return char;
+  }
+
   private peek(offset: number = 1): string {
     const pos = this.position + offset;
     return pos < this.input.length ? this.input[pos] : '';
@@ -218,7 +311,9 @@ export class Lexer {
   }
 
   private readString(quote: string): Token {
+    const line = this.line;
     const start = this.column;
+    const parts: TemplatePart[] = [];
     let value = '';
     this.advance(); // Skip opening quote
 
@@ -227,17 +322,12 @@ export class Lexer {
       
       if (char === quote) {
         this.advance(); // Skip closing quote
-        return {
-          type: TokenType.STRING,
-          value,
-          line: this.line,
-          column: start
-        };
+        return this.makeStringToken(value, parts, line, start);
       }
       
       if (char === '\\') {
         this.advance();
-        const escaped = this.advance();
+        const escaped = this.input[this.position] === '\n' ? this.newline() : this.advance();
         switch (escaped) {
           case 'n': value += '\n'; break;
           case 't': value += '\t'; break;
@@ -246,22 +336,26 @@ export class Lexer {
           case '"': value += '"'; break;
           case "'": value += "'"; break;
           case '/': value += '/'; break;  // Allow escaped forward slashes
-          default: value += escaped; break;
+          default: value += escaped; break; // Includes \$ for a literal '${'
         }
+      } else if (char === '$' && this.peek() === '{') {
+        parts.push({ kind: 'text', value });
+        parts.push(this.readInterpolation());
+        value = '';
       } else if (char === '\n') {
-        this.line++;
-        this.column = 1;
-        value += this.advance();
+        value += this.newline();
       } else {
         value += this.advance();
       }
     }
 
-    throw new Error(`Unterminated string at line ${this.line}, column ${start}`);
+    throw new Error(`Unterminated string at line ${line}, column ${start}`);
   }
 
   private readMultiLineString(): Token {
+    const line = this.line;
     const start = this.column;
+    const parts: TemplatePart[] = [];
     let value = '';
     
     // Skip opening triple quotes
@@ -277,24 +371,83 @@ export class Lexer {
         this.advance(); // Skip first closing quote
         this.advance(); // Skip second closing quote  
         this.advance(); // Skip third closing quote
-        return {
-          type: TokenType.STRING,
-          value: value.trim(), // Trim whitespace from multi-line strings
-          line: this.line,
-          column: start
-        };
+
+        // Trim whitespace from multi-line strings
+        if (parts.length === 0) {
+          return this.makeStringToken(value.trim(), parts, line, start);
+        }
+        const first = parts[0] as { kind: 'text'; value: string };
+        first.value = first.value.trimStart();
+        return this.makeStringToken(value.trimEnd(), parts, line, start);
       }
       
-      if (char === '\n') {
-        this.line++;
-        this.column = 1;
-        value += this.advance();
+      if (char === '$' && this.peek() === '{') {
+        parts.push({ kind: 'text', value });
+        parts.push(this.readInterpolation());
+        value = '';
+      } else if (char === '\n') {
+        value += this.newline();
       } else {
         value += this.advance();
       }
     }
 
-    throw new Error(`Unterminated multi-line string at line ${this.line}, column ${start}`);
+    throw new Error(`Unterminated multi-line string at line ${line}, column ${start}`);
+  }
+
+  /**
+   * Read a `${...}` interpolation, keeping its raw source and where it starts.
+   * Braces and quoted strings inside the expression are skipped over.
+   */
+  private readInterpolation(): TemplatePart {
+    const openLine = this.line;
+    const openColumn = this.column;
+    this.advance(); // $
+    this.advance(); // {
+
+    const line = this.line;
+    const column = this.column;
+    let source = '';
+    let depth = 0;
+    let quote: string | null = null;
+
+    while (this.position < this.input.length) {
+      const char = this.input[this.position];
+
+      if (quote) {
+        if (char === '\\') {
+          source += this.advance();
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        if (depth === 0) {
+          this.advance();
+          return { kind: 'interpolation', source, line, column };
+        }
+        depth--;
+      }
+
+      source += char === '\n' ? this.newline() : this.advance();
+    }
+
+    throw new Error(`Unterminated interpolation at line ${openLine}, column ${openColumn}`);
+  }
+
+  private makeStringToken(value: string, parts: TemplatePart[], line: number, column: number): Token {
+    const token: Token = { type: TokenType.STRING, value, line, column };
+    if (parts.length > 0) {
+      parts.push({ kind: 'text', value });
+      token.value = parts
+        .map(part => part.kind === 'text' ? part.value : '${' + part.source + '}')
+        .join('');
+      token.parts = parts;
+    }
+    return token;
   }
 
   private readNumber(): Token {
@@ -335,53 +488,57 @@ export class Lexer {
     };
   }
 
+  private readPath(): Token {
+    const start = this.column;
+    let value = '';
+
+    while (this.position < this.input.length && this.isPathChar(this.input[this.position])) {
+      value += this.advance();
+    }
+
+    return {
+      type: TokenType.PATH,
+      value,
+      line: this.line,
+      column: start
+    };
+  }
+
+  // Comment tokens keep their delimiters so the formatter can print them as written
   private readComment(): Token {
     const start = this.column;
     let value = '';
     
-    // Skip //
-    this.advance();
-    this.advance();
-    
     while (this.position < this.input.length && this.input[this.position] !== '\n') {
       value += this.advance();
     }
 
     return {
       type: TokenType.COMMENT,
-      value: value.trim(),
+      value: value.trimEnd(),
       line: this.line,
       column: start
     };
   }
 
   private readBlockComment(): Token {
+    const line = this.line;
     const start = this.column;
-    let value = '';
+    let value = this.advance() + this.advance(); // /*
     
-    // Skip /*
-    this.advance();
-    this.advance();
-    
-    while (this.position < this.input.length - 1) {
+    while (this.position < this.input.length) {
       if (this.input[this.position] === '*' && this.input[this.position + 1] === '/') {
-        this.advance(); // Skip *
-        this.advance(); // Skip /
+        value += this.advance() + this.advance(); // */
         break;
       }
       
-      if (this.input[this.position] === '\n') {
-        this.line++;
-        this.column = 1;
-      }
-      
-      value += this.advance();
+      value += this.input[this.position] === '\n' ? this.newline() : this.advance();
     }
 
     return {
       type: TokenType.COMMENT,
-      value: value.trim(),
-      line: this.line,
+      value,
+      line,
       column: start
     };
   }
@@ -412,4 +569,8 @@ export class Lexer {
   private isAlphaNumeric(char: string): boolean {
     return this.isAlpha(char) || this.isDigit(char);
   }
+
+  private isPathChar(char: string): boolean {
+    return this.isAlphaNumeric(char) || char === '.' || char === '/' || char === '_' || char === '-';
+  }
 }
\ No newline at end of file
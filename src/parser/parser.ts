@@ -2,35 +2,90 @@
  * Simple recursive descent parser for the DSL
  */
 
-import { Token, TokenType, Lexer } from './lexer';
+import { Token, TokenType, Lexer, TemplatePart } from './lexer';
 import {
   Program, WorkflowDeclaration, ParameterDeclaration, VariableDeclaration,
-  NodeDeclaration, ModuleDeclaration, ConnectionDeclaration, Expression,
+  NodeDeclaration, ModuleDeclaration, ConnectionDeclaration, ConnectionEndpoint, ConnectionStatement, Expression,
+  ModuleDefinition, OutputDeclaration, EnvironmentDeclaration, CredentialDeclaration, FlowBlock, FlowElement, FlowBranch,
   LiteralExpression, IdentifierExpression, ObjectExpression, ArrayExpression,
-  TemplateExpression, ParameterType
+  TemplateExpression, ParameterType, ParameterValidation, PARAMETER_TYPES, BinaryOperator, ASTNode, isNodeSetting,
+  DSL_TO_N8N_NODE_TYPES
 } from '../types/dsl';
 
+// The statement lists of a workflow or module body
+interface StatementBody {
+  parameters: ParameterDeclaration[];
+  variables: VariableDeclaration[];
+  environments?: EnvironmentDeclaration[]; // Workflows only
+  credentials: CredentialDeclaration[];
+  nodes: (NodeDeclaration | ModuleDeclaration)[];
+  connections: ConnectionDeclaration[];
+}
+
 export class ParseError extends Error {
   constructor(message: string, public token: Token) {
     super(`${message} at line ${token.line}, column ${token.column}`);
   }
 }
 
+// Binary operator precedence, lowest first (ternaries bind looser than all of these)
+const BINARY_PRECEDENCE: Partial<Record<TokenType, number>> = {
+  [TokenType.OR]: 1,
+  [TokenType.AND]: 2,
+  [TokenType.EQ]: 3,
+  [TokenType.NOT_EQ]: 3,
+  [TokenType.LT]: 4,
+  [TokenType.LTE]: 4,
+  [TokenType.GT]: 4,
+  [TokenType.GTE]: 4,
+  [TokenType.PLUS]: 5,
+  [TokenType.MINUS]: 5,
+  [TokenType.STAR]: 6,
+  [TokenType.SLASH]: 6,
+  [TokenType.PERCENT]: 6
+};
+
+const BINARY_OPERATORS: Partial<Record<TokenType, BinaryOperator>> = {
+  [TokenType.OR]: '||',
+  [TokenType.AND]: '&&',
+  [TokenType.EQ]: '==',
+  [TokenType.NOT_EQ]: '!=',
+  [TokenType.LT]: '<',
+  [TokenType.LTE]: '<=',
+  [TokenType.GT]: '>',
+  [TokenType.GTE]: '>=',
+  [TokenType.PLUS]: '+',
+  [TokenType.MINUS]: '-',
+  [TokenType.STAR]: '*',
+  [TokenType.SLASH]: '/',
+  [TokenType.PERCENT]: '%'
+};
+
+// Node parameters holding JavaScript, which has `${...}` template literals of its own
+const CODE_PARAMETERS = new Set(['code', 'jsCode', 'functionCode']);
+
 export class Parser {
   private tokens: Token[];
   private current: number = 0;
+  private comments: Token[]; // Not yet attached to a node, in source order
+  private commentIndex: number = 0;
+  private inCode: boolean = false; // Parsing the value of a code parameter
+  private inFormFields: boolean = false; // The next list is the fields of a form trigger
 
-  constructor(input: string) {
-    const lexer = new Lexer(input);
-    this.tokens = lexer.tokenize().filter(t => 
+  constructor(input: string, line: number = 1, column: number = 1) {
+    const lexer = new Lexer(input, line, column);
+    const tokens = lexer.tokenize();
+    this.tokens = tokens.filter(t => 
       t.type !== TokenType.COMMENT && 
       t.type !== TokenType.NEWLINE
     );
+    this.comments = tokens.filter(t => t.type === TokenType.COMMENT);
   }
 
   parse(): Program {
     try {
-      const workflow = this.parseWorkflow();
+      const comments = this.takeComments();
+      const workflow = this.withComments(this.parseWorkflow(), comments);
       
       // Check for EOF, but don't throw if we're already at EOF
       if (!this.isAtEnd()) {
@@ -40,9 +95,74 @@ export class Parser {
       return {
         type: 'Program',
         workflow,
+        innerComments: this.takeComments(),
+        line: 1,
+        column: 1
+      };
+    } catch (error) {
+      if (error instanceof ParseError) {
+        throw error;
+      }
+      throw new ParseError(`Unexpected error: ${error}`, this.getCurrentToken());
+    }
+  }
+
+  /**
+   * Parse the contents of a module file. Both the bare form (top-level
+   * statements) and the wrapped `module "name" { ... }` form are accepted.
+   */
+  parseModuleDefinition(): ModuleDefinition {
+    try {
+      let name: string | undefined;
+      let wrapped = false;
+      const leadingComments = this.takeComments();
+
+      if (this.check(TokenType.MODULE) && this.peekToken().type === TokenType.STRING) {
+        this.advance();
+        name = this.advance().value;
+        this.expect(TokenType.LBRACE);
+        wrapped = true;
+      }
+
+      const definition: ModuleDefinition = {
+        type: 'ModuleDefinition',
+        name,
+        parameters: [],
+        variables: [],
+        credentials: [],
+        nodes: [],
+        connections: [],
+        outputs: [],
+        leadingComments: wrapped ? leadingComments : undefined,
         line: 1,
         column: 1
       };
+
+      // In the bare form, leading comments belong to the first statement
+      let comments = wrapped ? this.takeComments() : leadingComments;
+      while (!this.isAtEnd() && !(wrapped && this.check(TokenType.RBRACE))) {
+        if (this.checkIdentifier('output')) {
+          definition.outputs.push(this.withComments(this.parseOutput(), comments));
+        } else {
+          this.parseStatement(definition, comments);
+        }
+        comments = this.takeComments();
+      }
+
+      if (wrapped) {
+        this.expect(TokenType.RBRACE);
+      }
+
+      if (!this.isAtEnd()) {
+        this.expect(TokenType.EOF);
+      }
+
+      const remaining = [...(comments || []), ...(this.takeComments() || [])];
+      if (remaining.length > 0) {
+        definition.innerComments = remaining;
+      }
+
+      return definition;
     } catch (error) {
       if (error instanceof ParseError) {
         throw error;
@@ -52,71 +172,175 @@ export class Parser {
   }
 
   private parseWorkflow(): WorkflowDeclaration {
-    this.expect(TokenType.WORKFLOW);
+    const start = this.expect(TokenType.WORKFLOW);
     const name = this.expect(TokenType.STRING).value;
     this.expect(TokenType.LBRACE);
 
-    const parameters: ParameterDeclaration[] = [];
-    const variables: VariableDeclaration[] = [];
-    const nodes: (NodeDeclaration | ModuleDeclaration)[] = [];
-    const connections: ConnectionDeclaration[] = [];
+    const body = {
+      parameters: [] as ParameterDeclaration[],
+      variables: [] as VariableDeclaration[],
+      environments: [] as EnvironmentDeclaration[],
+      credentials: [] as CredentialDeclaration[],
+      nodes: [] as (NodeDeclaration | ModuleDeclaration)[],
+      connections: [] as ConnectionDeclaration[]
+    };
 
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
-      if (this.check(TokenType.PARAM)) {
-        parameters.push(this.parseParameter());
-      } else if (this.check(TokenType.VAR)) {
-        variables.push(this.parseVariable());
-      } else if (this.check(TokenType.NODE)) {
-        nodes.push(this.parseNode());
-      } else if (this.check(TokenType.MODULE)) {
-        nodes.push(this.parseModule());
-      } else if (this.check(TokenType.CONNECT)) {
-        connections.push(this.parseConnection());
-      } else {
-        throw new ParseError(`Unexpected token '${this.getCurrentToken().value}'`, this.getCurrentToken());
-      }
+      this.parseStatement(body, this.takeComments());
     }
 
+    const innerComments = this.takeComments();
     this.expect(TokenType.RBRACE);
 
     return {
       type: 'WorkflowDeclaration',
       name,
-      parameters,
-      variables,
-      nodes,
-      connections,
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      ...body,
+      innerComments,
+      line: start.line,
+      column: start.column
     };
   }
 
+  private parseStatement(body: StatementBody, comments?: string[]): void {
+    if (this.check(TokenType.PARAM)) {
+      body.parameters.push(this.withComments(this.parseParameter(), comments));
+    } else if (this.check(TokenType.VAR)) {
+      body.variables.push(this.withComments(this.parseVariable(), comments));
+    } else if (this.check(TokenType.NODE)) {
+      body.nodes.push(this.withComments(this.parseNode(), comments));
+    } else if (this.check(TokenType.AT)) {
+      if (!body.environments) {
+        throw new ParseError('@id is only allowed on nodes of a workflow, not a module', this.getCurrentToken());
+      }
+      const id = this.parseIdAnnotation();
+      const node = this.parseNode();
+      body.nodes.push(this.withComments({ ...node, id }, comments));
+    } else if (this.check(TokenType.MODULE)) {
+      body.nodes.push(this.withComments(this.parseModule(), comments));
+    } else if (this.check(TokenType.CONNECT)) {
+      const [first, ...rest] = this.parseConnection();
+      body.connections.push(this.withComments(first, comments), ...rest);
+    } else if (this.checkIdentifier('flow') && this.peekToken().type === TokenType.LBRACE) {
+      this.parseFlow(body, comments);
+    } else if (this.checkIdentifier('credential') && this.peekToken().type === TokenType.IDENTIFIER) {
+      body.credentials.push(this.withComments(this.parseCredential(), comments));
+    } else if (this.checkIdentifier('environment') && this.peekToken().type === TokenType.STRING) {
+      if (!body.environments) {
+        throw new ParseError('environment blocks are only allowed in a workflow, not in a module', this.getCurrentToken());
+      }
+      body.environments.push(this.withComments(this.parseEnvironment(), comments));
+    } else {
+      throw new ParseError(`Unexpected token '${this.getCurrentToken().value}'`, this.getCurrentToken());
+    }
+  }
+
   private parseParameter(): ParameterDeclaration {
-    this.expect(TokenType.PARAM);
+    const start = this.expect(TokenType.PARAM);
     const name = this.expect(TokenType.IDENTIFIER).value;
-    const paramType = this.expect(TokenType.IDENTIFIER).value as ParameterType;
-    
-    let defaultValue: any = undefined;
-    let required = true;
-
-    if (this.match(TokenType.EQUALS)) {
-      defaultValue = this.parseExpression();
-      required = false;
+    const typeToken = this.expect(TokenType.IDENTIFIER);
+    if (!PARAMETER_TYPES.includes(typeToken.value as ParameterType)) {
+      throw new ParseError(
+        `Unknown parameter type '${typeToken.value}', expected one of ${PARAMETER_TYPES.join(', ')}`,
+        typeToken
+      );
     }
-
-    return {
+    const param: ParameterDeclaration = {
       type: 'ParameterDeclaration',
       name,
-      paramType,
-      defaultValue,
-      required,
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      paramType: typeToken.value as ParameterType,
+      required: true,
+      line: start.line,
+      column: start.column
     };
+    if (this.match(TokenType.QUESTION)) {
+      param.nullable = true;
+    }
+
+    if (this.match(TokenType.EQUALS)) {
+      param.defaultValue = this.parseExpression();
+    } else if (this.match(TokenType.LBRACE)) {
+      this.parseParameterBlock(param);
+    }
+    param.required = param.defaultValue === undefined && !param.nullable;
+    return param;
+  }
+
+  // { min: 1 max: 100 default: 10 description: "..." }; rules must be literals
+  private parseParameterBlock(param: ParameterDeclaration): void {
+    const validation: ParameterValidation = {};
+    const seen = new Set<string>();
+    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      const keyToken = this.expect(TokenType.IDENTIFIER);
+      const key = keyToken.value;
+      if (seen.has(key)) {
+        throw new ParseError(`Duplicate '${key}' in parameter '${param.name}'`, keyToken);
+      }
+      seen.add(key);
+      this.expect(TokenType.COLON);
+      const value = this.parseExpression();
+      this.match(TokenType.COMMA);
+
+      const literal = this.literalValue(value);
+      const invalid = (expected: string) =>
+        new ParseError(`'${key}' of parameter '${param.name}' must be ${expected}`, keyToken);
+      switch (key) {
+        case 'default':
+          param.defaultValue = value;
+          break;
+        case 'description':
+          if (typeof literal !== 'string') throw invalid('a string');
+          param.description = literal;
+          break;
+        case 'min':
+        case 'max':
+          if (typeof literal !== 'number') throw invalid('a number');
+          validation[key] = literal;
+          break;
+        case 'pattern':
+          if (typeof literal !== 'string') throw invalid('a string');
+          validation.pattern = literal;
+          break;
+        case 'allowed':
+          if (!Array.isArray(literal) || literal.length === 0 ||
+              literal.some(item => !['string', 'number', 'boolean'].includes(typeof item))) {
+            throw invalid('a list of strings, numbers or booleans');
+          }
+          validation.allowed = literal;
+          break;
+        default:
+          throw new ParseError(
+            `Unknown key '${key}' in parameter '${param.name}', expected default, description, min, max, pattern or allowed`,
+            keyToken
+          );
+      }
+    }
+    this.expect(TokenType.RBRACE);
+
+    if (Object.keys(validation).length > 0) {
+      param.validation = validation;
+    }
+  }
+
+  // The value of a literal, a negative number or a list of literals; undefined for anything else
+  private literalValue(expr: Expression): any {
+    switch (expr.type) {
+      case 'LiteralExpression':
+        return expr.value;
+      case 'UnaryExpression':
+        return expr.operator === '-' && expr.argument.type === 'LiteralExpression' &&
+          typeof expr.argument.value === 'number' ? -expr.argument.value : undefined;
+      case 'ArrayExpression': {
+        const items = expr.elements.map(element => this.literalValue(element));
+        return items.some(item => item === undefined) ? undefined : items;
+      }
+      default:
+        return undefined;
+    }
   }
 
   private parseVariable(): VariableDeclaration {
-    this.expect(TokenType.VAR);
+    const start = this.expect(TokenType.VAR);
     const name = this.expect(TokenType.IDENTIFIER).value;
     this.expect(TokenType.EQUALS);
     const value = this.parseExpression();
@@ -125,29 +349,129 @@ export class Parser {
       type: 'VariableDeclaration',
       name,
       value,
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      line: start.line,
+      column: start.column
+    };
+  }
+
+  // environment "name" { param = value ... }, entries separated by newlines, ';' or ','
+  private parseEnvironment(): EnvironmentDeclaration {
+    const start = this.advance();
+    const name = this.expect(TokenType.STRING).value;
+    this.expect(TokenType.LBRACE);
+
+    const overrides: { [name: string]: Expression } = {};
+    const keyPositions: EnvironmentDeclaration['keyPositions'] = {};
+    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      const comments = this.takeComments();
+      const key = this.expect(TokenType.IDENTIFIER);
+      if (key.value in overrides) {
+        throw new ParseError(`Duplicate '${key.value}' in environment '${name}'`, key);
+      }
+      this.expect(TokenType.EQUALS);
+      overrides[key.value] = this.withComments(this.parseExpression(), comments);
+      keyPositions[key.value] = { line: key.line, column: key.column };
+      this.match(TokenType.SEMICOLON, TokenType.COMMA);
+    }
+
+    const innerComments = this.takeComments();
+    this.expect(TokenType.RBRACE);
+
+    return {
+      type: 'EnvironmentDeclaration',
+      name,
+      overrides,
+      keyPositions,
+      innerComments,
+      line: start.line,
+      column: start.column
+    };
+  }
+
+  // credential name "n8nCredentialType" { id: ..., name: ... }
+  private parseCredential(): CredentialDeclaration {
+    const start = this.advance();
+    const name = this.expect(TokenType.IDENTIFIER).value;
+    const credentialType = this.expect(TokenType.STRING).value;
+    this.expect(TokenType.LBRACE);
+
+    const fields: { [key: string]: Expression } = {};
+    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      const comments = this.takeComments();
+      const key = this.expect(TokenType.IDENTIFIER);
+      if (key.value !== 'id' && key.value !== 'name') {
+        throw new ParseError(`Unknown key '${key.value}' in credential '${name}', expected id or name`, key);
+      }
+      this.expect(TokenType.COLON);
+      fields[key.value] = this.withComments(this.parseExpression(), comments);
+      this.match(TokenType.COMMA);
+    }
+
+    const innerComments = this.takeComments();
+    this.expect(TokenType.RBRACE);
+
+    return {
+      type: 'CredentialDeclaration',
+      name,
+      credentialType,
+      fields,
+      innerComments,
+      line: start.line,
+      column: start.column
     };
   }
 
+  // @id("...") before a node declaration
+  private parseIdAnnotation(): string {
+    this.expect(TokenType.AT);
+    const name = this.expect(TokenType.IDENTIFIER);
+    if (name.value !== 'id') {
+      throw new ParseError(`Unknown annotation '@${name.value}', expected @id`, name);
+    }
+    this.expect(TokenType.LPAREN);
+    const id = this.expect(TokenType.STRING);
+    if (id.value.trim() === '') {
+      throw new ParseError('@id needs a non-empty id', id);
+    }
+    this.expect(TokenType.RPAREN);
+    return id.value;
+  }
+
   private parseNode(): NodeDeclaration {
-    this.expect(TokenType.NODE);
+    return this.parseNodeDeclaration(this.expect(TokenType.NODE));
+  }
+
+  // name "type" { ... }, after the node keyword or in a flow block
+  private parseNodeDeclaration(start: Token): NodeDeclaration {
     const name = this.expect(TokenType.IDENTIFIER).value;
     const nodeType = this.expect(TokenType.STRING).value;
     this.expect(TokenType.LBRACE);
 
     const parameters: { [key: string]: Expression } = {};
+    const settings: { [key: string]: Expression } = {};
     
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
-      const paramName = this.expect(TokenType.IDENTIFIER).value;
+      const comments = this.takeComments();
+      // Quoted names allow raw n8n parameters that aren't identifiers
+      const quoted = this.check(TokenType.STRING);
+      const paramName = quoted
+        ? this.advance().value
+        : this.expect(TokenType.IDENTIFIER).value;
       this.expect(TokenType.COLON);
+      this.inCode = CODE_PARAMETERS.has(paramName);
+      this.inFormFields = paramName === 'fields' && this.check(TokenType.LBRACKET) &&
+        (DSL_TO_N8N_NODE_TYPES[nodeType] || nodeType) === 'n8n-nodes-base.formTrigger';
       const paramValue = this.parseExpression();
-      parameters[paramName] = paramValue;
+      this.inCode = false;
+      this.inFormFields = false;
       
       // Optional comma
       this.match(TokenType.COMMA);
+      const target = !quoted && isNodeSetting(paramName) ? settings : parameters;
+      target[paramName] = this.withComments(paramValue, comments);
     }
 
+    const innerComments = this.takeComments();
     this.expect(TokenType.RBRACE);
 
     return {
@@ -155,30 +479,54 @@ export class Parser {
       name,
       nodeType,
       parameters,
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      settings,
+      position: settings.position ? this.parsePosition(settings.position) : undefined,
+      innerComments,
+      line: start.line,
+      column: start.column
     };
   }
 
+  // position: [x, y], with number literals
+  private parsePosition(expr: Expression): [number, number] {
+    const coordinates = expr.type === 'ArrayExpression' ? expr.elements : [];
+    if (coordinates.length !== 2 ||
+        coordinates.some(item => item.type !== 'LiteralExpression' || typeof item.value !== 'number')) {
+      throw new ParseError('position must be [x, y] with two numbers', {
+        type: TokenType.LBRACKET, value: '', line: expr.line!, column: expr.column!
+      });
+    }
+    return coordinates.map(item => (item as LiteralExpression).value as number) as [number, number];
+  }
+
   private parseModule(): ModuleDeclaration {
-    this.expect(TokenType.MODULE);
+    const start = this.expect(TokenType.MODULE);
     const name = this.expect(TokenType.IDENTIFIER).value;
     this.expect(TokenType.EQUALS);
-    const modulePath = this.expect(TokenType.STRING).value;
+    
+    // Module paths may be bare (./modules/x.n8n) or quoted
+    let modulePath: string;
+    if (this.check(TokenType.PATH)) {
+      modulePath = this.advance().value;
+    } else {
+      modulePath = this.expect(TokenType.STRING).value;
+    }
     this.expect(TokenType.LBRACE);
 
     const parameters: { [key: string]: Expression } = {};
     
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      const comments = this.takeComments();
       const paramName = this.expect(TokenType.IDENTIFIER).value;
       this.expect(TokenType.COLON);
       const paramValue = this.parseExpression();
-      parameters[paramName] = paramValue;
       
       // Optional comma
       this.match(TokenType.COMMA);
+      parameters[paramName] = this.withComments(paramValue, comments);
     }
 
+    const innerComments = this.takeComments();
     this.expect(TokenType.RBRACE);
 
     return {
@@ -186,95 +534,506 @@ export class Parser {
       name,
       modulePath,
       parameters,
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      innerComments,
+      line: start.line,
+      column: start.column
     };
   }
 
-  private parseConnection(): ConnectionDeclaration {
-    this.expect(TokenType.CONNECT);
-    
-    // Parse source (node.output or just node)
-    const sourceNode = this.expect(TokenType.IDENTIFIER).value;
-    let sourceOutput = 'main';
-    
+  /**
+   * connect a.true -> b, connect a -> b -> c, connect a -> [b, c], connect [x, y] -> merge.
+   * Every node in one step connects to every node in the next. A port on the
+   * first step is an output; a port after an arrow is the input it's connected
+   * to, and nodes in the middle of a chain continue from their main output.
+   * A list connected to a node without a port records each source's position,
+   * so the generator can spread the list over the node's inputs.
+   */
+  private parseConnection(): ConnectionDeclaration[] {
+    const start = this.expect(TokenType.CONNECT);
+
+    const steps = [this.parseConnectionStep('output')];
+    while (this.match(TokenType.ARROW)) {
+      steps.push(this.parseConnectionStep('input'));
+    }
+    if (steps.length < 2) {
+      throw new ParseError(`Expected '->' in connect statement`, this.getCurrentToken());
+    }
+
+    const statement: ConnectionStatement = { steps };
+    const connections: ConnectionDeclaration[] = [];
+    for (let index = 1; index < steps.length; index++) {
+      const fanIn = steps[index - 1].length > 1;
+      steps[index - 1].forEach((source, position) => {
+        for (const target of steps[index]) {
+          connections.push({
+            type: 'ConnectionDeclaration',
+            statement,
+            fanIn: fanIn && target.port === undefined ? position : undefined,
+            source: {
+              node: source.node,
+              output: index === 1 ? source.port ?? 'main' : 'main',
+              line: source.line,
+              column: source.column
+            },
+            target: { node: target.node, input: target.port ?? 'main', line: target.line, column: target.column },
+            line: start.line,
+            column: start.column
+          });
+        }
+      });
+    }
+    return connections;
+  }
+
+  // A node or a [list, of, nodes], each with an optional .port
+  private parseConnectionStep(direction: 'output' | 'input'): ConnectionEndpoint[] {
+    if (!this.match(TokenType.LBRACKET)) {
+      return [this.parseConnectionEndpoint(direction)];
+    }
+
+    const endpoints: ConnectionEndpoint[] = [];
+    do {
+      if (this.check(TokenType.RBRACKET)) break; // Trailing comma
+      endpoints.push(this.parseConnectionEndpoint(direction));
+    } while (this.match(TokenType.COMMA));
+    this.expect(TokenType.RBRACKET);
+
+    if (endpoints.length === 0) {
+      throw new ParseError(`Expected at least one node in connection list`, this.previous());
+    }
+    return endpoints;
+  }
+
+  private parseConnectionEndpoint(direction: 'output' | 'input'): ConnectionEndpoint {
+    const node = this.expect(TokenType.IDENTIFIER);
+    const endpoint: ConnectionEndpoint = { node: node.value, line: node.line, column: node.column };
+
     if (this.match(TokenType.DOT)) {
-      // Allow identifiers or keywords like 'true', 'false' for connection outputs
-      if (this.check(TokenType.IDENTIFIER)) {
-        sourceOutput = this.advance().value;
-      } else if (this.check(TokenType.BOOLEAN)) {
-        sourceOutput = this.advance().value;
+      // Allow identifiers or keywords like 'true', 'false' for port names
+      if (this.check(TokenType.IDENTIFIER) || this.check(TokenType.BOOLEAN)) {
+        endpoint.port = this.advance().value;
       } else {
-        throw new ParseError(`Expected connection output name`, this.getCurrentToken());
+        throw new ParseError(`Expected connection ${direction} name`, this.getCurrentToken());
       }
     }
+    return endpoint;
+  }
 
-    this.expect(TokenType.ARROW);
+  /**
+   * flow { a "trigger.manual" {} -> b "http.request" {...} -> c }
+   * Nodes are declared where they appear (or referenced by name when declared
+   * elsewhere) and each is connected to the next. A node can end its pipeline
+   * with branch blocks, one per output: `true { ... } false { ... }`.
+   */
+  private parseFlow(body: StatementBody, comments?: string[]): void {
+    const start = this.advance(); // 'flow'
+    this.expect(TokenType.LBRACE);
 
-    // Parse target (node.input or just node)
-    const targetNode = this.expect(TokenType.IDENTIFIER).value;
-    let targetInput = 'main';
-    
-    if (this.match(TokenType.DOT)) {
-      // Allow identifiers or keywords like 'true', 'false' for connection inputs
-      if (this.check(TokenType.IDENTIFIER)) {
-        targetInput = this.advance().value;
-      } else if (this.check(TokenType.BOOLEAN)) {
-        targetInput = this.advance().value;
-      } else {
-        throw new ParseError(`Expected connection input name`, this.getCurrentToken());
+    const flow: FlowBlock = {
+      type: 'FlowBlock',
+      pipelines: [],
+      leadingComments: comments,
+      line: start.line,
+      column: start.column
+    };
+    flow.pipelines = this.parseFlowPipelines(flow, body, 'output');
+    flow.innerComments = this.takeComments();
+    this.expect(TokenType.RBRACE);
+  }
+
+  // Pipelines up to the closing brace of a flow or branch block
+  private parseFlowPipelines(flow: FlowBlock, body: StatementBody, firstPort: 'output' | 'input'): FlowElement[][] {
+    const pipelines: FlowElement[][] = [];
+    while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      pipelines.push(this.parseFlowPipeline(flow, body, firstPort));
+    }
+    return pipelines;
+  }
+
+  private parseFlowPipeline(flow: FlowBlock, body: StatementBody, firstPort: 'output' | 'input'): FlowElement[] {
+    const pipeline: FlowElement[] = [];
+
+    do {
+      const element = this.parseFlowElement(flow, body, pipeline.length === 0 ? firstPort : 'input');
+      const previous = pipeline[pipeline.length - 1];
+      if (previous) {
+        const source = this.flowEndpoint(previous);
+        const output = pipeline.length === 1 && firstPort === 'output' ? previous.reference?.port : undefined;
+        body.connections.push(this.flowConnection(flow, { ...source, port: output }, element));
+      }
+      pipeline.push(element);
+
+      if (this.isFlowBranch()) {
+        element.branches = [];
+        while (this.isFlowBranch()) {
+          element.branches.push(this.parseFlowBranch(flow, body, element));
+        }
+        if (this.check(TokenType.ARROW)) {
+          throw new ParseError(`A pipeline ends after its branch blocks`, this.getCurrentToken());
+        }
       }
+    } while (this.match(TokenType.ARROW));
+
+    return pipeline;
+  }
+
+  // name "type" { ... } declares a node, name or name.port refers to one
+  private parseFlowElement(flow: FlowBlock, body: StatementBody, direction: 'output' | 'input'): FlowElement {
+    const comments = this.takeComments();
+    if (this.check(TokenType.IDENTIFIER) && this.peekToken().type === TokenType.STRING) {
+      const node = this.withComments(this.parseNodeDeclaration(this.getCurrentToken()), comments);
+      node.flow = flow;
+      body.nodes.push(node);
+      return { node };
+    }
+    return { reference: this.parseConnectionEndpoint(direction) };
+  }
+
+  // true { ... }, loop { ... }, output2 { ... }
+  private isFlowBranch(): boolean {
+    return (this.check(TokenType.IDENTIFIER) || this.check(TokenType.BOOLEAN)) &&
+      this.peekToken().type === TokenType.LBRACE;
+  }
+
+  private parseFlowBranch(flow: FlowBlock, body: StatementBody, from: FlowElement): FlowBranch {
+    const label = this.advance();
+    this.expect(TokenType.LBRACE);
+
+    const branch: FlowBranch = { type: 'FlowBranch', port: label.value, pipelines: [], line: label.line, column: label.column };
+    const connectionsBefore = body.connections.length;
+    branch.pipelines = this.parseFlowPipelines(flow, body, 'input');
+    branch.innerComments = this.takeComments();
+    this.expect(TokenType.RBRACE);
+
+    // Each pipeline in the branch starts from the branch's output
+    const source = { ...this.flowEndpoint(from), port: label.value, line: label.line, column: label.column };
+    const entries = branch.pipelines.map(pipeline => pipeline[0]);
+    body.connections.splice(connectionsBefore, 0, ...entries.map(entry => this.flowConnection(flow, source, entry)));
+    return branch;
+  }
+
+  private flowEndpoint(element: FlowElement): ConnectionEndpoint {
+    if (element.node) {
+      return { node: element.node.name, line: element.node.line, column: element.node.column };
     }
+    const { node, line, column } = element.reference!;
+    return { node, line, column };
+  }
 
+  private flowConnection(flow: FlowBlock, source: ConnectionEndpoint, target: FlowElement): ConnectionDeclaration {
+    const { node, line, column } = this.flowEndpoint(target);
     return {
       type: 'ConnectionDeclaration',
-      source: { node: sourceNode, output: sourceOutput },
-      target: { node: targetNode, input: targetInput },
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      flow,
+      source: { node: source.node, output: source.port ?? 'main', line: source.line, column: source.column },
+      target: { node, input: target.reference?.port ?? 'main', line, column },
+      line: source.line,
+      column: source.column
+    };
+  }
+
+  private parseOutput(): OutputDeclaration {
+    const start = this.advance(); // 'output'
+    const name = this.expect(TokenType.IDENTIFIER).value;
+    this.expect(TokenType.EQUALS);
+    const node = this.expect(TokenType.IDENTIFIER).value;
+
+    // Remaining segments: optional 'output', then a port name or field path
+    const path: string[] = [];
+    while (this.match(TokenType.DOT)) {
+      if (this.check(TokenType.IDENTIFIER) || this.check(TokenType.BOOLEAN)) {
+        path.push(this.advance().value);
+      } else {
+        throw new ParseError(`Expected output path segment`, this.getCurrentToken());
+      }
+    }
+    if (path[0] === 'output') {
+      path.shift();
+    }
+
+    return {
+      type: 'OutputDeclaration',
+      name,
+      node,
+      path,
+      line: start.line,
+      column: start.column
     };
   }
 
+  /**
+   * Parse a standalone expression, e.g. the contents of a `${...}` interpolation.
+   */
+  parseStandaloneExpression(): Expression {
+    const expr = this.parseExpression();
+    if (!this.isAtEnd()) {
+      throw new ParseError(`Unexpected token '${this.getCurrentToken().value}'`, this.getCurrentToken());
+    }
+    return expr;
+  }
+
   private parseExpression(): Expression {
-    return this.parseTemplateExpression();
+    if (this.isArrowFunctionStart()) {
+      return this.parseArrowFunction();
+    }
+    return this.parseConditional();
   }
 
-  private parseTemplateExpression(): Expression {
-    if (this.check(TokenType.STRING)) {
-      const value = this.advance().value;
-      
-      // Check if it contains template syntax
-      if (value.includes('${')) {
-        return {
-          type: 'TemplateExpression',
-          template: value,
-          expressions: [], // Would need more sophisticated parsing for actual expressions
-          line: this.getCurrentToken().line,
-          column: this.getCurrentToken().column
-        };
+  // x => ..., (x) => ..., (a, b) => ...
+  private isArrowFunctionStart(): boolean {
+    if (this.check(TokenType.IDENTIFIER)) {
+      return this.peekToken().type === TokenType.FAT_ARROW;
+    }
+    if (!this.check(TokenType.LPAREN)) {
+      return false;
+    }
+
+    let offset = 1;
+    while (this.peekToken(offset).type === TokenType.IDENTIFIER) {
+      offset++;
+      if (this.peekToken(offset).type !== TokenType.COMMA) break;
+      offset++;
+    }
+    return this.peekToken(offset).type === TokenType.RPAREN &&
+      this.peekToken(offset + 1).type === TokenType.FAT_ARROW;
+  }
+
+  private parseArrowFunction(): Expression {
+    const start = this.getCurrentToken();
+    const params: string[] = [];
+
+    if (this.match(TokenType.LPAREN)) {
+      while (!this.check(TokenType.RPAREN)) {
+        params.push(this.expect(TokenType.IDENTIFIER).value);
+        this.match(TokenType.COMMA);
       }
-      
+      this.expect(TokenType.RPAREN);
+    } else {
+      params.push(this.expect(TokenType.IDENTIFIER).value);
+    }
+
+    this.expect(TokenType.FAT_ARROW);
+
+    return {
+      type: 'ArrowFunctionExpression',
+      params,
+      body: this.parseExpression(),
+      line: start.line,
+      column: start.column
+    };
+  }
+
+  // condition ? consequent : alternate
+  private parseConditional(): Expression {
+    const test = this.parseBinary(1);
+
+    if (this.match(TokenType.QUESTION)) {
+      const start = this.previous();
+      const consequent = this.parseExpression();
+      this.expect(TokenType.COLON);
+      const alternate = this.parseExpression();
       return {
-        type: 'LiteralExpression',
-        value,
-        line: this.getCurrentToken().line,
-        column: this.getCurrentToken().column
+        type: 'ConditionalExpression',
+        test,
+        consequent,
+        alternate,
+        line: start.line,
+        column: start.column
       };
     }
 
-    return this.parsePrimary();
+    return test;
   }
 
-  private parsePrimary(): Expression {
-    if (this.match(TokenType.STRING)) {
+  // Precedence climbing over BINARY_PRECEDENCE; all binary operators are left-associative
+  private parseBinary(minPrecedence: number): Expression {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.getCurrentToken();
+      const precedence = BINARY_PRECEDENCE[token.type];
+      if (precedence === undefined || precedence < minPrecedence) {
+        break;
+      }
+
+      this.advance();
+      const right = this.parseBinary(precedence + 1);
+      left = {
+        type: 'BinaryExpression',
+        operator: BINARY_OPERATORS[token.type]!,
+        left,
+        right,
+        line: token.line,
+        column: token.column
+      };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.match(TokenType.BANG, TokenType.MINUS)) {
+      const operator = this.previous();
+      const argument = this.parseUnary();
+
+      // Fold negative number literals so `-0.5` stays a literal
+      if (operator.type === TokenType.MINUS &&
+          argument.type === 'LiteralExpression' && typeof argument.value === 'number') {
+        return { ...argument, value: -argument.value, line: operator.line, column: operator.column };
+      }
+
       return {
-        type: 'LiteralExpression',
-        value: this.previous().value,
-        line: this.previous().line,
-        column: this.previous().column
+        type: 'UnaryExpression',
+        operator: operator.type === TokenType.BANG ? '!' : '-',
+        argument,
+        line: operator.line,
+        column: operator.column
       };
     }
 
+    return this.parsePostfix();
+  }
+
+  // Member access, optional chaining, indexing and calls
+  private parsePostfix(): Expression {
+    let expr = this.parsePrimary();
+
+    while (true) {
+      if (this.match(TokenType.DOT, TokenType.QUESTION_DOT)) {
+        const optional = this.previous().type === TokenType.QUESTION_DOT;
+        const property = this.expectPropertyName();
+
+        if (this.match(TokenType.LPAREN)) {
+          expr = {
+            type: 'FunctionCallExpression',
+            functionName: property.value,
+            arguments: this.parseArguments(),
+            receiver: expr,
+            optional,
+            line: property.line,
+            column: property.column
+          };
+        } else {
+          expr = {
+            type: 'MemberExpression',
+            object: expr,
+            property: property.value,
+            optional,
+            line: property.line,
+            column: property.column
+          };
+        }
+      } else if (this.check(TokenType.LPAREN) && expr.type === 'IdentifierExpression') {
+        this.advance();
+        expr = {
+          type: 'FunctionCallExpression',
+          functionName: expr.name,
+          arguments: this.parseArguments(),
+          line: expr.line,
+          column: expr.column
+        };
+      } else if (this.match(TokenType.LBRACKET)) {
+        const bracket = this.previous();
+        const index = this.parseExpression();
+        this.expect(TokenType.RBRACKET);
+        expr = {
+          type: 'IndexExpression',
+          object: expr,
+          index,
+          line: bracket.line,
+          column: bracket.column
+        };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseArguments(): Expression[] {
+    const args: Expression[] = [];
+
+    while (!this.check(TokenType.RPAREN) && !this.isAtEnd()) {
+      args.push(this.parseExpression());
+
+      if (!this.match(TokenType.COMMA)) {
+        break;
+      }
+    }
+
+    this.expect(TokenType.RPAREN);
+    return args;
+  }
+
+  private parseString(): Expression {
+    const token = this.advance();
+
+    // The lexer splits strings with ${...} interpolations into parts
+    if (token.parts) {
+      return this.parseTemplate(token, token.parts);
+    }
+
+    return {
+      type: 'LiteralExpression',
+      value: token.value,
+      line: token.line,
+      column: token.column
+    };
+  }
+
+  /**
+   * Parse each interpolation of a template string as an expression. Sub-expressions
+   * are lexed at their position in the file, so errors point inside the string.
+   * In code parameters, an interpolation that isn't a DSL expression belongs to
+   * the JavaScript and stays in the text as written.
+   */
+  private parseTemplate(token: Token, parts: TemplatePart[]): TemplateExpression {
+    const quasis: string[] = [];
+    const expressions: Expression[] = [];
+    const sources: string[] = [];
+    let text = '';
+
+    for (const part of parts) {
+      if (part.kind === 'text') {
+        text += part.value;
+        continue;
+      }
+
+      if (part.source.trim() === '' && !this.inCode) {
+        throw new ParseError('Empty interpolation', { ...token, line: part.line, column: part.column });
+      }
+      let expression: Expression;
+      try {
+        expression = new Parser(part.source, part.line, part.column).parseStandaloneExpression();
+      } catch (error) {
+        if (!this.inCode) {
+          throw error;
+        }
+        text += '${' + part.source + '}';
+        continue;
+      }
+      quasis.push(text);
+      expressions.push(expression);
+      sources.push(part.source);
+      text = '';
+    }
+    quasis.push(text);
+
+    return {
+      type: 'TemplateExpression',
+      template: token.value,
+      quasis,
+      expressions,
+      sources,
+      line: token.line,
+      column: token.column
+    };
+  }
+
+  private parsePrimary(): Expression {
+    if (this.check(TokenType.STRING)) {
+      return this.parseString();
+    }
+
     if (this.match(TokenType.NUMBER)) {
       const value = parseFloat(this.previous().value);
       return {
@@ -296,6 +1055,15 @@ export class Parser {
     }
 
     if (this.match(TokenType.IDENTIFIER)) {
+      if (this.previous().value === 'null') {
+        return {
+          type: 'LiteralExpression',
+          value: null,
+          line: this.previous().line,
+          column: this.previous().column
+        };
+      }
+
       return {
         type: 'IdentifierExpression',
         name: this.previous().value,
@@ -304,6 +1072,12 @@ export class Parser {
       };
     }
 
+    if (this.match(TokenType.LPAREN)) {
+      const expr = this.parseExpression();
+      this.expect(TokenType.RPAREN);
+      return expr;
+    }
+
     if (this.match(TokenType.LBRACE)) {
       return this.parseObject();
     }
@@ -316,9 +1090,11 @@ export class Parser {
   }
 
   private parseObject(): ObjectExpression {
+    const start = this.previous(); // '{'
     const properties: { [key: string]: Expression } = {};
     
     while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+      const comments = this.takeComments();
       // Allow both identifiers and string literals as object keys
       let key: string;
       if (this.check(TokenType.IDENTIFIER)) {
@@ -331,28 +1107,40 @@ export class Parser {
       
       this.expect(TokenType.COLON);
       const value = this.parseExpression();
-      properties[key] = value;
       
-      if (!this.match(TokenType.COMMA)) {
-        break;
-      }
+      // Optional comma, as in node bodies
+      this.match(TokenType.COMMA);
+      properties[key] = this.withComments(value, comments);
     }
 
+    const innerComments = this.takeComments();
     this.expect(TokenType.RBRACE);
 
     return {
       type: 'ObjectExpression',
       properties,
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      innerComments,
+      line: start.line,
+      column: start.column
     };
   }
 
   private parseArray(): ArrayExpression {
+    const start = this.previous(); // '['
     const elements: Expression[] = [];
+    // Only the fields list itself takes the shorthand, not lists nested in it
+    const formFields = this.inFormFields;
+    this.inFormFields = false;
     
     while (!this.check(TokenType.RBRACKET) && !this.isAtEnd()) {
-      elements.push(this.parseExpression());
+      const formField = this.check(TokenType.IDENTIFIER) && this.peekToken().type === TokenType.STRING;
+      if (formField && !formFields) {
+        throw new ParseError(
+          `Unexpected string after '${this.getCurrentToken().value}'; the form field shorthand is only for the fields of a trigger.form node`,
+          this.peekToken()
+        );
+      }
+      elements.push(formField ? this.parseFormField() : this.parseExpression());
       
       if (!this.match(TokenType.COMMA)) {
         break;
@@ -364,11 +1152,83 @@ export class Parser {
     return {
       type: 'ArrayExpression',
       elements,
-      line: this.getCurrentToken().line,
-      column: this.getCurrentToken().column
+      line: start.line,
+      column: start.column
+    };
+  }
+
+  /**
+   * A form field in list shorthand, `dropdown "Plan" ["free", "pro"] required`:
+   * the type, the label, then choices and the modifiers `required`, `multiple`
+   * and `placeholder "..."` in any order. It stands for the object
+   * { type, label, options, required, multiple, placeholder }.
+   */
+  private parseFormField(): ObjectExpression {
+    const typeToken = this.advance();
+    const properties: { [key: string]: Expression } = {
+      type: { type: 'LiteralExpression', value: typeToken.value, line: typeToken.line, column: typeToken.column },
+      label: this.parseString()
+    };
+
+    while (!this.check(TokenType.COMMA) && !this.check(TokenType.RBRACKET) && !this.isAtEnd()) {
+      if (this.match(TokenType.LBRACKET)) {
+        properties.options = this.parseArray();
+        continue;
+      }
+      const modifier = this.getCurrentToken();
+      if (this.checkIdentifier('required') || this.checkIdentifier('multiple')) {
+        this.advance();
+        properties[modifier.value] = { type: 'LiteralExpression', value: true, line: modifier.line, column: modifier.column };
+      } else if (this.checkIdentifier('placeholder')) {
+        this.advance();
+        properties.placeholder = this.parsePrimary();
+      } else {
+        throw new ParseError(
+          `Unexpected '${modifier.value}' in form field, expected a list of choices, required, multiple or placeholder`,
+          modifier
+        );
+      }
+    }
+
+    return {
+      type: 'ObjectExpression',
+      properties,
+      formField: true,
+      line: typeToken.line,
+      column: typeToken.column
     };
   }
 
+  // Comments that appear before the current token
+  private takeComments(): string[] | undefined {
+    const current = this.getCurrentToken();
+    const taken: string[] = [];
+    while (this.commentIndex < this.comments.length &&
+           this.isBefore(this.comments[this.commentIndex], current)) {
+      taken.push(this.comments[this.commentIndex++].value);
+    }
+    return taken.length > 0 ? taken : undefined;
+  }
+
+  // Attach leading comments, plus a comment on the same line as the node's last token
+  private withComments<T extends ASTNode>(node: T, leading: string[] | undefined): T {
+    if (leading) {
+      node.leadingComments = leading;
+    }
+
+    const comment = this.comments[this.commentIndex];
+    if (comment && this.current > 0 && comment.line === this.previous().line &&
+        this.isBefore(comment, this.getCurrentToken())) {
+      node.trailingComment = comment.value;
+      this.commentIndex++;
+    }
+    return node;
+  }
+
+  private isBefore(a: Token, b: Token): boolean {
+    return a.line < b.line || (a.line === b.line && a.column < b.column);
+  }
+
   // Utility methods
   private match(...types: TokenType[]): boolean {
     for (const type of types) {
@@ -380,6 +1240,24 @@ export class Parser {
     return false;
   }
 
+  // Property names may be any word, including keywords (item.node, flags.true)
+  private expectPropertyName(): Token {
+    const token = this.getCurrentToken();
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(token.value)) {
+      return this.advance();
+    }
+    throw new ParseError(`Expected property name`, token);
+  }
+
+  private checkIdentifier(value: string): boolean {
+    return this.check(TokenType.IDENTIFIER) && this.getCurrentToken().value === value;
+  }
+
+  private peekToken(offset: number = 1): Token {
+    const index = Math.min(this.current + offset, this.tokens.length - 1);
+    return this.tokens[index];
+  }
+
   private check(type: TokenType): boolean {
     if (this.isAtEnd()) return false;
     return this.getCurrentToken().type === type;
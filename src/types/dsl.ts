@@ -7,23 +7,34 @@ export interface ASTNode {
   type: string;
   line?: number;
   column?: number;
+  // Comments, as written (with // or /* */), kept for the formatter
+  leadingComments?: string[]; // On the lines before the node
+  trailingComment?: string;   // After the node, on its last line
+  innerComments?: string[];   // Before the closing brace of a block, after its last child
 }
 
 // Parameter types
 export type ParameterType = 'string' | 'number' | 'boolean' | 'array' | 'object';
 
+export const PARAMETER_TYPES: ParameterType[] = ['string', 'number', 'boolean', 'array', 'object'];
+
 export interface ParameterDeclaration extends ASTNode {
   type: 'ParameterDeclaration';
   name: string;
   paramType: ParameterType;
+  nullable?: boolean; // string?: null is a valid value, and the default when none is given
   defaultValue?: any;
   required: boolean;
-  validation?: {
-    min?: number;
-    max?: number;
-    pattern?: string;
-    allowed?: string[];
-  };
+  description?: string;
+  validation?: ParameterValidation;
+}
+
+// Rules from the param block form: param count number { min: 1 max: 100 }
+export interface ParameterValidation {
+  min?: number;          // Numbers only
+  max?: number;
+  pattern?: string;      // Strings only, a regular expression the value must match
+  allowed?: (string | number | boolean)[];
 }
 
 // Variable declaration
@@ -40,11 +51,17 @@ export type Expression =
   | FunctionCallExpression 
   | TemplateExpression
   | ObjectExpression
-  | ArrayExpression;
+  | ArrayExpression
+  | BinaryExpression
+  | UnaryExpression
+  | ConditionalExpression
+  | MemberExpression
+  | IndexExpression
+  | ArrowFunctionExpression;
 
 export interface LiteralExpression extends ASTNode {
   type: 'LiteralExpression';
-  value: string | number | boolean;
+  value: string | number | boolean | null;
 }
 
 export interface IdentifierExpression extends ASTNode {
@@ -52,21 +69,66 @@ export interface IdentifierExpression extends ASTNode {
   name: string;
 }
 
+// Call of a built-in (now(), env()) or, with a receiver, a method (list.join(","))
 export interface FunctionCallExpression extends ASTNode {
   type: 'FunctionCallExpression';
   functionName: string;
   arguments: Expression[];
+  receiver?: Expression;
+  optional?: boolean; // receiver?.method()
+}
+
+export type BinaryOperator =
+  | '||' | '&&'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%';
+
+export interface BinaryExpression extends ASTNode {
+  type: 'BinaryExpression';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends ASTNode {
+  type: 'UnaryExpression';
+  operator: '!' | '-';
+  argument: Expression;
+}
+
+export interface ConditionalExpression extends ASTNode {
+  type: 'ConditionalExpression';
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+export interface MemberExpression extends ASTNode {
+  type: 'MemberExpression';
+  object: Expression;
+  property: string;
+  optional?: boolean; // object?.property
+}
+
+export interface IndexExpression extends ASTNode {
+  type: 'IndexExpression';
+  object: Expression;
+  index: Expression;
 }
 
+// "Hello ${name}!" -> quasis ["Hello ", "!"], expressions [name]
 export interface TemplateExpression extends ASTNode {
   type: 'TemplateExpression';
   template: string;
+  quasis: string[];        // Literal chunks, one more than expressions
   expressions: Expression[];
+  sources: string[];       // Source text of each interpolation
 }
 
 export interface ObjectExpression extends ASTNode {
   type: 'ObjectExpression';
   properties: { [key: string]: Expression };
+  formField?: boolean;     // Written as a form field: email "Email" required
 }
 
 export interface ArrayExpression extends ASTNode {
@@ -74,13 +136,31 @@ export interface ArrayExpression extends ASTNode {
   elements: Expression[];
 }
 
+// (item) => item.value, for list methods such as filter() and map()
+export interface ArrowFunctionExpression extends ASTNode {
+  type: 'ArrowFunctionExpression';
+  params: string[];
+  body: Expression;
+}
+
 // Node declaration
 export interface NodeDeclaration extends ASTNode {
   type: 'NodeDeclaration';
   name: string;
   nodeType: string;
   parameters: { [key: string]: Expression };
+  settings: { [key: string]: Expression }; // Reserved keys (NODE_SETTINGS), set on the n8n node itself
   position?: [number, number];
+  id?: string;      // @id("..."): the n8n node id, kept when the node is renamed
+  flow?: FlowBlock; // The flow block that declared it
+}
+
+// credential gmailMain "gmailOAuth2" { id: "...", name: "..." }: a credential stored in n8n
+export interface CredentialDeclaration extends ASTNode {
+  type: 'CredentialDeclaration';
+  name: string;
+  credentialType: string; // n8n credential type, the key of the node's credentials object
+  fields: { [key: string]: Expression }; // id and name of the credential in n8n
 }
 
 // Module declaration
@@ -91,29 +171,100 @@ export interface ModuleDeclaration extends ASTNode {
   parameters: { [key: string]: Expression };
 }
 
-// Connection declaration
+// A node in a connect statement, with its port (output for the first step, input after)
+export interface ConnectionEndpoint {
+  node: string;
+  port?: string;
+  line?: number;
+  column?: number;
+}
+
+// `connect a -> [b, c] -> d` as written: each step is a list of endpoints
+export interface ConnectionStatement {
+  steps: ConnectionEndpoint[][];
+}
+
+// Connection declaration; a connect statement expands into one per edge
 export interface ConnectionDeclaration extends ASTNode {
   type: 'ConnectionDeclaration';
+  statement?: ConnectionStatement; // Shared by the connections of one statement
+  flow?: FlowBlock;                // Wired up by a flow block
+  fanIn?: number;                  // Position of the source in `connect [a, b] -> target`
   source: {
     node: string;
     output?: string;
+    line?: number;   // Position of the node name
+    column?: number;
   };
   target: {
     node: string;
     input?: string;
+    line?: number;
+    column?: number;
   };
 }
 
+/**
+ * flow { a "trigger.manual" {} -> b "http.request" {...} }: nodes declared in
+ * sequence and connected in that order. The parser lowers it into node and
+ * connection declarations; the block itself is kept for the formatter.
+ */
+export interface FlowBlock extends ASTNode {
+  type: 'FlowBlock';
+  pipelines: FlowElement[][];
+}
+
+export interface FlowElement {
+  node?: NodeDeclaration;         // Declared in the flow
+  reference?: ConnectionEndpoint; // A node declared elsewhere, with an optional port
+  branches?: FlowBranch[];        // check "flow.if" {...} true { ... } false { ... }
+}
+
+export interface FlowBranch extends ASTNode {
+  port: string;
+  pipelines: FlowElement[][];
+}
+
+// Module output declaration (output name = node.output[.port|.field])
+export interface OutputDeclaration extends ASTNode {
+  type: 'OutputDeclaration';
+  name: string;
+  node: string;
+  path: string[];
+}
+
+// environment "production" { apiUrl = "..." }: param and var values for one target
+export interface EnvironmentDeclaration extends ASTNode {
+  type: 'EnvironmentDeclaration';
+  name: string;
+  overrides: { [name: string]: Expression };
+  keyPositions: { [name: string]: { line: number; column: number } }; // Where each name is written
+}
+
 // Workflow declaration
 export interface WorkflowDeclaration extends ASTNode {
   type: 'WorkflowDeclaration';
   name: string;
   parameters: ParameterDeclaration[];
   variables: VariableDeclaration[];
+  environments: EnvironmentDeclaration[];
+  credentials: CredentialDeclaration[];
   nodes: (NodeDeclaration | ModuleDeclaration)[];
   connections: ConnectionDeclaration[];
 }
 
+// Module definition (contents of a file referenced by a module declaration)
+export interface ModuleDefinition extends ASTNode {
+  type: 'ModuleDefinition';
+  name?: string;
+  parameters: ParameterDeclaration[];
+  variables: VariableDeclaration[];
+  credentials: CredentialDeclaration[];
+  nodes: (NodeDeclaration | ModuleDeclaration)[];
+  connections: ConnectionDeclaration[];
+  outputs: OutputDeclaration[];
+}
+
 // Root AST
 export interface Program extends ASTNode {
   type: 'Program';
@@ -135,6 +286,9 @@ export const DSL_TO_N8N_NODE_TYPES: Record<string, string> = {
   'flow.switch': 'n8n-nodes-base.switch',
   'flow.splitOut': 'n8n-nodes-base.splitOut',
   'flow.aggregate': 'n8n-nodes-base.aggregate',
+  'flow.splitInBatches': 'n8n-nodes-base.splitInBatches',
+  'flow.merge': 'n8n-nodes-base.merge',
+  'flow.respond': 'n8n-nodes-base.respondToWebhook',
   
   // HTTP and integrations
   'http.request': 'n8n-nodes-base.httpRequest',
@@ -142,11 +296,66 @@ export const DSL_TO_N8N_NODE_TYPES: Record<string, string> = {
   'integration.slack': 'n8n-nodes-base.slack',
   'integration.sheets': 'n8n-nodes-base.googleSheets',
   
+  // LangChain: root nodes, and the sub-nodes connected to them
+  'trigger.chat': '@n8n/n8n-nodes-langchain.chatTrigger',
+  'ai.agent': '@n8n/n8n-nodes-langchain.agent',
+  'ai.chain': '@n8n/n8n-nodes-langchain.chainLlm',
+  'ai.chatOpenAi': '@n8n/n8n-nodes-langchain.lmChatOpenAi',
+  'ai.chatAnthropic': '@n8n/n8n-nodes-langchain.lmChatAnthropic',
+  'ai.chatAzureOpenAi': '@n8n/n8n-nodes-langchain.lmChatAzureOpenAi',
+  'ai.memory': '@n8n/n8n-nodes-langchain.memoryBufferWindow',
+  'ai.toolCode': '@n8n/n8n-nodes-langchain.toolCode',
+  'ai.toolHttp': '@n8n/n8n-nodes-langchain.toolHttpRequest',
+  'ai.outputParser': '@n8n/n8n-nodes-langchain.outputParserStructured',
+  
   // Utilities
   'util.note': 'n8n-nodes-base.stickyNote',
   'util.noop': 'n8n-nodes-base.noOp'
 };
 
+export interface NodeSetting {
+  type: 'boolean' | 'number' | 'string' | 'position' | 'credentials';
+  values?: string[]; // Allowed values of a string setting
+  description: string;
+}
+
+// Keys in a node body that configure the n8n node rather than its parameters.
+// A quoted key ("position") is always a parameter.
+export const NODE_SETTINGS: Record<string, NodeSetting> = {
+  position: {
+    type: 'position',
+    description: 'Canvas position as [x, y]; the auto-layout places the other nodes around it'
+  },
+  credentials: {
+    type: 'credentials',
+    description: 'Credential declarations the node uses: credentials: gmailMain, or a list'
+  },
+  disabled: { type: 'boolean', description: 'Skip the node when the workflow runs' },
+  notes: { type: 'string', description: 'Notes shown in the node settings' },
+  notesInFlow: { type: 'boolean', description: 'Show the notes under the node on the canvas' },
+  retryOnFail: { type: 'boolean', description: 'Run the node again when it fails' },
+  maxTries: { type: 'number', description: 'Attempts when retryOnFail is set (n8n default 3)' },
+  waitBetweenTries: { type: 'number', description: 'Milliseconds between attempts (n8n default 1000)' },
+  onError: {
+    type: 'string',
+    values: ['stopWorkflow', 'continueRegularOutput', 'continueErrorOutput'],
+    description: 'What happens when the node fails: stop, pass the error on, or send it to the error output'
+  },
+  continueOnFail: { type: 'boolean', description: 'Shorthand for onError: "continueRegularOutput"' },
+  executeOnce: { type: 'boolean', description: 'Run once with the first input item only' },
+  alwaysOutputData: { type: 'boolean', description: 'Output an empty item when the node returns nothing' }
+};
+
+export function isNodeSetting(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(NODE_SETTINGS, key);
+}
+
+// Full n8n type names (n8n-nodes-base.airtable, @n8n/n8n-nodes-langchain.agent) may be
+// used directly for nodes without a DSL type; their parameters are passed through as-is
+export function isN8nNodeType(type: string): boolean {
+  return /^(@[\w-]+\/)?n8n-nodes-[\w-]+\.\w+$/.test(type);
+}
+
 // Default type versions for nodes
 export const DEFAULT_TYPE_VERSIONS: Record<string, number> = {
   'n8n-nodes-base.manualTrigger': 1,
@@ -156,10 +365,26 @@ export const DEFAULT_TYPE_VERSIONS: Record<string, number> = {
   'n8n-nodes-base.set': 3.4,
   'n8n-nodes-base.code': 2,
   'n8n-nodes-base.if': 2.2,
-  'n8n-nodes-base.switch': 1,
+  'n8n-nodes-base.switch': 3.2,
+  'n8n-nodes-base.splitOut': 1,
+  'n8n-nodes-base.aggregate': 1,
+  'n8n-nodes-base.splitInBatches': 3,
+  'n8n-nodes-base.merge': 3,
+  'n8n-nodes-base.respondToWebhook': 1.1,
   'n8n-nodes-base.httpRequest': 4.2,
   'n8n-nodes-base.gmail': 2.1,
   'n8n-nodes-base.googleSheets': 4.6,
+  'n8n-nodes-base.slack': 2.3,
   'n8n-nodes-base.stickyNote': 1,
+  '@n8n/n8n-nodes-langchain.chatTrigger': 1.1,
+  '@n8n/n8n-nodes-langchain.agent': 1.7,
+  '@n8n/n8n-nodes-langchain.chainLlm': 1.5,
+  '@n8n/n8n-nodes-langchain.lmChatOpenAi': 1.2,
+  '@n8n/n8n-nodes-langchain.lmChatAnthropic': 1.3,
+  '@n8n/n8n-nodes-langchain.lmChatAzureOpenAi': 1,
+  '@n8n/n8n-nodes-langchain.memoryBufferWindow': 1.3,
+  '@n8n/n8n-nodes-langchain.toolCode': 1.1,
+  '@n8n/n8n-nodes-langchain.toolHttpRequest': 1.1,
+  '@n8n/n8n-nodes-langchain.outputParserStructured': 1.2,
   'n8n-nodes-base.noOp': 1
 };
\ No newline at end of file
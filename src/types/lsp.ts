@@ -0,0 +1,72 @@
+/**
+ * The subset of Language Server Protocol types used by the language server.
+ * Positions are zero-based, as in the protocol; AST positions are one-based.
+ */
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4
+} as const;
+
+export interface Diagnostic {
+  range: Range;
+  severity: number;
+  message: string;
+  source?: string;
+}
+
+export const CompletionItemKind = {
+  Function: 3,
+  Field: 5,
+  Variable: 6,
+  Class: 7,
+  Module: 9,
+  Property: 10,
+  Value: 12,
+  EnumMember: 20,
+  Constant: 21
+} as const;
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface CompletionItem {
+  label: string;
+  kind?: number;
+  detail?: string;
+  documentation?: MarkupContent;
+  textEdit?: TextEdit;
+}
+
+export interface MarkupContent {
+  kind: 'markdown' | 'plaintext';
+  value: string;
+}
+
+export interface Hover {
+  contents: MarkupContent;
+  range?: Range;
+}
+
+export interface WorkspaceEdit {
+  changes: { [uri: string]: TextEdit[] };
+}
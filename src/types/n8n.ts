@@ -6,13 +6,13 @@
 // Base types
 export type NodeId = string;
 export type NodeType = string;
-export type ConnectionType = 'main' | 'ai_languageModel' | 'ai_outputParser';
+export type ConnectionType = 'main' | 'ai_languageModel' | 'ai_memory' | 'ai_tool' | 'ai_outputParser';
 
 // Resource Locator pattern used throughout n8n
 export interface ResourceLocator {
   __rl: true;
   value: string | number;
-  mode: 'url' | 'list' | 'id' | 'name';
+  mode: 'url' | 'list' | 'id' | 'name' | 'username';
   cachedResultUrl?: string;
   cachedResultName?: string;
 }
@@ -61,6 +61,12 @@ export interface N8nNode extends BaseNode {
   executeOnce?: boolean;   // Optional: Execute only once flag
   notesInFlow?: boolean;   // Optional: Show notes in workflow view
   notes?: string;          // Optional: Node documentation
+  retryOnFail?: boolean;   // Optional: Retry the node when it fails
+  maxTries?: number;       // Optional: Attempts when retrying
+  waitBetweenTries?: number; // Optional: Milliseconds between attempts
+  onError?: 'stopWorkflow' | 'continueRegularOutput' | 'continueErrorOutput'; // Optional: Failure handling
+  continueOnFail?: boolean; // Optional: Legacy form of onError: 'continueRegularOutput'
+  alwaysOutputData?: boolean; // Optional: Output an empty item when there is no data
 }
 
 // Workflow metadata
@@ -163,6 +169,26 @@ export interface GoogleSheetsParameters {
     attemptToConvertTypes?: boolean;
     convertFieldsToString?: boolean;
   };
+  filtersUI?: {
+    values: Array<{ lookupColumn: string; lookupValue: any }>;
+  };
+  options?: Record<string, any>;
+}
+
+export interface SlackParameters {
+  resource?: 'message' | 'reaction' | 'file';
+  operation?: string;
+  select?: 'channel' | 'user';
+  channelId?: ResourceLocator;
+  user?: ResourceLocator;
+  messageType?: 'text' | 'block' | 'attachment';
+  text?: string;
+  blocksUi?: string;
+  ts?: string;
+  timestamp?: string;
+  name?: string;
+  otherOptions?: Record<string, any>;
+  updateFields?: Record<string, any>;
   options?: Record<string, any>;
 }
 
@@ -182,7 +208,7 @@ export interface FormTriggerParameters {
   formDescription?: string;
   formFields: {
     values: Array<{
-      fieldType: 'text' | 'textarea' | 'number' | 'dropdown' | 'checkbox';
+      fieldType?: 'text' | 'textarea' | 'email' | 'number' | 'password' | 'date' | 'dropdown' | 'file';
       fieldLabel: string;
       placeholder?: string;
       requiredField?: boolean;
@@ -191,10 +217,13 @@ export interface FormTriggerParameters {
           option: string;
         }>;
       };
+      multiselect?: boolean;
+      multipleFiles?: boolean;
     }>;
   };
   responseMode?: string;
   options?: {
+    path?: string;
     ignoreBots?: boolean;
     buttonLabel?: string;
     appendAttribution?: boolean;
@@ -202,11 +231,45 @@ export interface FormTriggerParameters {
       values: {
         redirectUrl?: string;
         respondWith?: string;
+        formSubmittedText?: string;
       };
     };
   };
 }
 
+export interface WebhookParameters {
+  httpMethod?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+  path: string;
+  authentication?: 'none' | 'basicAuth' | 'headerAuth' | 'jwtAuth';
+  responseMode?: 'onReceived' | 'lastNode' | 'responseNode';
+  responseCode?: number;
+  responseData?: 'allEntries' | 'firstEntryJson' | 'firstEntryBinary' | 'noData';
+  options: {
+    binaryPropertyName?: string;
+    rawBody?: boolean;
+    allowedOrigins?: string;
+    ipWhitelist?: string;
+    ignoreBots?: boolean;
+    responseHeaders?: {
+      entries: Array<{ name: string; value: string }>;
+    };
+  };
+}
+
+export interface RespondToWebhookParameters {
+  respondWith?: 'firstIncomingItem' | 'allIncomingItems' | 'json' | 'text' | 'binary' | 'redirect' | 'noData' | 'jwt';
+  responseBody?: string;
+  redirectURL?: string;
+  responseDataSource?: 'automatically' | 'set';
+  inputFieldName?: string;
+  options: {
+    responseCode?: number;
+    responseHeaders?: {
+      entries: Array<{ name: string; value: string }>;
+    };
+  };
+}
+
 // Utility types for common node categories
 export type TriggerNodeType = 
   | 'n8n-nodes-base.scheduleTrigger'
@@ -221,17 +284,27 @@ export type CoreNodeType =
   | 'n8n-nodes-base.if'
   | 'n8n-nodes-base.splitOut'  
   | 'n8n-nodes-base.aggregate'
-  | 'n8n-nodes-base.splitInBatches';
+  | 'n8n-nodes-base.splitInBatches'
+  | 'n8n-nodes-base.merge'
+  | 'n8n-nodes-base.respondToWebhook';
 
 export type ServiceNodeType =
   | 'n8n-nodes-base.googleSheets'
   | 'n8n-nodes-base.gmail'
+  | 'n8n-nodes-base.slack'
   | 'n8n-nodes-base.googleCalendar'
   | 'n8n-nodes-base.httpRequest';
 
 export type LangChainNodeType =
+  | '@n8n/n8n-nodes-langchain.agent'
   | '@n8n/n8n-nodes-langchain.chainLlm'
+  | '@n8n/n8n-nodes-langchain.chatTrigger'
+  | '@n8n/n8n-nodes-langchain.lmChatOpenAi'
+  | '@n8n/n8n-nodes-langchain.lmChatAnthropic'
   | '@n8n/n8n-nodes-langchain.lmChatAzureOpenAi'
+  | '@n8n/n8n-nodes-langchain.memoryBufferWindow'
+  | '@n8n/n8n-nodes-langchain.toolCode'
+  | '@n8n/n8n-nodes-langchain.toolHttpRequest'
   | '@n8n/n8n-nodes-langchain.outputParserStructured';
 
 export type UtilityNodeType =
@@ -245,7 +318,7 @@ export function isTriggerNode(type: NodeType): type is TriggerNodeType {
 }
 
 export function isServiceNode(type: NodeType): type is ServiceNodeType {
-  return ['googleSheets', 'gmail', 'googleCalendar', 'httpRequest'].some(service => 
+  return ['googleSheets', 'gmail', 'slack', 'googleCalendar', 'httpRequest'].some(service => 
     type.includes(service)
   );
 }
@@ -254,6 +327,11 @@ export function isLangChainNode(type: NodeType): type is LangChainNodeType {
   return type.startsWith('@n8n/n8n-nodes-langchain');
 }
 
+// Nodes n8n registers a webhook for; each has a webhookId
+export function hasWebhook(type: NodeType): boolean {
+  return ['n8n-nodes-base.webhook', 'n8n-nodes-base.formTrigger', '@n8n/n8n-nodes-langchain.chatTrigger'].includes(type);
+}
+
 // Helper functions for workflow manipulation
 export function createNode(
   type: NodeType, 
@@ -0,0 +1,55 @@
+/**
+ * Stable ids: UUIDs derived from names, so the same source compiles to the same JSON
+ */
+
+import { createHash } from 'crypto';
+
+// Namespace of the ids this compiler derives
+const ID_NAMESPACE = '94e8a071-25d9-4f83-90ad-d7ef32b0a649';
+
+/**
+ * A version 5 UUID (RFC 4122): the SHA-1 of the namespace and the name, with
+ * the version and variant bits set.
+ */
+export function uuidV5(name: string, namespace: string = ID_NAMESPACE): string {
+  const bytes = createHash('sha1')
+    .update(Buffer.from(namespace.replace(/-/g, ''), 'hex'))
+    .update(name, 'utf8')
+    .digest()
+    .subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function deriveNodeId(workflowName: string, nodeName: string): string {
+  return uuidV5(`node/${workflowName}/${nodeName}`);
+}
+
+// Webhook ids follow the node id, so a node keeps its webhook through renames
+export function deriveWebhookId(nodeId: string): string {
+  return uuidV5(`webhook/${nodeId}`);
+}
+
+// n8n instance ids are 64 hex digits
+export function deriveInstanceId(workflowName: string): string {
+  return createHash('sha256').update(`instance/${workflowName}`).digest('hex');
+}
+
+/**
+ * Ids for the conditions or assignments of one node, seeded from the node id.
+ * An id follows from the seed, the item's name and how many items of that
+ * name came before, so editing one item's value leaves every id alone.
+ */
+export class IdSequence {
+  private counts = new Map<string, number>();
+
+  constructor(private seed: string) {}
+
+  next(name: string = ''): string {
+    const count = this.counts.get(name) ?? 0;
+    this.counts.set(name, count + 1);
+    return uuidV5(`${this.seed}/${name}#${count}`);
+  }
+}
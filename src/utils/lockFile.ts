@@ -0,0 +1,46 @@
+/**
+ * Lock files (`workflow.n8n.lock`): the node ids of the last compile, so they
+ * survive renames of the workflow and of its nodes
+ */
+
+import * as fs from 'fs';
+import { N8nWorkflow } from '../types/n8n';
+
+export interface LockFile {
+  version: 1;
+  nodes: Record<string, { id: string; type: string }>; // By node name
+}
+
+export function lockFilePath(sourcePath: string): string {
+  return `${sourcePath}.lock`;
+}
+
+// Undefined when there is no lock file yet
+export function readLockFile(file: string): LockFile | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  let lock: any;
+  try {
+    lock = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid JSON in lock file '${file}': ${(error as Error).message}`);
+  }
+  if (lock?.version !== 1 || typeof lock.nodes !== 'object' || lock.nodes === null) {
+    throw new Error(`Lock file '${file}' is not a version 1 lock file`);
+  }
+  return lock as LockFile;
+}
+
+export function createLockFile(workflow: N8nWorkflow): LockFile {
+  const nodes: LockFile['nodes'] = {};
+  for (const node of workflow.nodes) {
+    nodes[node.name] = { id: node.id, type: node.type };
+  }
+  return { version: 1, nodes };
+}
+
+export function writeLockFile(file: string, lock: LockFile): void {
+  fs.writeFileSync(file, JSON.stringify(lock, null, 2) + '\n');
+}
@@ -0,0 +1,142 @@
+/**
+ * Parameter values supplied when compiling: `--param key=value` and params files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParameterDeclaration } from '../types/dsl';
+import { checkParameterValue } from './validation';
+
+/**
+ * Read `key=value` assignments. Values stay strings; they are coerced once the
+ * declared type of the param is known.
+ */
+export function parseParamAssignments(assignments: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid --param '${assignment}', expected key=value`);
+    }
+    values[assignment.slice(0, separator).trim()] = assignment.slice(separator + 1);
+  }
+  return values;
+}
+
+/**
+ * Read a params file: a JSON object, or a YAML mapping of names to values
+ * (.yaml/.yml). YAML values may be scalars or JSON-style lists and objects.
+ */
+export function readParamsFile(file: string): Record<string, unknown> {
+  const source = fs.readFileSync(file, 'utf-8');
+  const extension = path.extname(file).toLowerCase();
+
+  let values: unknown;
+  if (extension === '.json') {
+    try {
+      values = JSON.parse(source);
+    } catch (error) {
+      throw new Error(`Invalid JSON in params file '${file}': ${(error as Error).message}`);
+    }
+  } else if (extension === '.yaml' || extension === '.yml') {
+    values = parseYamlMapping(source, file);
+  } else {
+    throw new Error(`Params file '${file}' must be .json, .yaml or .yml`);
+  }
+
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    throw new Error(`Params file '${file}' must contain an object of parameter values`);
+  }
+  return values as Record<string, unknown>;
+}
+
+// A flat `name: value` mapping, which is all a params file needs
+function parseYamlMapping(source: string, file: string): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  source.split(/\r?\n/).forEach((text, index) => {
+    const line = stripYamlComment(text);
+    if (line.trim() === '' || line.trim() === '---') return;
+
+    const match = /^([A-Za-z_][\w-]*|"[^"]*"|'[^']*')\s*:(?:\s+(.*))?$/.exec(line.trimEnd());
+    if (!match || /^\s/.test(line)) {
+      throw new Error(`Params file '${file}', line ${index + 1}: expected 'name: value'`);
+    }
+    const key = /^["']/.test(match[1]) ? match[1].slice(1, -1) : match[1];
+    values[key] = parseYamlScalar(match[2] ?? '', file, index + 1);
+  });
+  return values;
+}
+
+function stripYamlComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseYamlScalar(text: string, file: string, line: number): unknown {
+  const value = text.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new Error(`Params file '${file}', line ${line}: unterminated string`);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^["[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`Params file '${file}', line ${line}: invalid value ${value}`);
+    }
+  }
+  return value;
+}
+
+/**
+ * Convert a supplied value to the declared type of its param: text from the
+ * command line (or a params file) is read as a number, boolean or JSON as the
+ * type needs, and `null` is accepted for nullable params. Returns the value,
+ * or the problem with it.
+ */
+export function coerceParameterValue(
+  param: ParameterDeclaration,
+  value: unknown
+): { value: unknown } | { problem: string } {
+  let coerced = value;
+  if (typeof value === 'string' && param.paramType !== 'string') {
+    const text = value.trim();
+    const invalid = (expected: string) => ({ problem: `Parameter '${param.name}' must be ${expected}, got '${value}'` });
+    if (param.nullable && text === 'null') {
+      coerced = null;
+    } else if (param.paramType === 'number') {
+      if (text === '' || !Number.isFinite(Number(text))) return invalid('a number');
+      coerced = Number(text);
+    } else if (param.paramType === 'boolean') {
+      if (text !== 'true' && text !== 'false') return invalid('true or false');
+      coerced = text === 'true';
+    } else {
+      try {
+        coerced = JSON.parse(text);
+      } catch {
+        return invalid(`${param.paramType === 'array' ? 'an array' : 'an object'} in JSON`);
+      }
+    }
+  } else if (value === 'null' && param.nullable) {
+    coerced = null;
+  }
+
+  const problem = checkParameterValue(param, coerced);
+  return problem ? { problem } : { value: coerced };
+}
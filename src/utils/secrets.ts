@@ -0,0 +1,50 @@
+/**
+ * Sensitive values: which names look like secrets, and masking them in output
+ */
+
+import { isN8nExpression } from '../generator/expressionTranslator';
+
+export const REDACTED = '********';
+
+// Names whose values are secrets: password, apiKey, Authorization, STRIPE_SECRET_KEY, ...
+const SECRET_NAME = /(passw(or)?d|secret|token|authorization|(api|access|private|secret)[-_]?key)$/i;
+
+export function isSecretName(name: string): boolean {
+  return SECRET_NAME.test(name);
+}
+
+// Replace every occurrence of the values in a text, longest first
+export function redactText(text: string, values: Iterable<string>): string {
+  let result = text;
+  for (const value of [...values].sort((a, b) => b.length - a.length)) {
+    if (value !== '') {
+      result = result.split(value).join(REDACTED);
+    }
+  }
+  return result;
+}
+
+/**
+ * Mask secrets in generated node parameters: strings containing one of the
+ * values, and literal text under secret-looking keys or in
+ * `{ name: "Authorization", value }` pairs. n8n expressions are kept, as they
+ * only say where the value comes from.
+ */
+export function redactParameters(value: any, values: Iterable<string>, key?: string): any {
+  if (typeof value === 'string') {
+    if (key !== undefined && isSecretName(key) && value !== '' && !isN8nExpression(value)) {
+      return REDACTED;
+    }
+    return redactText(value, values);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactParameters(item, values, key));
+  }
+  if (value !== null && typeof value === 'object') {
+    const pairName = typeof value.name === 'string' && isSecretName(value.name) ? value.name : undefined;
+    return Object.fromEntries(Object.entries(value).map(([property, item]) =>
+      [property, redactParameters(item, values, property === 'value' && pairName ? pairName : property)]
+    ));
+  }
+  return value;
+}
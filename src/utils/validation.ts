@@ -2,8 +2,15 @@
  * Validation utilities for DSL and n8n workflows
  */
 
-import { Program, WorkflowDeclaration, NodeDeclaration, ConnectionDeclaration } from '../types/dsl';
-import { N8nWorkflow } from '../types/n8n';
+import {
+  Program, WorkflowDeclaration, Expression, NodeDeclaration, ParameterDeclaration, ParameterType,
+  VariableDeclaration, EnvironmentDeclaration, CredentialDeclaration, ModuleDeclaration, NODE_SETTINGS,
+  DSL_TO_N8N_NODE_TYPES
+} from '../types/dsl';
+import { N8nWorkflow, N8nNode, ConnectionType } from '../types/n8n';
+import { forEachIdentifier } from '../generator/expressionTranslator';
+import { getNodePorts, getTypePorts } from '../generator/ports';
+import { isSecretName } from './secrets';
 
 export interface ValidationError {
   message: string;
@@ -12,6 +19,206 @@ export interface ValidationError {
   type: 'error' | 'warning';
 }
 
+/**
+ * Check the value of a node setting against its declared type. Returns the
+ * problem, or undefined when the value is acceptable.
+ */
+export function checkNodeSetting(key: string, value: unknown): string | undefined {
+  const setting = NODE_SETTINGS[key];
+  if (!setting) {
+    return undefined;
+  }
+
+  switch (setting.type) {
+    case 'credentials':
+      // Only identifiers are valid, and the AST has to tell those apart
+      return `${key} must name credential declarations, as in credentials: gmailMain`;
+    case 'position':
+      if (!Array.isArray(value) || value.length !== 2 || value.some(part => typeof part !== 'number')) {
+        return `${key} must be [x, y] with two numbers`;
+      }
+      return undefined;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        return `${key} must be a non-negative number`;
+      }
+      return undefined;
+    default:
+      if (typeof value !== setting.type) {
+        return `${key} must be a ${setting.type}`;
+      }
+      if (setting.values && !setting.values.includes(value as string)) {
+        return `${key} must be one of ${setting.values.map(allowed => `'${allowed}'`).join(', ')}`;
+      }
+      return undefined;
+  }
+}
+
+// The type of a value as far as the source tells; null is its own type
+interface StaticType {
+  type: ParameterType | 'null';
+  nullable?: boolean;
+}
+
+function valueType(value: unknown): ParameterType | 'null' | undefined {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : undefined;
+}
+
+function describeType(type: string): string {
+  return type === 'null' ? 'null' : type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`;
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+}
+
+/**
+ * Check a value for a param against its declared type and validation rules.
+ * Returns the problem, or undefined when the value is acceptable.
+ */
+export function checkParameterValue(param: ParameterDeclaration, value: unknown): string | undefined {
+  const type = valueType(value);
+  if (type === 'null') {
+    return param.nullable ? undefined : `Parameter '${param.name}' must be ${describeType(param.paramType)}, got null`;
+  }
+  if (type !== param.paramType) {
+    return `Parameter '${param.name}' must be ${describeType(param.paramType)}, got ${describeType(type || typeof value)}`;
+  }
+
+  const rules = param.validation || {};
+  if (typeof value === 'number') {
+    if (rules.min !== undefined && value < rules.min) {
+      return `Parameter '${param.name}' must be at least ${rules.min}, got ${value}`;
+    }
+    if (rules.max !== undefined && value > rules.max) {
+      return `Parameter '${param.name}' must be at most ${rules.max}, got ${value}`;
+    }
+  }
+  if (typeof value === 'string' && rules.pattern !== undefined) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rules.pattern);
+    } catch {
+      return `Parameter '${param.name}' has an invalid pattern /${rules.pattern}/`;
+    }
+    if (!pattern.test(value)) {
+      return `Parameter '${param.name}' must match /${rules.pattern}/, got ${describeValue(value)}`;
+    }
+  }
+  if (rules.allowed && !rules.allowed.includes(value as string | number | boolean)) {
+    return `Parameter '${param.name}' must be one of ${rules.allowed.map(describeValue).join(', ')}, got ${describeValue(value)}`;
+  }
+  return undefined;
+}
+
+// The value of an expression made only of literals, or undefined
+function constantValue(expr: Expression): { value: unknown } | undefined {
+  switch (expr.type) {
+    case 'LiteralExpression':
+      return { value: expr.value };
+    case 'UnaryExpression': {
+      const operand = constantValue(expr.argument);
+      if (!operand) return undefined;
+      return { value: expr.operator === '!' ? !operand.value : -(operand.value as number) };
+    }
+    case 'ArrayExpression': {
+      const elements = expr.elements.map(constantValue);
+      return elements.every(Boolean) ? { value: elements.map(element => element!.value) } : undefined;
+    }
+    case 'ObjectExpression': {
+      const entries = Object.entries(expr.properties).map(([key, value]) => [key, constantValue(value)] as const);
+      return entries.every(([, value]) => value)
+        ? { value: Object.fromEntries(entries.map(([key, value]) => [key, value!.value])) }
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Fields n8n adds to every form submission, besides the answers
+const FORM_SUBMISSION_FIELDS = ['submittedAt', 'formMode'];
+
+/**
+ * The fields of a trigger.form node's output: the label of each form field,
+ * which n8n uses as its key, and the submission time and mode. Undefined for
+ * other nodes, and for forms whose labels are only known at run time.
+ */
+export function formFieldNames(node: NodeDeclaration | ModuleDeclaration): string[] | undefined {
+  const fields = node.type === 'NodeDeclaration' && node.nodeType === 'trigger.form' ? node.parameters.fields : undefined;
+  if (fields?.type !== 'ArrayExpression') {
+    return undefined;
+  }
+
+  const names: string[] = [];
+  for (const field of fields.elements) {
+    const label = field.type === 'ObjectExpression' ? field.properties.label : field;
+    if (label?.type !== 'LiteralExpression' || typeof label.value !== 'string') {
+      return undefined;
+    }
+    names.push(label.value);
+  }
+  return [...names, ...FORM_SUBMISSION_FIELDS];
+}
+
+// `node.output.field` and `node.output["field"]` in an expression, with the access
+function forEachOutputField(expr: Expression, visit: (node: string, field: string, access: Expression) => void): void {
+  const children: Expression[] = [];
+  switch (expr.type) {
+    case 'MemberExpression':
+    case 'IndexExpression': {
+      const field = expr.type === 'MemberExpression' ? expr.property
+        : expr.index.type === 'LiteralExpression' && typeof expr.index.value === 'string' ? expr.index.value : undefined;
+      const output = expr.object;
+      if (field !== undefined && output.type === 'MemberExpression' && output.property === 'output' &&
+          output.object.type === 'IdentifierExpression') {
+        visit(output.object.name, field, expr);
+      }
+      children.push(expr.object, ...(expr.type === 'IndexExpression' ? [expr.index] : []));
+      break;
+    }
+    case 'FunctionCallExpression':
+      children.push(...(expr.receiver ? [expr.receiver] : []), ...expr.arguments);
+      break;
+    case 'BinaryExpression':
+      children.push(expr.left, expr.right);
+      break;
+    case 'UnaryExpression':
+      children.push(expr.argument);
+      break;
+    case 'ConditionalExpression':
+      children.push(expr.test, expr.consequent, expr.alternate);
+      break;
+    case 'ArrowFunctionExpression':
+      children.push(expr.body);
+      break;
+    case 'ObjectExpression':
+      children.push(...Object.values(expr.properties));
+      break;
+    case 'ArrayExpression':
+      children.push(...expr.elements);
+      break;
+    case 'TemplateExpression':
+      children.push(...expr.expressions);
+      break;
+  }
+  children.forEach(child => forEachOutputField(child, visit));
+}
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+
+// Triggers a flow.respond node can answer
+const RESPONDING_TRIGGERS = new Set(['n8n-nodes-base.webhook', 'n8n-nodes-base.formTrigger']);
+
+// What a code tool's name and description are for; n8n rejects the tool without them
+const CODE_TOOL_FIELDS: Record<string, string> = {
+  name: 'the model calls the tool by it',
+  description: 'the model decides when to call the tool from it'
+};
+
 export class Validator {
   private errors: ValidationError[] = [];
 
@@ -42,6 +249,8 @@ export class Validator {
       nodeNames.add(node.name);
       
       this.validateNode(node);
+      this.validateSwitchOutputs(node);
+      this.validateCodeTool(node);
     }
     
     // Validate connections reference existing nodes
@@ -60,10 +269,106 @@ export class Validator {
         }
       }
     }
-    
+
+    this.validateWebhookResponses(workflow);
+    this.validateBatchLoops(workflow);
+    this.validateAttachedSubNodes(workflow);
+
     return this.errors;
   }
 
+  /**
+   * A batching node sends each batch to its `loop` output and only reaches
+   * `done` when the batch comes back, so the nodes after `loop` must lead back
+   * to it. Without that, n8n stops after the first batch.
+   */
+  private validateBatchLoops(workflow: N8nWorkflow): void {
+    const successors = (name: string, output?: number): string[] => {
+      const outputs = workflow.connections?.[name]?.main || [];
+      const targets = output === undefined ? outputs.flat() : outputs[output] || [];
+      return targets.filter(Boolean).map(target => target.node);
+    };
+
+    for (const node of workflow.nodes || []) {
+      if (node.type !== 'n8n-nodes-base.splitInBatches' || node.typeVersion < 3) continue;
+
+      const seen = new Set<string>();
+      const queue = successors(node.name, 1);
+      if (queue.length === 0) {
+        this.addWarning(
+          `Node '${node.name}' (flow.splitInBatches) has nothing on its loop output; connect ${node.name}.loop, not ${node.name}, to the loop`
+        );
+        continue;
+      }
+      while (queue.length > 0 && !seen.has(node.name)) {
+        const current = queue.shift()!;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        queue.push(...successors(current));
+      }
+      if (!seen.has(node.name)) {
+        this.addError(
+          `The loop of '${node.name}' (flow.splitInBatches) never leads back to it; connect its last node to ${node.name}`
+        );
+      }
+    }
+  }
+
+  /**
+   * A flow.respond node answers the webhook or form that started the run, so
+   * it needs such triggers upstream with responseMode: "responseNode". A
+   * trigger in that mode with nothing to answer it fails its calls.
+   */
+  private validateWebhookResponses(workflow: N8nWorkflow): void {
+    const nodes = new Map((workflow.nodes || []).map(node => [node.name, node]));
+    const predecessors = new Map<string, string[]>();
+    for (const [source, outputs] of Object.entries(workflow.connections || {})) {
+      for (const targets of outputs.main || []) {
+        for (const target of targets || []) {
+          predecessors.set(target.node, [...(predecessors.get(target.node) || []), source]);
+        }
+      }
+    }
+    const upstream = (name: string): Set<string> => {
+      const seen = new Set<string>();
+      const queue = [...(predecessors.get(name) || [])];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        queue.push(...(predecessors.get(current) || []));
+      }
+      return seen;
+    };
+
+    const answered = new Set<string>();
+    for (const node of workflow.nodes || []) {
+      if (node.type !== 'n8n-nodes-base.respondToWebhook') continue;
+      const webhooks = [...upstream(node.name)]
+        .map(name => nodes.get(name))
+        .filter(candidate => candidate !== undefined && RESPONDING_TRIGGERS.has(candidate.type));
+      if (webhooks.length === 0) {
+        this.addError(`Node '${node.name}' (flow.respond) must come after a trigger.webhook or trigger.form node`);
+      }
+      for (const webhook of webhooks) {
+        if (webhook!.parameters?.responseMode === 'responseNode') {
+          answered.add(webhook!.name);
+        } else {
+          this.addError(
+            `Node '${node.name}' (flow.respond) answers trigger '${webhook!.name}', which needs responseMode: "responseNode"`
+          );
+        }
+      }
+    }
+
+    for (const node of workflow.nodes || []) {
+      if (RESPONDING_TRIGGERS.has(node.type) && node.parameters?.responseMode === 'responseNode' && !answered.has(node.name)) {
+        const kind = node.type === 'n8n-nodes-base.formTrigger' ? 'Form' : 'Webhook';
+        this.addWarning(`${kind} '${node.name}' has responseMode: "responseNode" but no flow.respond node after it`);
+      }
+    }
+  }
+
   private validateWorkflow(workflow: WorkflowDeclaration): void {
     // Check for duplicate parameter names
     const paramNames = new Set<string>();
@@ -74,6 +379,8 @@ export class Validator {
       paramNames.add(param.name);
     }
     
+    this.validateParameters(workflow.parameters, workflow.variables, workflow.environments);
+
     // Check for duplicate variable names
     const varNames = new Set<string>();
     for (const variable of workflow.variables) {
@@ -86,13 +393,26 @@ export class Validator {
       varNames.add(variable.name);
     }
     
-    // Check for duplicate node names
+    this.validateEnvironments(workflow.environments, new Set([...paramNames, ...varNames]));
+    this.validateCredentials(workflow.credentials);
+    const credentialNames = new Set(workflow.credentials.map(credential => credential.name));
+
+    // Check for duplicate node names, and ids fixed with @id
     const nodeNames = new Set<string>();
+    const nodeIds = new Map<string, string>();
     for (const node of workflow.nodes) {
       if (nodeNames.has(node.name)) {
         this.addError(`Duplicate node name: ${node.name}`, node.line, node.column);
       }
       nodeNames.add(node.name);
+
+      if (node.type === 'NodeDeclaration' && node.id !== undefined) {
+        const other = nodeIds.get(node.id);
+        if (other) {
+          this.addError(`Nodes '${other}' and '${node.name}' have the same @id`, node.line, node.column);
+        }
+        nodeIds.set(node.id, node.name);
+      }
     }
     
     // Validate connections reference existing nodes
@@ -100,20 +420,46 @@ export class Validator {
       if (!nodeNames.has(connection.source.node)) {
         this.addError(
           `Connection source node '${connection.source.node}' does not exist`,
-          connection.line,
-          connection.column
+          connection.source.line ?? connection.line,
+          connection.source.column ?? connection.column
         );
       }
       
       if (!nodeNames.has(connection.target.node)) {
         this.addError(
           `Connection target node '${connection.target.node}' does not exist`,
-          connection.line,
-          connection.column
+          connection.target.line ?? connection.line,
+          connection.target.column ?? connection.column
         );
       }
     }
     
+    // Check that `x.output` references in expressions name a declared node
+    const knownNames = new Set([...nodeNames, ...paramNames, ...varNames]);
+    for (const variable of workflow.variables) {
+      this.validateNodeReferences(variable.value, knownNames);
+    }
+    for (const node of workflow.nodes) {
+      for (const value of Object.values(node.parameters)) {
+        this.validateNodeReferences(value, knownNames);
+      }
+    }
+    this.validateFormFieldReferences(workflow);
+
+    for (const node of workflow.nodes) {
+      if (node.type === 'NodeDeclaration') {
+        this.validateNodeSettings(node, credentialNames);
+        this.validateSwitchRules(node);
+        this.validateMergeInput(node);
+        this.validateToolDescription(node);
+        for (const [key, value] of Object.entries(node.parameters)) {
+          this.validateSecrets(node, key, value);
+        }
+      }
+    }
+
+    this.validateSubNodes(workflow);
+    
     // Check for disconnected nodes (warning)
     const connectedNodes = new Set<string>();
     for (const connection of workflow.connections) {
@@ -122,7 +468,10 @@ export class Validator {
     }
     
     for (const node of workflow.nodes) {
-      if (!connectedNodes.has(node.name)) {
+      // Sticky notes have no ports; they annotate the canvas
+      const note = node.type === 'NodeDeclaration' &&
+        (DSL_TO_N8N_NODE_TYPES[node.nodeType] || node.nodeType) === 'n8n-nodes-base.stickyNote';
+      if (!note && !connectedNodes.has(node.name)) {
         this.addWarning(
           `Node '${node.name}' is not connected to any other nodes`,
           node.line,
@@ -132,6 +481,457 @@ export class Validator {
     }
   }
 
+  // Param rules and values, and the operators in var initialisers, against the declared param types
+  private validateParameters(
+    parameters: ParameterDeclaration[],
+    variables: VariableDeclaration[],
+    environments: EnvironmentDeclaration[]
+  ): void {
+    const types = new Map<string, StaticType>();
+    for (const param of parameters) {
+      this.validateParameterRules(param);
+      const values = [param.defaultValue, ...environments.map(environment => environment.overrides[param.name])];
+      for (const value of values.filter(value => value !== undefined)) {
+        this.validateParameterValue(param, value, types);
+      }
+      types.set(param.name, { type: param.paramType, nullable: param.nullable });
+    }
+
+    for (const variable of variables) {
+      for (const environment of environments) {
+        const override = environment.overrides[variable.name];
+        if (override) this.inferType(override, types);
+      }
+      const type = this.inferType(variable.value, types);
+      if (type) {
+        types.set(variable.name, type);
+      } else {
+        types.delete(variable.name);
+      }
+    }
+  }
+
+  // Environments may only set declared params and vars
+  private validateEnvironments(environments: EnvironmentDeclaration[], names: Set<string>): void {
+    const seen = new Set<string>();
+    for (const environment of environments) {
+      if (seen.has(environment.name)) {
+        this.addError(`Duplicate environment: ${environment.name}`, environment.line, environment.column);
+      }
+      seen.add(environment.name);
+
+      for (const name of Object.keys(environment.overrides).filter(name => !names.has(name))) {
+        const at = environment.keyPositions[name];
+        this.addError(`Environment '${environment.name}' sets '${name}', which is not a param or var`, at?.line, at?.column);
+      }
+    }
+  }
+
+  private validateCredentials(credentials: CredentialDeclaration[]): void {
+    const seen = new Set<string>();
+    for (const credential of credentials) {
+      if (seen.has(credential.name)) {
+        this.addError(`Duplicate credential: ${credential.name}`, credential.line, credential.column);
+      }
+      seen.add(credential.name);
+
+      for (const field of ['id', 'name']) {
+        const value = credential.fields[field];
+        if (!value) {
+          this.addError(`Credential '${credential.name}' needs ${field === 'id' ? 'an id' : 'a name'}`, credential.line, credential.column);
+        } else if (value.type === 'LiteralExpression' && (typeof value.value !== 'string' || value.value === '')) {
+          this.addError(`The ${field} of credential '${credential.name}' must be a non-empty string`, value.line, value.column);
+        }
+      }
+    }
+  }
+
+  /**
+   * Secrets written into node parameters end up in the exported workflow JSON.
+   * Values under secret-looking keys (and { name: "Authorization", value }
+   * pairs) are flagged when they are literal text rather than expressions.
+   */
+  private validateSecrets(node: NodeDeclaration, key: string, value: Expression): void {
+    if (value.type === 'ObjectExpression') {
+      const { name, value: pairValue } = value.properties;
+      if (name?.type === 'LiteralExpression' && typeof name.value === 'string' && isSecretName(name.value) && pairValue) {
+        this.validateSecrets(node, name.value, pairValue);
+      }
+      for (const [property, inner] of Object.entries(value.properties)) {
+        this.validateSecrets(node, property, inner);
+      }
+    } else if (value.type === 'ArrayExpression') {
+      value.elements.forEach(element => this.validateSecrets(node, key, element));
+    } else if (
+      value.type === 'LiteralExpression' && typeof value.value === 'string' && value.value !== '' &&
+      isSecretName(key) && !value.value.includes('{{')
+    ) {
+      this.addError(
+        `Node '${node.name}': '${key}' is written into the workflow as plain text; ` +
+        'declare a credential and use credentials: instead',
+        value.line,
+        value.column
+      );
+    }
+  }
+
+  private validateParameterRules(param: ParameterDeclaration): void {
+    const rules = param.validation;
+    if (!rules) return;
+    const misplaced = (rule: string, type: ParameterType) => this.addError(
+      `'${rule}' of parameter '${param.name}' only applies to ${type} parameters`, param.line, param.column
+    );
+
+    if (param.paramType !== 'number') {
+      if (rules.min !== undefined) misplaced('min', 'number');
+      if (rules.max !== undefined) misplaced('max', 'number');
+    } else if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+      this.addError(`Parameter '${param.name}' has min ${rules.min} above max ${rules.max}`, param.line, param.column);
+    }
+
+    if (rules.pattern !== undefined) {
+      if (param.paramType !== 'string') {
+        misplaced('pattern', 'string');
+      } else {
+        try {
+          new RegExp(rules.pattern);
+        } catch (error) {
+          this.addError(
+            `Parameter '${param.name}' has an invalid pattern: ${(error as Error).message}`,
+            param.line,
+            param.column
+          );
+        }
+      }
+    }
+
+    for (const value of rules.allowed || []) {
+      if (valueType(value) !== param.paramType) {
+        this.addError(
+          `Allowed value ${describeValue(value)} of parameter '${param.name}' is not ${describeType(param.paramType)}`,
+          param.line,
+          param.column
+        );
+      }
+    }
+  }
+
+  // A default or environment value of a param
+  private validateParameterValue(param: ParameterDeclaration, expr: Expression, types: Map<string, StaticType>): void {
+    const type = this.inferType(expr, types);
+    const constant = constantValue(expr);
+    const problem = constant
+      ? checkParameterValue(param, constant.value)
+      : type && this.typeMismatch(param, type);
+    if (problem) {
+      this.addError(problem, expr.line ?? param.line, expr.column ?? param.column);
+    }
+  }
+
+  private typeMismatch(param: ParameterDeclaration, type: StaticType): string | undefined {
+    const expected = `Parameter '${param.name}' must be ${describeType(param.paramType)}`;
+    if (type.type !== 'null' && type.type !== param.paramType) {
+      return `${expected}, got ${describeType(type.type)}`;
+    }
+    if ((type.type === 'null' || type.nullable) && !param.nullable) {
+      return `${expected}, got a value that may be null (declare it as ${param.paramType}? to allow null)`;
+    }
+    return undefined;
+  }
+
+  /**
+   * The static type of a compile-time expression, where it follows from
+   * literals, params and vars. Arithmetic on values that aren't numbers (or
+   * strings, for +) is reported along the way.
+   */
+  private inferType(expr: Expression, types: Map<string, StaticType>): StaticType | undefined {
+    switch (expr.type) {
+      case 'LiteralExpression':
+        return { type: valueType(expr.value) as StaticType['type'] };
+      case 'TemplateExpression':
+        expr.expressions.forEach(part => this.inferType(part, types));
+        return { type: 'string' };
+      case 'ArrayExpression':
+        expr.elements.forEach(element => this.inferType(element, types));
+        return { type: 'array' };
+      case 'ObjectExpression':
+        Object.values(expr.properties).forEach(value => this.inferType(value, types));
+        return { type: 'object' };
+      case 'IdentifierExpression':
+        return types.get(expr.name);
+      case 'UnaryExpression': {
+        const operand = this.inferType(expr.argument, types);
+        if (expr.operator === '!') {
+          return { type: 'boolean' };
+        }
+        this.checkOperand('-', operand, expr.argument, false);
+        return { type: 'number' };
+      }
+      case 'BinaryExpression': {
+        const left = this.inferType(expr.left, types);
+        const right = this.inferType(expr.right, types);
+        if (COMPARISON_OPERATORS.has(expr.operator)) {
+          return { type: 'boolean' };
+        }
+        if (expr.operator === '&&' || expr.operator === '||') {
+          return undefined;
+        }
+        // A string on either side makes + a concatenation
+        const isString = (type?: StaticType) => type?.type === 'string' && !type.nullable;
+        if (expr.operator === '+' && (isString(left) || isString(right))) {
+          return { type: 'string' };
+        }
+        const allowString = expr.operator === '+';
+        this.checkOperand(expr.operator, left, expr.left, allowString);
+        this.checkOperand(expr.operator, right, expr.right, allowString);
+        return left?.type === 'number' && right?.type === 'number' ? { type: 'number' } : undefined;
+      }
+      case 'ConditionalExpression': {
+        this.inferType(expr.test, types);
+        const consequent = this.inferType(expr.consequent, types);
+        const alternate = this.inferType(expr.alternate, types);
+        if (!consequent || !alternate) return undefined;
+        if (consequent.type === 'null' || alternate.type === 'null') {
+          const other = consequent.type === 'null' ? alternate : consequent;
+          return { type: other.type, nullable: true };
+        }
+        return consequent.type === alternate.type
+          ? { type: consequent.type, nullable: consequent.nullable || alternate.nullable }
+          : undefined;
+      }
+      case 'ArrowFunctionExpression': {
+        const inner = new Map(types);
+        expr.params.forEach(name => inner.delete(name));
+        this.inferType(expr.body, inner);
+        return undefined;
+      }
+      case 'MemberExpression':
+        this.inferType(expr.object, types);
+        return undefined;
+      case 'IndexExpression':
+        this.inferType(expr.object, types);
+        this.inferType(expr.index, types);
+        return undefined;
+      case 'FunctionCallExpression':
+        if (expr.receiver) this.inferType(expr.receiver, types);
+        expr.arguments.forEach(arg => this.inferType(arg, types));
+        return undefined;
+    }
+  }
+
+  private checkOperand(operator: string, type: StaticType | undefined, operand: Expression, allowString: boolean): void {
+    if (!type) return;
+    const name = operand.type === 'IdentifierExpression' ? `'${operand.name}'` : 'the operand';
+    const expected = allowString ? 'a number or string' : 'a number';
+    if (type.type === 'null' || type.nullable) {
+      this.addError(`'${operator}' needs ${expected}, but ${name} may be null`, operand.line, operand.column);
+    } else if (type.type !== 'number' && !(allowString && type.type === 'string')) {
+      this.addError(`'${operator}' needs ${expected}, but ${name} is ${describeType(type.type)}`, operand.line, operand.column);
+    }
+  }
+
+  private validateNodeReferences(expr: Expression, knownNames: Set<string>): void {
+    forEachIdentifier(expr, new Set(), (name, isLocal, identifier, parent) => {
+      if (!isLocal && !knownNames.has(name) &&
+          parent?.type === 'MemberExpression' && parent.property === 'output') {
+        this.addError(`Unknown node '${name}' referenced in expression`, identifier.line, identifier.column);
+      }
+    });
+  }
+
+  // n8n outputs each answer of a form under its label, so `form.output.x` must name a field
+  private validateFormFieldReferences(workflow: WorkflowDeclaration): void {
+    const forms = new Map<string, string[]>();
+    for (const node of workflow.nodes) {
+      const names = formFieldNames(node);
+      if (names) forms.set(node.name, names);
+    }
+    if (forms.size === 0) return;
+
+    const expressions = [
+      ...workflow.variables.map(variable => variable.value),
+      ...workflow.nodes.flatMap(node => Object.values(node.parameters))
+    ];
+    for (const expr of expressions) {
+      forEachOutputField(expr, (node, field, access) => {
+        const names = forms.get(node);
+        if (names && !names.includes(field)) {
+          this.addWarning(`Form '${node}' has no field '${field}'`, access.line, access.column);
+        }
+      });
+    }
+  }
+
+  // Settings written as literals are checked here; others once they are evaluated
+  private validateNodeSettings(node: NodeDeclaration, credentialNames: Set<string>): void {
+    const settings = node.settings;
+    for (const [key, value] of Object.entries(settings)) {
+      if (key === 'credentials') {
+        this.validateCredentialReferences(node, value, credentialNames);
+      } else if (value.type === 'LiteralExpression') {
+        const problem = checkNodeSetting(key, value.value);
+        if (problem) {
+          this.addError(`Node '${node.name}': ${problem}`, value.line, value.column);
+        }
+      }
+    }
+
+    if (settings.onError && settings.continueOnFail) {
+      this.addError(`Node '${node.name}' sets both onError and continueOnFail`, node.line, node.column);
+    }
+
+    const retry = settings.retryOnFail;
+    const retries = retry !== undefined && (retry.type !== 'LiteralExpression' || retry.value === true);
+    for (const key of ['maxTries', 'waitBetweenTries']) {
+      if (settings[key] && !retries) {
+        this.addWarning(`Node '${node.name}': ${key} has no effect unless retryOnFail is true`, settings[key].line, settings[key].column);
+      }
+    }
+  }
+
+  // Rule output names become the switch's port names, so each may be used once
+  private validateSwitchRules(node: NodeDeclaration): void {
+    const rules = node.parameters.rules;
+    if (node.nodeType !== 'flow.switch' || rules?.type !== 'ArrayExpression') return;
+
+    const names = new Set<string>();
+    for (const rule of rules.elements) {
+      const output = rule.type === 'ObjectExpression' ? rule.properties.output : undefined;
+      if (output?.type !== 'LiteralExpression' || typeof output.value !== 'string') continue;
+      if (names.has(output.value)) {
+        this.addError(`Switch '${node.name}' has two rules with output '${output.value}'`, output.line, output.column);
+      }
+      names.add(output.value);
+    }
+
+    // The renamed fallback is another output of the same node
+    const fallback = node.parameters.fallback;
+    if (fallback?.type === 'LiteralExpression' && typeof fallback.value === 'string' && names.has(fallback.value)) {
+      this.addError(`Switch '${node.name}' has a rule and the fallback both named '${fallback.value}'`, fallback.line, fallback.column);
+    }
+    // A number picks a rule output, numbered from 1 like its ports
+    const count = rules.elements.length;
+    if (fallback?.type === 'LiteralExpression' && typeof fallback.value === 'number' &&
+        (!Number.isInteger(fallback.value) || fallback.value < 1 || fallback.value > count)) {
+      this.addError(`Switch '${node.name}' has no output ${fallback.value} to send unmatched items to; its rules are numbered 1 to ${count}`, fallback.line, fallback.column);
+    }
+  }
+
+  // A merge choosing a branch outputs one of its inputs, numbered from 1 like its ports
+  private validateMergeInput(node: NodeDeclaration): void {
+    const { input, inputs } = node.parameters;
+    if (node.nodeType !== 'flow.merge' || input?.type !== 'LiteralExpression' || typeof input.value !== 'number') return;
+
+    const count = inputs?.type === 'LiteralExpression' && typeof inputs.value === 'number' ? inputs.value : 2;
+    if (!Number.isInteger(input.value) || input.value < 1 || input.value > count) {
+      this.addError(`Merge '${node.name}' has no input ${input.value}; its inputs are numbered 1 to ${count}`, input.line, input.column);
+    }
+  }
+
+  // n8n rejects a code tool without a name or description when an agent loads it
+  private validateToolDescription(node: NodeDeclaration): void {
+    if (DSL_TO_N8N_NODE_TYPES[node.nodeType] !== '@n8n/n8n-nodes-langchain.toolCode' &&
+        node.nodeType !== '@n8n/n8n-nodes-langchain.toolCode') return;
+
+    for (const [key, purpose] of Object.entries(CODE_TOOL_FIELDS)) {
+      const value = node.parameters[key];
+      if (value === undefined || (value.type === 'LiteralExpression' && (value.value === '' || value.value === null))) {
+        this.addError(`Node '${node.name}' (${node.nodeType}) needs a ${key}: ${purpose}`, value?.line ?? node.line, value?.column ?? node.column);
+      }
+    }
+  }
+
+  private validateCredentialReferences(node: NodeDeclaration, value: Expression, credentialNames: Set<string>): void {
+    const references = value.type === 'ArrayExpression' ? value.elements : [value];
+    for (const reference of references) {
+      if (reference.type !== 'IdentifierExpression') {
+        this.addError(`Node '${node.name}': ${checkNodeSetting('credentials', undefined)}`, reference.line, reference.column);
+      } else if (!credentialNames.has(reference.name)) {
+        this.addError(`Node '${node.name}' uses unknown credential '${reference.name}'`, reference.line, reference.column);
+      }
+    }
+  }
+
+  // LangChain root nodes (agents, chains) need their required sub-nodes connected
+  private validateSubNodes(workflow: WorkflowDeclaration): void {
+    const declarations = new Map(workflow.nodes.map(node => [node.name, node]));
+    const portsOf = (node: NodeDeclaration) =>
+      getTypePorts(DSL_TO_N8N_NODE_TYPES[node.nodeType] || node.nodeType);
+
+    for (const node of workflow.nodes) {
+      if (node.type !== 'NodeDeclaration') continue;
+      const { inputs, required = [] } = portsOf(node);
+      if (required.length === 0) continue;
+
+      const attached = new Set<ConnectionType>();
+      let unknown = false;
+      for (const connection of workflow.connections.filter(candidate => candidate.target.node === node.name)) {
+        if (connection.target.input && connection.target.input !== 'main') {
+          const input = inputs.names[connection.target.input];
+          if (input) attached.add(input.type);
+          continue;
+        }
+
+        // `connect model -> agent`: the sub-node's own type decides the input
+        const source = declarations.get(connection.source.node);
+        if (source?.type !== 'NodeDeclaration') {
+          unknown = true; // Modules may hand over any kind of node
+          continue;
+        }
+        const outputs = portsOf(source).outputs;
+        const subNodeOutputs = Object.values(outputs.names);
+        if (outputs.count === 0 && subNodeOutputs.length === 1) {
+          attached.add(subNodeOutputs[0].type);
+        }
+      }
+
+      if (unknown) continue;
+      for (const type of required.filter(type => !attached.has(type))) {
+        const port = Object.keys(inputs.names).find(name => inputs.names[name].type === type);
+        this.addError(
+          `Node '${node.name}' (${node.nodeType}) needs a ${port} sub-node: connect one to ${node.name}.${port}`,
+          node.line,
+          node.column
+        );
+      }
+    }
+  }
+
+  /**
+   * validateSubNodes on the generated workflow, where the nodes of modules are
+   * inlined and every connection's type is known.
+   */
+  private validateAttachedSubNodes(workflow: N8nWorkflow): void {
+    const attached = new Map<string, Set<string>>();
+    for (const outputs of Object.values(workflow.connections || {})) {
+      for (const [type, lists] of Object.entries(outputs)) {
+        for (const target of lists.flat().filter(Boolean)) {
+          attached.set(target.node, (attached.get(target.node) || new Set()).add(target.type || type));
+        }
+      }
+    }
+
+    for (const node of workflow.nodes || []) {
+      const { inputs, required = [] } = getNodePorts(node);
+      for (const type of required.filter(type => !attached.get(node.name)?.has(type))) {
+        const port = Object.keys(inputs.names).find(name => inputs.names[name].type === type);
+        this.addError(`Node '${node.name}' (${node.type}) needs a ${port} sub-node: connect one to ${node.name}.${port}`);
+      }
+    }
+  }
+
+  // validateToolDescription on the generated node, which may come from a module
+  private validateCodeTool(node: N8nNode): void {
+    if (node.type !== '@n8n/n8n-nodes-langchain.toolCode') return;
+
+    for (const [key, purpose] of Object.entries(CODE_TOOL_FIELDS)) {
+      const value = node.parameters?.[key];
+      if (typeof value !== 'string' || value.trim() === '') {
+        this.addError(`Node '${node.name}' (${node.type}) needs a ${key}: ${purpose}`);
+      }
+    }
+  }
+
   private validateNode(node: any): void {
     if (!node.id) {
       this.addError('Node must have an id');
@@ -158,6 +958,18 @@ export class Validator {
     }
   }
 
+  // n8n node form of validateSwitchRules' fallback check, for switches from modules and raw parameters
+  private validateSwitchOutputs(node: N8nNode): void {
+    const renamed = node.parameters?.options?.renameFallbackOutput;
+    if (node.type !== 'n8n-nodes-base.switch' || node.parameters.options?.fallbackOutput !== 'extra' ||
+        typeof renamed !== 'string' || renamed === '') return;
+
+    const rules: any[] = node.parameters.rules?.values || [];
+    if (rules.some(rule => rule.renameOutput && rule.outputKey === renamed)) {
+      this.addError(`Switch '${node.name}' has a rule and the fallback both named '${renamed}'`);
+    }
+  }
+
   private addError(message: string, line?: number, column?: number): void {
     this.errors.push({
       message,
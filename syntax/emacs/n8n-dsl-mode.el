@@ -56,7 +56,7 @@
 
 ;; Define keywords for font-lock
 (defconst n8n-dsl-keywords
-  '("workflow" "param" "var" "node" "module" "connect" "output")
+  '("workflow" "param" "var" "node" "module" "connect" "flow" "environment" "credential" "output")
   "Keywords for N8N DSL.")
 
 (defconst n8n-dsl-types
@@ -69,8 +69,8 @@
 
 (defconst n8n-dsl-node-types
   '("trigger.manual" "trigger.schedule" "trigger.webhook" "trigger.form"
-    "http.request" "flow.if" "flow.switch" "flow.splitInBatches"
-    "data.set" "data.transform" "data.aggregate"
+    "http.request" "flow.if" "flow.switch" "flow.splitOut" "flow.aggregate"
+    "flow.splitInBatches" "flow.merge" "flow.respond" "data.set" "data.transform"
     "integration.email" "integration.slack" "integration.sheets" "integration.calendar")
   "Common node types for N8N DSL.")
 
@@ -112,6 +112,9 @@
      (2 font-lock-function-name-face)
      (3 font-lock-string-face))
 
+    ;; Node annotation
+    ("@\\(id\\)\\>" 1 font-lock-preprocessor-face)
+
     ;; Module declaration
     ("\\<\\(module\\)\\s-+\\([a-zA-Z_][a-zA-Z0-9_]*\\)\\s-*=\\s-*\\([^\\s-{]+\\)"
      (1 font-lock-keyword-face)
@@ -286,6 +289,10 @@ with a focus on readability, reusability, and maintainability.
             (name (match-string 2)))
         (format "%s %s" type (string-trim name "\"" "\""))))))
 
+;; Language server (n8n-dsl lsp --stdio)
+(with-eval-after-load 'eglot
+  (add-to-list 'eglot-server-programs '(n8n-dsl-mode . ("n8n-dsl" "lsp" "--stdio"))))
+
 ;; Auto-mode-alist association
 ;;;###autoload
 (add-to-list 'auto-mode-alist '("\\.n8n\\'" . n8n-dsl-mode))
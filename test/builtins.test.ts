@@ -0,0 +1,62 @@
+import { Compiler } from '../src/compiler';
+import { N8nWorkflow } from '../src/types/n8n';
+
+function compile(source: string): N8nWorkflow {
+  const result = new Compiler({ autoLayout: false }).compile(source);
+  expect(result.errors).toEqual([]);
+  return result.workflow!;
+}
+
+function fields(workflow: N8nWorkflow, name: string): Record<string, any> {
+  const node = workflow.nodes.find(n => n.name === name)!;
+  return Object.fromEntries(node.parameters.assignments.assignments.map((a: any) => [a.name, a.value]));
+}
+
+const NOW = `workflow "Now" {
+  param reportDate string = now("yyyy-MM-dd")
+  var subject = "Report for \${reportDate}"
+  node start "trigger.manual" {}
+  node stamp "data.set" {
+    assignments: {
+      plain: now(),
+      formatted: "\${now('dd.MM.yyyy')}",
+      zoned: now("Europe/Prague"),
+      zonedFormat: now("Europe/Prague", "HH:mm"),
+      earlier: now(-15, "minutes"),
+      subject: subject
+    }
+  }
+  connect start -> stamp
+}`;
+
+describe('now()', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('reads the time when the workflow runs', () => {
+    expect(fields(compile(NOW), 'stamp')).toEqual({
+      plain: '={{ $now.toISO() }}',
+      formatted: '={{ $now.toFormat("dd.MM.yyyy") }}',
+      zoned: '={{ $now.setZone("Europe/Prague").toISO() }}',
+      zonedFormat: '={{ $now.setZone("Europe/Prague").toFormat("HH:mm") }}',
+      earlier: '={{ $now.plus({ minutes: -15 }).toISO() }}',
+      subject: '=Report for {{ ($now.toFormat("yyyy-MM-dd")) }}'
+    });
+  });
+
+  it('compiles the same source to the same workflow at any time', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-01T08:00:00Z'));
+    const first = compile(NOW);
+    jest.setSystemTime(new Date('2025-06-30T23:59:59Z'));
+    expect(compile(NOW)).toEqual(first);
+  });
+
+  it('rejects an unknown time unit', () => {
+    const result = new Compiler().compile(`workflow "Now" {
+  node start "trigger.manual" {}
+  node stamp "data.set" { assignments: { earlier: now(-2, "fortnights") } }
+  connect start -> stamp
+}`);
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toContain("now(): unknown time unit 'fortnights'");
+  });
+});
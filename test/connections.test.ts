@@ -0,0 +1,82 @@
+import { Parser } from '../src/parser/parser';
+import { Compiler } from '../src/compiler';
+import { ConnectionDeclaration } from '../src/types/dsl';
+
+function connections(source: string): ConnectionDeclaration[] {
+  return new Parser(`workflow "W" {\n${source}\n}`).parse().workflow!.connections;
+}
+
+function edges(source: string): string[] {
+  const result = new Compiler({ autoLayout: false }).compile(`workflow "W" {\n${source}\n}`);
+  expect(result.errors).toEqual([]);
+  const lines: string[] = [];
+  for (const [node, outputs] of Object.entries(result.workflow!.connections)) {
+    (outputs.main || []).forEach((targets, output) => {
+      for (const target of targets) {
+        lines.push(`${node}:${output} -> ${target.node}:${target.index}`);
+      }
+    });
+  }
+  return lines;
+}
+
+const NODES = `
+  node start "trigger.manual" {}
+  node a "data.set" {}
+  node b "data.set" {}
+  node c "data.set" {}
+  node m "flow.merge" {}
+`;
+
+describe('connect statements', () => {
+  it('expands a chain into one connection per arrow', () => {
+    const result = connections('connect a -> b -> c');
+    expect(result.map(conn => `${conn.source.node} -> ${conn.target.node}`)).toEqual(['a -> b', 'b -> c']);
+  });
+
+  it('keeps the output port on the first step only', () => {
+    const result = connections('connect a.true -> b -> c');
+    expect(result.map(conn => conn.source.output)).toEqual(['true', 'main']);
+  });
+
+  it('expands fan-out and fan-in lists', () => {
+    const result = connections('connect a -> [b, c] -> m');
+    expect(result.map(conn => `${conn.source.node} -> ${conn.target.node}`))
+      .toEqual(['a -> b', 'a -> c', 'b -> m', 'c -> m']);
+    expect(result.map(conn => conn.fanIn)).toEqual([undefined, undefined, 0, 1]);
+  });
+
+  it('records the position of each node name', () => {
+    const [first, second] = connections('connect [a, b] -> c');
+    expect([first.source.line, first.source.column]).toEqual([2, 10]);
+    expect([second.source.line, second.source.column]).toEqual([2, 13]);
+    expect([second.target.line, second.target.column]).toEqual([2, 19]);
+  });
+
+  it('spreads a fan-in list over the inputs of a merge', () => {
+    expect(edges(`${NODES}
+      connect start -> [a, b, c]
+      connect [a, b] -> m
+      connect c -> d
+      node d "data.set" {}`)).toEqual([
+      'start:0 -> a:0', 'start:0 -> b:0', 'start:0 -> c:0', 'a:0 -> m:0', 'b:0 -> m:1', 'c:0 -> d:0'
+    ]);
+  });
+
+  it('leaves explicit ports and single-input targets alone', () => {
+    expect(edges(`${NODES}
+      connect start -> [a, b] -> c
+      connect c -> m.input2`)).toEqual([
+      'start:0 -> a:0', 'start:0 -> b:0', 'a:0 -> c:0', 'b:0 -> c:0', 'c:0 -> m:1'
+    ]);
+  });
+
+  it('rejects a fan-in list longer than the inputs', () => {
+    const result = new Compiler().compile(`workflow "W" {${NODES}
+      connect start -> [a, b, c]
+      connect [a, b, c] -> m
+    }`);
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toMatch(/has 2 inputs, too few for the list/);
+  });
+});
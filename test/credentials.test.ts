@@ -0,0 +1,78 @@
+import { Compiler } from '../src/compiler';
+
+function compile(body: string, options = {}) {
+  return new Compiler({ autoLayout: false, ...options }).compile(`workflow "Credentials" {
+  param slackCredential string = "Slack main"
+  credential slack "slackApi" { id: "12", name: slackCredential }
+  credential api "httpHeaderAuth" { id: "7", name: "API key" }
+  node start "trigger.manual" {}
+  ${body}
+  connect start -> last
+}`);
+}
+
+function messages(result: { errors: { message: string }[] }): string[] {
+  return result.errors.map(error => error.message);
+}
+
+describe('credentials', () => {
+  it('attaches declared credentials to nodes by their type', () => {
+    const result = compile('node last "integration.slack" { channel: "#general", text: "hi", credentials: slack }');
+    expect(result.errors).toEqual([]);
+    const last = result.workflow!.nodes.find(node => node.name === 'last')!;
+    expect(last.credentials).toEqual({ slackApi: { id: '12', name: 'Slack main' } });
+  });
+
+  it('sets an HTTP request up for the credential it uses', () => {
+    const result = compile('node last "http.request" { url: "https://api.example.com", credentials: api }');
+    expect(result.errors).toEqual([]);
+    const last = result.workflow!.nodes.find(node => node.name === 'last')!;
+    expect(last.parameters).toMatchObject({ authentication: 'genericCredentialType', genericAuthType: 'httpHeaderAuth' });
+    expect(last.credentials).toEqual({ httpHeaderAuth: { id: '7', name: 'API key' } });
+  });
+
+  it('reports an unknown credential', () => {
+    const result = compile('node last "http.request" { url: "https://api.example.com", credentials: apiKey }');
+    expect(messages(result)).toEqual(["Node 'last' uses unknown credential 'apiKey'"]);
+  });
+
+  it('needs the id and name when compiling', () => {
+    const result = new Compiler().compile(`workflow "Credentials" {
+  credential api "httpHeaderAuth" { id: start.output.id, name: "API key" }
+  node start "trigger.manual" {}
+}`);
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toContain("The id of credential 'api' must be known at compile time");
+  });
+});
+
+describe('secrets in parameters', () => {
+  it('rejects a secret written into a node as plain text', () => {
+    const result = compile(`node last "http.request" {
+    url: "https://api.example.com"
+    headers: { Authorization: "Bearer sk-live-123" }
+  }`);
+    expect(messages(result)).toEqual([
+      "Node 'last': 'Authorization' is written into the workflow as plain text; declare a credential and use credentials: instead"
+    ]);
+    expect([result.errors[0].line, result.errors[0].column]).toEqual([8, 31]);
+  });
+
+  it('checks name and value pairs by their name', () => {
+    const result = compile(`node last "http.request" {
+    url: "https://api.example.com"
+    headerParameters: { parameters: [{ name: "X-Api-Key", value: "abc123" }] }
+  }`);
+    expect(messages(result)).toEqual([
+      "Node 'last': 'X-Api-Key' is written into the workflow as plain text; declare a credential and use credentials: instead"
+    ]);
+  });
+
+  it('accepts secrets read when the workflow runs', () => {
+    const result = compile(`node last "http.request" {
+    url: "https://api.example.com"
+    headers: { Authorization: "Bearer \${runtimeEnv('API_TOKEN')}" }
+  }`);
+    expect(result.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Compiler } from '../src/compiler';
+import { decompile } from '../src/decompiler/decompiler';
+import { N8nWorkflow } from '../src/types/n8n';
+
+function compile(source: string, options = {}): N8nWorkflow {
+  const result = new Compiler(options).compile(source);
+  expect(result.errors).toEqual([]);
+  return result.workflow!;
+}
+
+const SOURCE = `workflow "Round trip" {
+  node orders "trigger.webhook" { method: "POST", path: "orders", responseMode: "responseNode" }
+  node check "flow.if" { condition: "{{ $json.total }} > 100" }
+  node route "flow.switch" {
+    rules: [{ condition: "{{ $json.kind }} == 'a'", output: "a" }]
+    fallback: true
+  }
+  node tag "data.set" { assignments: { status: "big", checked: true } }
+  node lines "flow.splitOut" { field: "lines", include: ["id"] }
+  node batch "flow.splitInBatches" { batchSize: 10 }
+  node save "http.request" { method: "POST", url: "https://api.example.com/lines" }
+  node joined "flow.merge" { on: { id: "orderId" }, join: "enrichInput1" }
+  node reply "flow.respond" { body: { ok: true } }
+  connect orders -> check
+  connect check.true -> route
+  connect check.false -> tag
+  connect route.a -> lines -> batch
+  connect batch.loop -> save -> batch
+  connect batch.done -> joined.input1
+  connect tag -> joined.input2
+  connect route.fallback -> reply
+  connect joined -> reply
+}`;
+
+describe('decompiler', () => {
+  it('decompiles to source that compiles to the same workflow', () => {
+    const workflow = compile(SOURCE);
+    const source = decompile(workflow);
+    expect(source).toContain('connect batch.loop -> save');
+    expect(source).toContain('connect batch.done -> joined');
+    expect(source).toContain('connect tag -> joined.input2');
+
+    const again = compile(source);
+    expect(again.nodes).toEqual(workflow.nodes);
+    expect(again.connections).toEqual(workflow.connections);
+  });
+
+  it('round-trips the lead processor example', () => {
+    const sourcePath = path.join(__dirname, '../examples/lead-processor.n8n');
+    const workflow = compile(fs.readFileSync(sourcePath, 'utf8'), { sourcePath });
+    const source = decompile(workflow);
+    expect(source).toContain('node validateLead "flow.if"');
+    expect(source).toContain('operator: "exists"');
+
+    // Nodes inlined from modules get plain names; @id keeps their ids
+    const again = compile(source);
+    let expected = JSON.stringify({ nodes: workflow.nodes, connections: workflow.connections });
+    for (const node of workflow.nodes) {
+      const name = again.nodes.find(other => other.id === node.id)!.name;
+      expected = expected.split(`"${node.name}"`).join(`"${name}"`).split(`'${node.name}'`).join(`'${name}'`);
+    }
+    expect({ nodes: again.nodes, connections: again.connections }).toEqual(JSON.parse(expected));
+  });
+
+  it('decompiles conditions that only have a left value', () => {
+    const workflow = compile(`workflow "Unary" {
+  node start "trigger.manual" {}
+  node check "flow.if" { condition: "\${start.output.email != null && !start.output.blocked}" }
+  connect start -> check
+}`);
+    const source = decompile(workflow);
+    expect(source).toContain('node check "flow.if"');
+    expect(source).toContain('operator: "exists"');
+    expect(source).toContain('operator: "false"');
+    expect(compile(source).nodes).toEqual(workflow.nodes);
+  });
+
+  it('keeps parameters it has no DSL form for', () => {
+    const source = decompile({
+      name: 'Raw',
+      nodes: [{
+        id: 'a', name: 'Split', type: 'n8n-nodes-base.splitOut', typeVersion: 1, position: [0, 0],
+        parameters: { fieldToSplitOut: 'lines', options: { unknownOption: 1 } }
+      }],
+      connections: {}
+    } as any);
+    expect(source).toContain('"n8n-nodes-base.splitOut"');
+    expect(source).toContain('unknownOption: 1');
+  });
+});
@@ -0,0 +1,64 @@
+import { Compiler, CompilerOptions } from '../src/compiler';
+
+const SOURCE = `workflow "Sync" {
+  param apiUrl string = "http://localhost:3000"
+  param token string
+  var pageSize = 10
+
+  environment "staging" {
+    apiUrl = "https://staging.example.com"
+    token = "staging"
+  }
+
+  environment "production" {
+    apiUrl = "https://api.example.com"
+    token = "production"
+    pageSize = 100
+  }
+
+  node start "trigger.manual" {}
+  node fetch "http.request" { url: "\${apiUrl}/items?limit=\${pageSize}" }
+  connect start -> fetch
+}`;
+
+function compile(options: CompilerOptions, source = SOURCE) {
+  return new Compiler({ autoLayout: false, ...options }).compile(source);
+}
+
+describe('environments', () => {
+  it('uses the values of the chosen environment and names the workflow after it', () => {
+    const result = compile({ environment: 'production' });
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.name).toBe('Sync-production');
+    expect(result.workflow!.nodes[1].parameters.url).toBe('https://api.example.com/items?limit=100');
+  });
+
+  it('keeps the defaults an environment does not set', () => {
+    const result = compile({ environment: 'staging' });
+    expect(result.workflow!.nodes[1].parameters.url).toBe('https://staging.example.com/items?limit=10');
+  });
+
+  it('requires the params without a default when no environment is chosen', () => {
+    expect(compile({}).errors.map(error => error.message)).toEqual([
+      'Missing values for required parameters: token (string)'
+    ]);
+    const result = compile({ params: { token: 'local' } });
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.name).toBe('Sync');
+  });
+
+  it('lets --param values win over the environment', () => {
+    const result = compile({ environment: 'staging', params: { apiUrl: 'https://eu.staging.example.com' } });
+    expect(result.workflow!.nodes[1].parameters.url).toBe('https://eu.staging.example.com/items?limit=10');
+  });
+
+  it('rejects unknown environments and values for undeclared names', () => {
+    expect(compile({ environment: 'qa' }).errors.map(error => error.message)).toEqual([
+      "Unknown environment 'qa' (the workflow declares: staging, production)"
+    ]);
+    const result = compile({}, SOURCE.replace('pageSize = 100', 'pageSize = 100\n    timeout = 30'));
+    expect(result.errors.map(error => [error.message, error.line, error.column])).toContainEqual([
+      "Environment 'production' sets 'timeout', which is not a param or var", 15, 5
+    ]);
+  });
+});
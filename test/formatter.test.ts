@@ -0,0 +1,65 @@
+import { format } from '../src/formatter/formatter';
+
+const MESSY = `// Orders
+workflow "Orders" {
+  node start "trigger.manual" {}
+  connect start -> fetch
+  var limit = 5   // max items
+  param region string = 'eu'
+  node fetch "http.request" { url: "https://api.example.com/\${region}", method: 'GET',
+    headers: { 'X-Region': region, Accept: "application/json" } }
+}
+`;
+
+const CANONICAL = `// Orders
+workflow "Orders" {
+  param region string = "eu"
+
+  var limit = 5 // max items
+
+  node start "trigger.manual" {}
+
+  node fetch "http.request" {
+    url:     "https://api.example.com/\${region}"
+    method:  "GET"
+    headers: {
+      "X-Region": region
+      Accept:     "application/json"
+    }
+  }
+
+  connect start -> fetch
+}
+`;
+
+describe('formatter', () => {
+  it('orders params, vars, nodes and connects and aligns properties', () => {
+    expect(format(MESSY)).toBe(CANONICAL);
+  });
+
+  it('leaves formatted source unchanged', () => {
+    expect(format(CANONICAL)).toBe(CANONICAL);
+  });
+
+  it('keeps comments with the statements they describe', () => {
+    const formatted = format(`workflow "W" {
+  // The entry point
+  node start "trigger.manual" {}
+  node fetch "http.request" {
+    // Where the data comes from
+    url: "https://api.example.com"
+  }
+  connect start -> fetch // Only path
+}`);
+    expect(formatted).toContain('  // The entry point\n  node start "trigger.manual" {}');
+    expect(formatted).toContain('    // Where the data comes from\n    url: "https://api.example.com"');
+    expect(formatted).toContain('connect start -> fetch // Only path');
+  });
+
+  it('drops the optional commas between node parameters', () => {
+    const formatted = format(`workflow "W" {
+  node fetch "http.request" { url: "https://api.example.com", method: "POST", }
+}`);
+    expect(formatted).toContain('    url:    "https://api.example.com"\n    method: "POST"\n');
+  });
+});
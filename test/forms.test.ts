@@ -0,0 +1,79 @@
+import { Parser, ParseError } from '../src/parser/parser';
+import { Compiler, CompilerResult } from '../src/compiler';
+import { format } from '../src/formatter/formatter';
+
+const FORM = `workflow "Form" {
+  node signup "trigger.form" {
+    title: "Join the beta"
+    path: "beta"
+    fields: [
+      text "Full Name" required placeholder "Jane Doe",
+      email "Email" required,
+      dropdown "Plan" ["free", "pro"] multiple,
+      "Notes"
+    ]
+    responseMode: "responseNode"
+  }
+  node welcome "integration.email" { to: signup.output.Email, subject: "Welcome, \${signup.output.Nickname}" }
+  node done "flow.respond" { body: { ok: true } }
+  connect signup -> welcome -> done
+}`;
+
+function compile(source: string): CompilerResult {
+  return new Compiler({ autoLayout: false }).compile(source);
+}
+
+function parseError(source: string): ParseError {
+  try {
+    new Parser(source).parse();
+  } catch (error) {
+    return error as ParseError;
+  }
+  throw new Error('Expected a parse error');
+}
+
+describe('form trigger', () => {
+  it('maps the field shorthand to n8n form fields', () => {
+    const result = compile(FORM);
+    expect(result.errors).toEqual([]);
+    const signup = result.workflow!.nodes.find(node => node.name === 'signup')!;
+    expect(signup.type).toBe('n8n-nodes-base.formTrigger');
+    expect(signup.parameters.formTitle).toBe('Join the beta');
+    expect(signup.parameters.formFields.values).toEqual([
+      { fieldLabel: 'Full Name', placeholder: 'Jane Doe', requiredField: true },
+      { fieldLabel: 'Email', fieldType: 'email', requiredField: true },
+      {
+        fieldLabel: 'Plan',
+        fieldType: 'dropdown',
+        fieldOptions: { values: [{ option: 'free' }, { option: 'pro' }] },
+        multiselect: true
+      },
+      { fieldLabel: 'Notes' }
+    ]);
+  });
+
+  it('reads answers by label and warns about missing fields', () => {
+    const result = compile(FORM);
+    const welcome = result.workflow!.nodes.find(node => node.name === 'welcome')!;
+    expect(welcome.parameters.sendTo).toBe('={{ $json.Email }}');
+    expect(result.warnings.map(warning => warning.message)).toContain("Form 'signup' has no field 'Nickname'");
+  });
+
+  it('formats the shorthand as written', () => {
+    const formatted = format(FORM);
+    expect(formatted).toContain('text "Full Name" required placeholder "Jane Doe"');
+    expect(formatted).toContain('dropdown "Plan" ["free", "pro"] multiple');
+  });
+
+  it('only takes the shorthand in the fields of a form trigger', () => {
+    const error = parseError(`workflow "W" {
+  node tag "data.set" { assignments: { labels: [text "Name"] } }
+}`);
+    expect(error.message).toContain('the form field shorthand is only for the fields of a trigger.form node');
+    expect(error.token.line).toBe(2);
+
+    expect(parseError(`workflow "W" {
+  node signup "trigger.form" { fields: [dropdown "Plan" [free "pro"]] }
+}`).message).toContain('form field shorthand');
+  });
+});
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Compiler } from '../src/compiler';
+import { createLockFile } from '../src/utils/lockFile';
+import { deriveNodeId, uuidV5, IdSequence } from '../src/utils/ids';
+import { N8nWorkflow } from '../src/types/n8n';
+
+function compile(source: string, options = {}): N8nWorkflow {
+  const result = new Compiler({ autoLayout: false, ...options }).compile(source);
+  expect(result.errors).toEqual([]);
+  return result.workflow!;
+}
+
+// The ids of the conditions and assignments of each node, in order
+function innerIds(workflow: N8nWorkflow): Record<string, string[]> {
+  return Object.fromEntries(workflow.nodes.map(node => [node.name, [
+    ...(node.parameters.conditions?.conditions || []),
+    ...(node.parameters.assignments?.assignments || []),
+    ...(node.parameters.rules?.values || []).flatMap((rule: any) => rule.conditions.conditions)
+  ].map((item: any) => item.id)]));
+}
+
+const WORKFLOW = (values: string) => `workflow "Ids" {
+  node start "trigger.manual" {}
+  node check "flow.if" { condition: ${values.includes('big') ? '"{{ $json.total }} > 500"' : '"{{ $json.total }} > 100"'} }
+  node fields "data.set" { assignments: { status: "${values}", checkedAt: now() } }
+  node route "flow.switch" {
+    rules: [{ condition: "{{ $json.kind }} == 'a'" }, { condition: "{{ $json.kind }} == 'b'" }]
+  }
+  connect start -> check
+  connect check.true -> fields -> route
+}`;
+
+describe('derived ids', () => {
+  it('derives version 5 UUIDs', () => {
+    expect(uuidV5('a')).toBe(uuidV5('a'));
+    expect(uuidV5('a')).not.toBe(uuidV5('b'));
+    expect(uuidV5('a')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  it('numbers repeated names in a sequence', () => {
+    const ids = new IdSequence('node');
+    const [first, second, other] = [ids.next('x'), ids.next('x'), ids.next('y')];
+    expect(new Set([first, second, other]).size).toBe(3);
+    expect(new IdSequence('node').next('y')).toBe(other);
+  });
+
+  it('compiles the same source to the same JSON', () => {
+    const file = path.join(__dirname, '../examples/lead-processor.n8n');
+    const source = fs.readFileSync(file, 'utf8');
+    const first = compile(source, { sourcePath: file });
+    const second = compile(source, { sourcePath: file });
+    expect(second.nodes.map(node => node.id)).toEqual(first.nodes.map(node => node.id));
+    expect(innerIds(second)).toEqual(innerIds(first));
+  });
+
+  it('keeps condition and assignment ids when values change', () => {
+    const before = compile(WORKFLOW('new'));
+    const after = compile(WORKFLOW('big'));
+    expect(innerIds(after)).toEqual(innerIds(before));
+    expect(new Set(Object.values(innerIds(before)).flat()).size).toBe(5);
+  });
+
+  it('gives different nodes different inner ids', () => {
+    const ids = innerIds(compile(WORKFLOW('new')));
+    expect(ids.route[0]).not.toBe(ids.check[0]);
+  });
+});
+
+describe('node ids', () => {
+  const source = (name: string, annotation = '') => `workflow "Ids" {
+  node start "trigger.manual" {}
+  ${annotation}node ${name} "data.set" {}
+  connect start -> ${name}
+}`;
+
+  it('derives node ids from the workflow and node names', () => {
+    const workflow = compile(source('fields'));
+    expect(workflow.nodes[1].id).toBe(deriveNodeId('Ids', 'fields'));
+  });
+
+  it('takes @id over the derived id', () => {
+    const workflow = compile(source('fields', '@id("fixed-id")\n  '));
+    expect(workflow.nodes[1].id).toBe('fixed-id');
+  });
+
+  it('keeps the id of a renamed node through the lock file', () => {
+    const lock = createLockFile(compile(source('fields')));
+    const renamed = compile(source('details'), { lock });
+    expect(renamed.nodes[1].id).toBe(lock.nodes.fields.id);
+    expect(renamed.nodes[0].id).toBe(lock.nodes.start.id);
+  });
+});
@@ -0,0 +1,109 @@
+import { Compiler } from '../src/compiler';
+import { decompile } from '../src/decompiler/decompiler';
+import { N8nNode } from '../src/types/n8n';
+
+function compile(nodeType: string, params: string): N8nNode {
+  const result = new Compiler({ autoLayout: false }).compile(`workflow "Integrations" {
+  node start "trigger.manual" {}
+  node last "${nodeType}" { ${params} }
+  connect start -> last
+}`);
+  expect(result.errors).toEqual([]);
+  return result.workflow!.nodes[1];
+}
+
+describe('slack', () => {
+  it('posts to a channel by name or id', () => {
+    const byName = compile('integration.slack', 'channel: "#alerts", text: "Deploy done"');
+    expect(byName.typeVersion).toBe(2.3);
+    expect(byName.parameters).toEqual({
+      select: 'channel',
+      channelId: { __rl: true, value: '#alerts', mode: 'name' },
+      text: 'Deploy done',
+      otherOptions: {}
+    });
+    expect(compile('integration.slack', 'channel: "C0123ABCDE", text: "hi", thread: "1700000000.0001"').parameters)
+      .toMatchObject({
+        channelId: { __rl: true, value: 'C0123ABCDE', mode: 'id' },
+        otherOptions: { thread_ts: { replyValues: { thread_ts: '1700000000.0001' } } }
+      });
+  });
+
+  it('sends blocks with the text as the notification', () => {
+    const { parameters } = compile('integration.slack', 'user: "@ana", text: "New lead", blocks: [{ type: "divider" }]');
+    expect(parameters).toMatchObject({
+      select: 'user',
+      user: { __rl: true, value: '@ana', mode: 'username' },
+      messageType: 'block',
+      text: 'New lead'
+    });
+    expect(JSON.parse(parameters.blocksUi)).toEqual({ blocks: [{ type: 'divider' }] });
+  });
+
+  it('updates messages, reacts and uploads files', () => {
+    expect(compile('integration.slack', 'operation: "update", channel: "#alerts", ts: "1.2", text: "Fixed"').parameters)
+      .toMatchObject({ operation: 'update', ts: '1.2', text: 'Fixed' });
+    expect(compile('integration.slack', 'operation: "react", channel: "#alerts", ts: "1.2", emoji: "eyes"').parameters)
+      .toEqual({
+        resource: 'reaction',
+        operation: 'add',
+        channelId: { __rl: true, value: '#alerts', mode: 'name' },
+        timestamp: '1.2',
+        name: 'eyes'
+      });
+    expect(compile('integration.slack', 'operation: "upload", channel: "C0123ABCDE", fileName: "report.csv"').parameters)
+      .toEqual({
+        resource: 'file',
+        operation: 'upload',
+        binaryData: true,
+        binaryPropertyName: 'data',
+        options: { channelIds: ['C0123ABCDE'], fileName: 'report.csv' }
+      });
+  });
+});
+
+describe('google sheets', () => {
+  const SHEET = 'document: "1AbCdEfGhIjK", sheet: "Leads"';
+
+  it('appends rows from the given columns', () => {
+    const node = compile('integration.sheets', `${SHEET}, columns: { email: "{{ $json.email }}", score: 5 }`);
+    expect(node.typeVersion).toBe(4.6);
+    expect(node.parameters).toMatchObject({
+      operation: 'append',
+      documentId: { __rl: true, value: '1AbCdEfGhIjK', mode: 'id' },
+      sheetName: { __rl: true, value: 'Leads', mode: 'name' },
+      columns: { mappingMode: 'defineBelow', value: { email: '={{ $json.email }}', score: 5 }, matchingColumns: [] }
+    });
+    expect(node.parameters.columns.schema.map((column: any) => column.id)).toEqual(['email', 'score']);
+  });
+
+  it('maps input fields by name when no columns are given', () => {
+    expect(compile('integration.sheets', `${SHEET}, operation: "upsert", matchOn: "email"`).parameters.columns).toEqual({
+      mappingMode: 'autoMapInputData',
+      value: {},
+      matchingColumns: ['email'],
+      schema: []
+    });
+  });
+
+  it('looks rows up by column values', () => {
+    expect(compile('integration.sheets', `${SHEET}, operation: "lookup", where: { email: "a@b.c" }, first: true`).parameters)
+      .toMatchObject({
+        operation: 'read',
+        filtersUI: { values: [{ lookupColumn: 'email', lookupValue: 'a@b.c' }] },
+        options: { returnFirstMatch: true }
+      });
+  });
+
+  it('decompiles to the DSL it came from', () => {
+    const result = new Compiler({ autoLayout: false }).compile(`workflow "Sheets" {
+  node start "trigger.manual" {}
+  node find "integration.sheets" { ${SHEET}, operation: "lookup", where: { email: "a@b.c" }, range: "A1:D100" }
+  connect start -> find
+}`);
+    expect(decompile(result.workflow!)).toContain(
+      'node find "integration.sheets" {\n    operation: "lookup"\n    document: "1AbCdEfGhIjK"\n    sheet: "Leads"\n' +
+      '    where: {\n      email: "a@b.c"\n    }\n    range: "A1:D100"\n  }'
+    );
+  });
+});
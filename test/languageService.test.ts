@@ -0,0 +1,90 @@
+import { LanguageService } from '../src/lsp/languageService';
+
+const URI = 'file:///tmp/orders.n8n';
+
+const SOURCE = `workflow "Orders" {
+  param region string = "eu"
+  var limit = 5
+  node start "trigger.manual" {}
+  node fetch "http.request" { url: "https://api.example.com/\${region}" }
+  node check "flow.if" { condition: "\${fetch.output.ok} == true" }
+  connect start -> fetch -> check
+}`;
+
+// The source with one line replaced, as it looks while being typed
+function editing(line: number, text: string): string {
+  const lines = SOURCE.split('\n');
+  lines[line] = text;
+  return lines.join('\n');
+}
+
+function labels(service: LanguageService, text: string, line: number, character: number): string[] {
+  return service.getCompletions(URI, text, { line, character }).map(item => item.label);
+}
+
+describe('language service', () => {
+  let service: LanguageService;
+
+  beforeEach(() => {
+    service = new LanguageService();
+    // Completion falls back on the last version of the document that parsed
+    service.getCompletions(URI, SOURCE, { line: 0, character: 0 });
+  });
+
+  it('reports problems with their ranges', () => {
+    const text = editing(6, '  connect start -> fetch -> missing');
+    const [error, warning] = service.getDiagnostics(URI, text);
+    expect(error).toEqual({
+      range: { start: { line: 6, character: 28 }, end: { line: 6, character: 35 } },
+      severity: 1,
+      message: "Connection target node 'missing' does not exist",
+      source: 'n8n-dsl'
+    });
+    expect(warning).toMatchObject({ severity: 2, message: "Node 'check' is not connected to any other nodes" });
+    expect(service.getDiagnostics(URI, SOURCE).filter(diagnostic => diagnostic.severity === 1)).toEqual([]);
+  });
+
+  it('completes node types', () => {
+    const items = service.getCompletions(URI, 'workflow "W" {\n  node a "http.re', { line: 1, character: 16 });
+    const http = items.find(item => item.label === 'http.request')!;
+    expect(http.detail).toBe('n8n-nodes-base.httpRequest');
+    expect(http.textEdit).toEqual({
+      range: { start: { line: 1, character: 10 }, end: { line: 1, character: 16 } },
+      newText: 'http.request'
+    });
+  });
+
+  it('completes the parameters of a node and its settings', () => {
+    const items = labels(service, editing(4, '  node fetch "http.request" {\n    \n  }'), 5, 4);
+    expect(items).toEqual(expect.arrayContaining(['url', 'method', 'headers', 'position', 'credentials']));
+  });
+
+  it('completes the outputs of a node in connect statements', () => {
+    expect(labels(service, editing(6, '  connect check.'), 6, 16)).toEqual(['main', 'true', 'false', 'output1', 'output2']);
+  });
+
+  it('completes names inside interpolations', () => {
+    const text = editing(4, '  node fetch "http.request" { url: "${re');
+    expect(labels(service, text, 4, 39)).toEqual(['region', 'limit', 'start', 'fetch', 'check']);
+  });
+
+  it('goes to the declaration of a node', () => {
+    expect(service.getDefinition(URI, SOURCE, { line: 6, character: 20 })).toEqual({
+      uri: URI,
+      range: { start: { line: 4, character: 7 }, end: { line: 4, character: 12 } }
+    });
+  });
+
+  it('describes a node type on hover', () => {
+    const hover = service.getHover(URI, SOURCE, { line: 4, character: 17 })!;
+    expect(hover.contents).toMatchObject({ kind: 'markdown' });
+    expect((hover.contents as { value: string }).value).toContain('n8n type `n8n-nodes-base.httpRequest`');
+  });
+
+  it('renames a node with its references', () => {
+    const edit = service.rename(URI, SOURCE, { line: 4, character: 8 }, 'load')!;
+    const ranges = edit.changes![URI].map(change => [change.range.start.line, change.range.start.character, change.newText]);
+    expect(ranges).toEqual(expect.arrayContaining([[4, 7, 'load'], [6, 19, 'load'], [5, 39, 'load']]));
+    expect(ranges).toHaveLength(3);
+  });
+});
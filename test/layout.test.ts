@@ -0,0 +1,64 @@
+import { Compiler, CompilerOptions } from '../src/compiler';
+
+function positions(body: string, options: CompilerOptions = {}): Record<string, [number, number]> {
+  const result = new Compiler(options).compile(`workflow "Layout" {\n${body}\n}`);
+  expect(result.errors).toEqual([]);
+  return Object.fromEntries(result.workflow!.nodes.map(node => [node.name, node.position]));
+}
+
+const BRANCHES = `
+  node start "trigger.manual" {}
+  node check "flow.if" { condition: "\${start.output.ok} == true" }
+  node yes "data.set" {}
+  node no "data.set" {}
+  node done "flow.merge" {}
+  connect start -> check
+  connect check.true -> yes -> done.input1
+  connect check.false -> no -> done.input2`;
+
+const LOOP = `
+  node start "trigger.manual" {}
+  node batch "flow.splitInBatches" { batchSize: 10 }
+  node save "http.request" { url: "https://api.example.com" }
+  node report "data.set" {}
+  connect start -> batch
+  connect batch.loop -> save -> batch
+  connect batch.done -> report`;
+
+describe('auto-layout', () => {
+  it('ranks nodes by their distance from the trigger and spreads branches', () => {
+    expect(positions(BRANCHES)).toEqual({
+      start: [0, 0],
+      check: [200, 0],
+      yes: [400, -100],
+      no: [400, 100],
+      done: [600, 0]
+    });
+  });
+
+  it('keeps a loop going forward from the node it returns to', () => {
+    expect(positions(LOOP)).toEqual({
+      start: [0, 0],
+      batch: [200, 0],
+      save: [400, 100],
+      report: [400, -100]
+    });
+  });
+
+  it('puts unconnected nodes below the graph and sticky notes above it', () => {
+    const placed = positions(`${BRANCHES}
+  node lonely "data.set" {}
+  node note "n8n-nodes-base.stickyNote" { content: "Read me" }`);
+    expect(placed.lonely).toEqual([0, 300]);
+    expect(placed.note).toEqual([0, -400]);
+  });
+
+  it('takes the direction, spacing and start position from the options', () => {
+    expect(positions(LOOP, { layoutDirection: 'vertical', spacing: 300, startPosition: [100, 50] })).toEqual({
+      start: [100, 50],
+      batch: [100, 350],
+      save: [200, 650],
+      report: [0, 650]
+    });
+  });
+});
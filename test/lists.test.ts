@@ -0,0 +1,103 @@
+import { Compiler } from '../src/compiler';
+import { N8nNode } from '../src/types/n8n';
+
+function compile(body: string) {
+  return new Compiler({ autoLayout: false }).compile(`workflow "Lists" {
+  node start "trigger.manual" {}
+${body}
+}`);
+}
+
+function node(nodeType: string, params: string): N8nNode {
+  const result = compile(`  node last "${nodeType}" { ${params} }
+  connect start -> last`);
+  expect(result.errors).toEqual([]);
+  return result.workflow!.nodes[1];
+}
+
+describe('list nodes', () => {
+  it('splits a list out into items', () => {
+    expect(node('flow.splitOut', 'field: "lines", include: ["id", "customer"], as: "line"').parameters).toEqual({
+      fieldToSplitOut: 'lines',
+      include: 'selectedOtherFields',
+      fieldsToInclude: 'id, customer',
+      options: { destinationFieldName: 'line' }
+    });
+    expect(node('flow.splitOut', 'field: "lines", include: "all"').parameters.include).toBe('allOtherFields');
+  });
+
+  it('aggregates single fields or whole items', () => {
+    expect(node('flow.aggregate', 'fields: ["id", { field: "total", as: "totals" }], mergeLists: true').parameters).toEqual({
+      fieldsToAggregate: {
+        fieldToAggregate: [
+          { fieldToAggregate: 'id' },
+          { fieldToAggregate: 'total', renameField: true, outputFieldName: 'totals' }
+        ]
+      },
+      options: { mergeLists: true }
+    });
+    expect(node('flow.aggregate', 'all: "orders", exclude: ["secret"]').parameters).toEqual({
+      aggregate: 'aggregateAllItemData',
+      destinationFieldName: 'orders',
+      include: 'allFieldsExcept',
+      fieldsToExclude: 'secret',
+      options: {}
+    });
+  });
+
+  it('merges inputs by mode', () => {
+    expect(node('flow.merge', 'on: { id: "orderId" }, join: "enrichInput1"').parameters).toEqual({
+      mode: 'combine',
+      advanced: true,
+      mergeByFields: { values: [{ field1: 'id', field2: 'orderId' }] },
+      joinMode: 'enrichInput1',
+      options: {}
+    });
+    expect(node('flow.merge', 'mode: "position", includeUnpaired: true').parameters).toEqual({
+      mode: 'combine',
+      combineBy: 'combineByPosition',
+      options: { includeUnpaired: true }
+    });
+    expect(node('flow.merge', 'mode: "choose", input: 2').parameters).toEqual({
+      mode: 'chooseBranch',
+      useDataOfInput: 2,
+      options: {}
+    });
+  });
+});
+
+describe('batching', () => {
+  const LOOP = `  node batch "flow.splitInBatches" { batchSize: 10 }
+  node save "http.request" { url: "https://api.example.com" }
+  node report "data.set" {}
+  connect start -> batch`;
+
+  it('sends batches to loop and all items to done', () => {
+    const result = compile(`${LOOP}
+  connect batch.loop -> save -> batch
+  connect batch.done -> report`);
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.nodes[1].parameters).toEqual({ batchSize: 10, options: {} });
+    expect(result.workflow!.connections.batch.main).toEqual([
+      [{ node: 'report', type: 'main', index: 0 }],
+      [{ node: 'save', type: 'main', index: 0 }]
+    ]);
+  });
+
+  it('requires the loop to lead back to the batcher', () => {
+    const result = compile(`${LOOP}
+  connect batch.loop -> save
+  connect batch.done -> report`);
+    expect(result.errors.map(error => error.message)).toEqual([
+      "The loop of 'batch' (flow.splitInBatches) never leads back to it; connect its last node to batch"
+    ]);
+  });
+
+  it('warns when nothing is connected to the loop output', () => {
+    const result = compile(`${LOOP}
+  connect batch -> save -> report`);
+    expect(result.warnings.map(warning => warning.message)).toContain(
+      "Node 'batch' (flow.splitInBatches) has nothing on its loop output; connect batch.loop, not batch, to the loop"
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { Compiler } from '../src/compiler';
+import { N8nNode } from '../src/types/n8n';
+
+function compile(fetch: string) {
+  return new Compiler().compile(`workflow "Settings" {
+  node start "trigger.manual" {}
+  node fetch "http.request" {
+    url: "https://api.example.com"
+    ${fetch}
+  }
+  node after "data.set" {}
+  connect start -> fetch -> after
+}`);
+}
+
+function nodes(fetch: string): Record<string, N8nNode> {
+  const result = compile(fetch);
+  expect(result.errors).toEqual([]);
+  return Object.fromEntries(result.workflow!.nodes.map(node => [node.name, node]));
+}
+
+describe('node settings', () => {
+  it('sets reserved keys on the node rather than in its parameters', () => {
+    const { fetch } = nodes(`disabled: true
+    notes: "Slow API"
+    retryOnFail: true
+    maxTries: 3
+    onError: "continueRegularOutput"`);
+    expect(fetch).toMatchObject({
+      disabled: true,
+      notes: 'Slow API',
+      retryOnFail: true,
+      maxTries: 3,
+      onError: 'continueRegularOutput'
+    });
+    expect(Object.keys(fetch.parameters)).not.toEqual(expect.arrayContaining(['disabled', 'notes', 'onError']));
+  });
+
+  it('keeps a pinned position and lays the other nodes out around it', () => {
+    const { start, fetch, after } = nodes('position: [1000, 600]');
+    expect(fetch.position).toEqual([1000, 600]);
+    expect(fetch.parameters.position).toBeUndefined();
+    expect(start.position).toEqual([800, 600]);
+    expect(after.position).toEqual([1200, 600]);
+  });
+
+  it('checks the values of settings', () => {
+    const messages = (fetch: string) => compile(fetch).errors.map(error => error.message);
+    expect(messages('position: [1000]')).toEqual(['position must be [x, y] with two numbers at line 5, column 15']);
+    expect(messages('onError: "ignore"')).toEqual([
+      "Node 'fetch': onError must be one of 'stopWorkflow', 'continueRegularOutput', 'continueErrorOutput'"
+    ]);
+    expect(messages('disabled: "yes"')).toEqual(["Node 'fetch': disabled must be a boolean"]);
+  });
+});
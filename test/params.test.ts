@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Compiler, CompilerOptions } from '../src/compiler';
+import { parseParamAssignments, readParamsFile } from '../src/utils/params';
+
+function compile(body: string, options: CompilerOptions = {}) {
+  return new Compiler({ autoLayout: false, ...options }).compile(`workflow "Params" {
+${body}
+  node start "trigger.manual" {}
+  node fetch "http.request" { url: "https://api.example.com/\${limit}" }
+  connect start -> fetch
+}`);
+}
+
+function messages(body: string, options: CompilerOptions = {}): string[] {
+  return compile(body, options).errors.map(error => error.message);
+}
+
+// The message of the only error, with where it was reported
+function located(body: string): [string, number?, number?] {
+  const errors = compile(body).errors;
+  expect(errors).toHaveLength(1);
+  return [errors[0].message, errors[0].line, errors[0].column];
+}
+
+describe('param types', () => {
+  it('reads the block form with its rules', () => {
+    const result = compile(`  param limit number {
+    min: 1
+    max: 1000
+    default: 100
+    description: "Items per page"
+  }`);
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.nodes[1].parameters.url).toBe('https://api.example.com/100');
+  });
+
+  it('checks defaults against the type and rules, at the value', () => {
+    expect(located('  param limit number { min: 1 max: 1000 default: 5000 }')).toEqual([
+      "Parameter 'limit' must be at most 1000, got 5000", 2, 50
+    ]);
+    expect(located('  param limit number = "ten"')).toEqual(["Parameter 'limit' must be a number, got a string", 2, 24]);
+    expect(messages('  param limit string { pattern: "^[a-z]+$" default: "EU" }')).toEqual([
+      "Parameter 'limit' must match /^[a-z]+$/, got 'EU'"
+    ]);
+    expect(messages('  param limit string { allowed: ["eu", "us"] default: "asia" }')).toEqual([
+      "Parameter 'limit' must be one of 'eu', 'us', got 'asia'"
+    ]);
+  });
+
+  it('only allows null for nullable params', () => {
+    expect(messages('  param limit string? = null')).toEqual([]);
+    expect(messages('  param limit string = null')).toEqual(["Parameter 'limit' must be a string, got null"]);
+  });
+
+  it('rejects unknown types and misplaced rules', () => {
+    expect(messages('  param limit integer = 5')[0]).toMatch(/^Unknown parameter type 'integer', expected one of string, /);
+    expect(located('  param limit string { min: 1 default: "a" }')).toEqual([
+      "'min' of parameter 'limit' only applies to number parameters", 2, 3
+    ]);
+  });
+
+  it('checks the types of var initialisers', () => {
+    expect(located(`  param size number = 5
+  var limit = size * "two"`)).toEqual(["'*' needs a number, but the operand is a string", 3, 22]);
+  });
+
+  it('checks the values given to a module', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-dsl-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'page.n8n'), `module "page" {
+  param size number { min: 1 max: 100 default: 10 }
+  node fetch "http.request" { url: "https://api.example.com/\${size}" }
+}`);
+      const result = new Compiler({ autoLayout: false, sourcePath: path.join(dir, 'main.n8n') }).compile(`workflow "Pages" {
+  node start "trigger.manual" {}
+  module page = ./page.n8n { size: 500 }
+  connect start -> page
+}`);
+      expect(result.errors.map(error => error.message)).toEqual([
+        "Module 'page' (./page.n8n): Parameter 'size' must be at most 100, got 500"
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('supplied param values', () => {
+  const REQUIRED = `  param limit number
+  param region string = "eu"`;
+
+  it('uses values from the options over defaults, coerced to the declared type', () => {
+    const result = compile(REQUIRED, { params: parseParamAssignments(['limit=25', 'region=us']) });
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.nodes[1].parameters.url).toBe('https://api.example.com/25');
+  });
+
+  it('lists the required params without a value', () => {
+    expect(messages(`${REQUIRED}
+  param token string`)).toEqual(['Missing values for required parameters: limit (number), token (string)']);
+    expect(compile(REQUIRED, { allowMissingParams: true }).errors).toEqual([]);
+  });
+
+  it('rejects values of the wrong type and params the workflow does not declare', () => {
+    expect(messages(REQUIRED, { params: { limit: 'many' } })).toEqual(["Parameter 'limit' must be a number, got 'many'"]);
+    expect(messages(REQUIRED, { params: { limit: 5, page: 2 } })).toEqual([
+      "Unknown parameter 'page' (the workflow declares: limit, region)"
+    ]);
+  });
+
+  it('reads --param assignments and params files', () => {
+    expect(parseParamAssignments(['url=https://x.io/?a=b'])).toEqual({ url: 'https://x.io/?a=b' });
+    expect(() => parseParamAssignments(['limit'])).toThrow("Invalid --param 'limit', expected key=value");
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-dsl-'));
+    try {
+      const yaml = path.join(dir, 'customer.yaml');
+      fs.writeFileSync(yaml, 'limit: 25 # per page\nregion: \'us\'\ntags: ["a", "b"]\nnote:\n');
+      expect(readParamsFile(yaml)).toEqual({ limit: 25, region: 'us', tags: ['a', 'b'], note: null });
+
+      const json = path.join(dir, 'customer.json');
+      fs.writeFileSync(json, '[1, 2]');
+      expect(() => readParamsFile(json)).toThrow(`Params file '${json}' must contain an object of parameter values`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
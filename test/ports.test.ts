@@ -0,0 +1,100 @@
+import { getNodePorts, getTypePorts, findPort, portNames } from '../src/generator/ports';
+import { Compiler } from '../src/compiler';
+import { decompile } from '../src/decompiler/decompiler';
+import { N8nNode } from '../src/types/n8n';
+
+function node(type: string, parameters: Record<string, any> = {}, extra: Partial<N8nNode> = {}): N8nNode {
+  return { id: '1', name: 'n', type, typeVersion: 3, position: [0, 0], parameters, ...extra };
+}
+
+function compile(body: string) {
+  return new Compiler({ autoLayout: false }).compile(`workflow "W" {\n${body}\n}`);
+}
+
+describe('port definitions', () => {
+  it('names the outputs of if and loop nodes', () => {
+    expect(findPort(getTypePorts('n8n-nodes-base.if').outputs, 'false', 'output')).toEqual({ type: 'main', index: 1 });
+    expect(findPort(getTypePorts('n8n-nodes-base.splitInBatches').outputs, 'loop', 'output')).toEqual({ type: 'main', index: 1 });
+  });
+
+  it('numbers outputs and inputs from 1', () => {
+    const switchPorts = getNodePorts(node('n8n-nodes-base.switch', { rules: { values: [{}, {}] } }));
+    expect(findPort(switchPorts.outputs, 'output1', 'output')).toEqual({ type: 'main', index: 0 });
+    expect(findPort(switchPorts.outputs, 'output2', 'output')).toEqual({ type: 'main', index: 1 });
+    expect(findPort(switchPorts.outputs, 'output0', 'output')).toBeUndefined();
+    expect(findPort(switchPorts.outputs, 'output3', 'output')).toBeUndefined();
+
+    const merge = getNodePorts(node('n8n-nodes-base.merge', { numberInputs: 3 }));
+    expect(portNames(merge.inputs, 'input')).toEqual(['main', 'input1', 'input2', 'input3']);
+    expect(findPort(merge.inputs, 'input1', 'input')).toEqual({ type: 'main', index: 0 });
+    expect(findPort(merge.inputs, 'input3', 'input')).toEqual({ type: 'main', index: 2 });
+    expect(findPort(merge.inputs, 'input0', 'input')).toBeUndefined();
+    expect(findPort(merge.inputs, 'input4', 'input')).toBeUndefined();
+  });
+
+  it('names switch outputs after their rules and the fallback', () => {
+    const ports = getNodePorts(node('n8n-nodes-base.switch', {
+      rules: { values: [{ renameOutput: true, outputKey: 'hot' }, {}] },
+      options: { fallbackOutput: 'extra', renameFallbackOutput: 'rest' }
+    }));
+    expect(portNames(ports.outputs, 'output')).toEqual(['main', 'hot', 'fallback', 'rest', 'output1', 'output2', 'output3']);
+    expect(findPort(ports.outputs, 'rest', 'output')).toEqual({ type: 'main', index: 2 });
+  });
+
+  it('adds an error output after the regular ones', () => {
+    const ports = getNodePorts(node('n8n-nodes-base.if', {}, { onError: 'continueErrorOutput' }));
+    expect(findPort(ports.outputs, 'error', 'output')).toEqual({ type: 'main', index: 2 });
+    expect(getTypePorts('n8n-nodes-base.code').outputs.names.error).toBeUndefined();
+  });
+
+  it('gives triggers no inputs and sub-nodes their own connection type', () => {
+    expect(getTypePorts('n8n-nodes-base.manualTrigger').inputs.count).toBe(0);
+    expect(getTypePorts('@n8n/n8n-nodes-langchain.lmChatOpenAi').outputs.names)
+      .toEqual({ languageModel: { type: 'ai_languageModel', index: 0 } });
+  });
+});
+
+describe('connections through ports', () => {
+  const NODES = `
+    node start "trigger.manual" {}
+    node a "data.set" {}
+    node b "data.set" {}
+    node m "flow.merge" {}`;
+
+  it('wires named inputs to their index', () => {
+    const result = compile(`${NODES}
+      connect start -> [a, b]
+      connect a -> m.input2
+      connect b -> m.input1`);
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.connections.a.main[0]).toEqual([{ node: 'm', type: 'main', index: 1 }]);
+    expect(result.workflow!.connections.b.main[0]).toEqual([{ node: 'm', type: 'main', index: 0 }]);
+  });
+
+  it('rejects ports the node does not have', () => {
+    const result = compile(`${NODES}
+      connect start -> a
+      connect a -> m.input3`);
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toBe("Node 'm' (n8n-nodes-base.merge) has no input 'input3'; it has main, input1, input2");
+    expect([result.errors[0].line, result.errors[0].column]).toEqual([8, 20]);
+  });
+
+  it('rejects a merge input outside its inputs', () => {
+    const result = compile(`
+      node m "flow.merge" { mode: "choose", input: 3 }`);
+    expect(result.errors[0].message).toBe("Merge 'm' has no input 3; its inputs are numbered 1 to 2");
+  });
+
+  it('decompiles inputs with the names it compiles', () => {
+    const source = decompile({
+      name: 'W',
+      nodes: [
+        node('n8n-nodes-base.manualTrigger', {}, { name: 'Start', typeVersion: 1 }),
+        node('n8n-nodes-base.merge', {}, { id: '2', name: 'Merge' })
+      ],
+      connections: { Start: { main: [[{ node: 'Merge', type: 'main', index: 1 }]] } }
+    } as any);
+    expect(source).toContain('connect Start -> Merge.input2');
+  });
+});
@@ -0,0 +1,57 @@
+import { Compiler, CompilerOptions } from '../src/compiler';
+import { REDACTED } from '../src/utils/secrets';
+
+const ENV = { DSL_TEST_HOST: 'api.example.com', DSL_TEST_TOKEN: 's3cr3t-t0ken', DSL_TEST_MODE: 'live' };
+
+function compile(body: string, options: CompilerOptions = {}) {
+  return new Compiler({ autoLayout: false, ...options }).compile(`workflow "Secrets" {
+  node start "trigger.manual" {}
+${body}
+  connect start -> fetch
+}`);
+}
+
+describe('secrets', () => {
+  beforeEach(() => Object.assign(process.env, ENV));
+  afterEach(() => Object.keys(ENV).forEach(name => delete process.env[name]));
+
+  it('inlines env() while compiling and leaves runtimeEnv() to n8n', () => {
+    const result = compile(`  node fetch "http.request" {
+    url: "https://\${env('DSL_TEST_HOST')}/items"
+    headers: { Authorization: "Bearer \${runtimeEnv('DSL_TEST_TOKEN')}" }
+  }`);
+    expect(result.errors).toEqual([]);
+    const { parameters } = result.workflow!.nodes[1];
+    expect(parameters.url).toBe('https://api.example.com/items');
+    expect(JSON.stringify(parameters)).toContain('Bearer {{ $env.DSL_TEST_TOKEN }}');
+  });
+
+  it('uses secret() for decisions but never writes its value', () => {
+    const decided = compile(`  var mode = secret("DSL_TEST_MODE") == "live" ? "production" : "sandbox"
+  node fetch "http.request" { url: "https://\${mode}.example.com" }`);
+    expect(decided.errors).toEqual([]);
+    expect(decided.workflow!.nodes[1].parameters.url).toBe('https://production.example.com');
+
+    const leaked = compile(`  node fetch "http.request" { url: "https://api.example.com/?key=\${secret('DSL_TEST_TOKEN')}" }`);
+    expect(leaked.errors.map(error => error.message)).toEqual([
+      "The value of secret('DSL_TEST_TOKEN') would be written into the workflow; " +
+      "use runtimeEnv('DSL_TEST_TOKEN') or a credential to pass it to a node"
+    ]);
+    expect(JSON.stringify(leaked)).not.toContain(ENV.DSL_TEST_TOKEN);
+  });
+
+  it('masks sensitive values in the output and in errors with redact', () => {
+    const body = `  param apiToken string = env("DSL_TEST_TOKEN")
+  node fetch "http.request" { url: "https://api.example.com/?token=\${apiToken}" }`;
+    expect(compile(body).workflow!.nodes[1].parameters.url).toBe(`https://api.example.com/?token=${ENV.DSL_TEST_TOKEN}`);
+    expect(compile(body, { redact: true }).workflow!.nodes[1].parameters.url).toBe(`https://api.example.com/?token=${REDACTED}`);
+
+    const checked = `  param apiToken string { pattern: "^tok-" }
+  node fetch "http.request" { url: "https://api.example.com/?token=\${apiToken}" }`;
+    const params = { apiToken: ENV.DSL_TEST_TOKEN };
+    expect(compile(checked, { params }).errors[0].message).toContain(ENV.DSL_TEST_TOKEN);
+    expect(compile(checked, { params, redact: true }).errors[0].message).toBe(
+      `Parameter 'apiToken' must match /^tok-/, got '${REDACTED}'`
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Compiler } from '../src/compiler';
+
+function messages(source: string, options = {}): string[] {
+  return new Compiler({ autoLayout: false, ...options }).compile(source).errors.map(error => error.message);
+}
+
+const ASSISTANT = `module "assistant" {
+  param toolDescription string = ""
+  node agent "ai.agent" { prompt: "Answer the question" }
+  node lookup "ai.toolCode" { name: "lookup", description: toolDescription, code: "return 'x'" }
+  node model "ai.chatOpenAi" { model: "gpt-4o-mini" }
+  connect lookup -> agent
+  connect model -> agent
+}`;
+
+describe('sub-nodes', () => {
+  it('wires a sub-node to the input of its kind', () => {
+    const result = new Compiler({ autoLayout: false }).compile(`workflow "Agent" {
+  node chat "trigger.chat" {}
+  node agent "ai.agent" {}
+  node model "ai.chatOpenAi" { model: "gpt-4o-mini" }
+  connect chat -> agent
+  connect model -> agent
+}`);
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.connections.model).toEqual({
+      ai_languageModel: [[{ node: 'agent', type: 'ai_languageModel', index: 0 }]]
+    });
+  });
+
+  it('requires the model of an agent', () => {
+    expect(messages(`workflow "Agent" {
+  node chat "trigger.chat" {}
+  node agent "ai.agent" {}
+  connect chat -> agent
+}`)).toEqual(["Node 'agent' (ai.agent) needs a languageModel sub-node: connect one to agent.languageModel"]);
+  });
+
+  it('requires the name and description of a code tool', () => {
+    expect(messages(`workflow "Tool" {
+  node chat "trigger.chat" {}
+  node agent "ai.agent" {}
+  node model "ai.chatOpenAi" {}
+  node lookup "ai.toolCode" { name: "", code: "return 'x'" }
+  connect chat -> agent
+  connect model -> agent
+  connect lookup -> agent
+}`)).toEqual([
+      "Node 'lookup' (ai.toolCode) needs a name: the model calls the tool by it",
+      "Node 'lookup' (ai.toolCode) needs a description: the model decides when to call the tool from it"
+    ]);
+  });
+
+  describe('in modules', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'n8n-dsl-'));
+      fs.writeFileSync(path.join(dir, 'assistant.n8n'), ASSISTANT);
+      fs.writeFileSync(path.join(dir, 'unattached.n8n'), `module "unattached" {
+  node agent "ai.agent" {}
+}`);
+    });
+
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    const workflow = (module: string) => `workflow "Modules" {
+  node chat "trigger.chat" {}
+  module helper = ${module}
+  connect chat -> helper
+}`;
+
+    it('enters a module at its first node in the flow, not at a sub-node', () => {
+      const result = new Compiler({ autoLayout: false, sourcePath: path.join(dir, 'main.n8n') })
+        .compile(workflow('./assistant.n8n { toolDescription: "Looks things up" }'));
+      expect(result.errors).toEqual([]);
+      expect(result.workflow!.connections.chat.main).toEqual([[{ node: 'helper.agent', type: 'main', index: 0 }]]);
+    });
+
+    it('checks the sub-nodes and tools of module nodes', () => {
+      const sourcePath = path.join(dir, 'main.n8n');
+      expect(messages(workflow('./assistant.n8n {}'), { sourcePath })).toEqual([
+        "Node 'helper.lookup' (@n8n/n8n-nodes-langchain.toolCode) needs a description: the model decides when to call the tool from it"
+      ]);
+      expect(messages(workflow('./unattached.n8n {}'), { sourcePath })).toEqual([
+        "Node 'helper.agent' (@n8n/n8n-nodes-langchain.agent) needs a languageModel sub-node: connect one to helper.agent.languageModel"
+      ]);
+    });
+  });
+});
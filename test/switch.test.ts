@@ -0,0 +1,103 @@
+import { Compiler } from '../src/compiler';
+import { Validator } from '../src/utils/validation';
+import { N8nWorkflow } from '../src/types/n8n';
+
+function compile(route: string) {
+  return new Compiler({ autoLayout: false }).compile(`workflow "Switch" {
+  node start "trigger.manual" {}
+  ${route}
+  node onA "data.set" {}
+  node rest "data.set" {}
+  connect start -> route
+  connect route.a -> onA
+  connect route.fallback -> rest
+}`);
+}
+
+describe('switch', () => {
+  it('gives each rule an output named after it, in order', () => {
+    const result = compile(`node route "flow.switch" {
+    rules: [
+      { condition: "\${start.output.kind == 'a'}", output: "a" },
+      { leftValue: start.output.kind, operator: "eq", rightValue: "b", output: "b" }
+    ]
+    fallback: true
+  }`);
+    expect(result.errors).toEqual([]);
+    const route = result.workflow!.nodes.find(node => node.name === 'route')!;
+    const rules = route.parameters.rules.values;
+    expect(rules.map((rule: any) => rule.outputKey)).toEqual(['a', 'b']);
+    expect(rules[0].conditions.conditions[0]).toMatchObject({ leftValue: '={{ $json.kind }}', rightValue: 'a' });
+    expect(route.parameters.options).toEqual({ fallbackOutput: 'extra' });
+
+    // The fallback comes after the two rule outputs
+    expect(result.workflow!.connections.route.main.map(targets => targets.map(target => target.node)))
+      .toEqual([['onA'], [], ['rest']]);
+  });
+
+  it('names the fallback output', () => {
+    const result = compile(`node route "flow.switch" {
+    rules: [{ condition: "\${start.output.kind == 'a'}", output: "a" }]
+    fallback: "other"
+  }`);
+    expect(result.errors).toEqual([]);
+    const route = result.workflow!.nodes.find(node => node.name === 'route')!;
+    expect(route.parameters.options).toEqual({ fallbackOutput: 'extra', renameFallbackOutput: 'other' });
+  });
+
+  it('numbers the rule output a fallback goes to from 1', () => {
+    const source = (fallback: number) => `workflow "Switch" {
+  node start "trigger.manual" {}
+  node route "flow.switch" {
+    rules: [
+      { condition: "\${start.output.kind == 'a'}", output: "a" },
+      { condition: "\${start.output.kind == 'b'}" }
+    ]
+    fallback: ${fallback}
+  }
+  node onB "data.set" {}
+  connect start -> route
+  connect route.output2 -> onB
+}`;
+    const result = new Compiler({ autoLayout: false }).compile(source(2));
+    expect(result.errors).toEqual([]);
+    expect(result.workflow!.nodes.find(node => node.name === 'route')!.parameters.options).toEqual({ fallbackOutput: 1 });
+
+    const outOfRange = new Compiler().compile(source(3));
+    expect(outOfRange.errors.map(error => error.message))
+      .toEqual(["Switch 'route' has no output 3 to send unmatched items to; its rules are numbered 1 to 2"]);
+  });
+
+  it('rejects two outputs with the same name', () => {
+    const twoRules = compile(`node route "flow.switch" {
+    rules: [
+      { condition: "\${start.output.kind == 'a'}", output: "a" },
+      { condition: "\${start.output.kind == 'A'}", output: "a" }
+    ]
+  }`);
+    expect(twoRules.errors.map(error => error.message)).toEqual(["Switch 'route' has two rules with output 'a'"]);
+
+    const fallback = compile(`node route "flow.switch" {
+    rules: [{ condition: "\${start.output.kind == 'a'}", output: "a" }]
+    fallback: "a"
+  }`);
+    expect(fallback.errors.map(error => error.message)).toEqual(["Switch 'route' has a rule and the fallback both named 'a'"]);
+    expect([fallback.errors[0].line, fallback.errors[0].column]).toEqual([5, 15]);
+  });
+
+  it('rejects a renamed fallback that repeats a rule output in n8n parameters', () => {
+    const workflow: N8nWorkflow = {
+      name: 'Raw',
+      nodes: [{
+        id: '1', name: 'route', type: 'n8n-nodes-base.switch', typeVersion: 3.2, position: [0, 0],
+        parameters: {
+          rules: { values: [{ renameOutput: true, outputKey: 'a' }] },
+          options: { fallbackOutput: 'extra', renameFallbackOutput: 'a' }
+        }
+      }],
+      connections: {}
+    };
+    expect(new Validator().validateN8nWorkflow(workflow).map(error => error.message))
+      .toEqual(["Switch 'route' has a rule and the fallback both named 'a'"]);
+  });
+});
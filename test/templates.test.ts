@@ -0,0 +1,92 @@
+import { Lexer, TokenType } from '../src/parser/lexer';
+import { Parser, ParseError } from '../src/parser/parser';
+import { Compiler } from '../src/compiler';
+import { format } from '../src/formatter/formatter';
+import { TemplateExpression } from '../src/types/dsl';
+
+function parameters(body: string): Record<string, any> {
+  const result = new Compiler({ autoLayout: false }).compile(`workflow "T" {
+  param limit number = 5
+  node start "trigger.manual" {}
+  node fetch "http.request" { url: "https://api.example.com" }
+  ${body}
+  connect start -> fetch -> last
+}`);
+  expect(result.errors).toEqual([]);
+  return result.workflow!.nodes.find(node => node.name === 'last')!.parameters;
+}
+
+function parseError(source: string): ParseError {
+  try {
+    new Parser(source).parse();
+  } catch (error) {
+    return error as ParseError;
+  }
+  throw new Error('Expected a parse error');
+}
+
+describe('template strings', () => {
+  it('splits interpolations out of strings with their positions', () => {
+    const [token] = new Lexer('"a ${b.c} d ${e}"').tokenize();
+    expect(token.type).toBe(TokenType.STRING);
+    expect(token.value).toBe('a ${b.c} d ${e}');
+    expect(token.parts).toEqual([
+      { kind: 'text', value: 'a ' },
+      { kind: 'interpolation', source: 'b.c', line: 1, column: 6 },
+      { kind: 'text', value: ' d ' },
+      { kind: 'interpolation', source: 'e', line: 1, column: 15 },
+      { kind: 'text', value: '' }
+    ]);
+  });
+
+  it('skips braces and quotes inside an interpolation', () => {
+    const [token] = new Lexer('"${f({ a: "}" })}"').tokenize();
+    expect(token.parts![1]).toMatchObject({ kind: 'interpolation', source: 'f({ a: "}" })' });
+  });
+
+  it('keeps an escaped interpolation as text', () => {
+    const [token] = new Lexer('"cost: \\${price}"').tokenize();
+    expect(token.value).toBe('cost: ${price}');
+    expect(token.parts).toBeUndefined();
+  });
+
+  it('reports syntax errors at their position inside the string', () => {
+    const error = parseError('workflow "T" {\n  node a "data.set" { x: "one ${b +} two" }\n}');
+    expect(error.message).toMatch(/^Unexpected token/);
+    expect([error.token.line, error.token.column]).toEqual([2, 36]);
+  });
+
+  it('reports an empty interpolation', () => {
+    expect(parseError('workflow "T" {\n  node a "data.set" { x: "${ }" }\n}').message).toBe('Empty interpolation at line 2, column 29');
+  });
+
+  it('substitutes compile-time values and translates node references', () => {
+    const params = parameters(`node last "data.set" { assignments: {
+      a: "limit \${limit}",
+      b: "total \${fetch.output.body.count * 2} of \${limit}",
+      c: fetch.output.body.items[0].name,
+      d: "\${start.output.id}"
+    } }`);
+    expect(params.assignments.assignments.map((item: any) => item.value)).toEqual([
+      'limit 5',
+      '=total {{ $json.body.count * 2 }} of 5',
+      '={{ $json.body.items[0].name }}',
+      "={{ $('start').item.json.id }}"
+    ]);
+  });
+
+  it('keeps JavaScript template literals in code verbatim', () => {
+    const params = parameters(
+      'node last "data.transform" { code: "return [{ json: { t: `${typeof items}`, n: `${items.length}`, e: `${}`, l: ${limit} } }];" }'
+    );
+    expect(params.jsCode).toBe('return [{ json: { t: `${typeof items}`, n: `${items.length}`, e: `${}`, l: 5 } }];');
+  });
+
+  it('formats verbatim code interpolations with the escape', () => {
+    const source = 'workflow "T" {\n  node a "data.transform" {\n    code: "x = `${typeof y}`"\n  }\n}\n';
+    const code = new Parser(source).parse().workflow!.nodes[0].parameters.code as TemplateExpression;
+    expect(code.expressions).toEqual([]);
+    expect(code.quasis).toEqual(['x = `${typeof y}`']);
+    expect(format(source)).toContain('code: "x = `\\${typeof y}`"');
+  });
+});
@@ -0,0 +1,87 @@
+import { Compiler } from '../src/compiler';
+import { N8nNode } from '../src/types/n8n';
+
+function compile(body: string) {
+  return new Compiler({ autoLayout: false }).compile(`workflow "Leads" {\n${body}\n}`);
+}
+
+function node(body: string, name: string): N8nNode {
+  const result = compile(body);
+  expect(result.errors).toEqual([]);
+  return result.workflow!.nodes.find(candidate => candidate.name === name)!;
+}
+
+const RESPONDING = `
+  node hook "trigger.webhook" { path: "/leads/process/", method: "post", responseMode: "responseNode" }
+  node reply "flow.respond" { body: { ok: true }, statusCode: 201 }
+  connect hook -> reply`;
+
+describe('webhook trigger', () => {
+  it('maps the DSL parameters to the n8n schema', () => {
+    const hook = node(`  node hook "trigger.webhook" {
+    path: "//leads//process/"
+    method: "post"
+    responseMode: "lastNode"
+    responseData: "allItems"
+    binary: true
+    allowedOrigins: ["https://a.example.com", "https://b.example.com"]
+  }`, 'hook');
+    expect(hook.type).toBe('n8n-nodes-base.webhook');
+    expect(hook.parameters).toEqual({
+      httpMethod: 'POST',
+      path: 'leads/process',
+      responseMode: 'lastNode',
+      responseData: 'allEntries',
+      options: { binaryPropertyName: 'data', allowedOrigins: 'https://a.example.com,https://b.example.com' }
+    });
+  });
+
+  it('gives the webhook a stable id and listens on it without a path', () => {
+    const first = node('  node hook "trigger.webhook" {}', 'hook');
+    expect(first.webhookId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(first.parameters.path).toBe(first.webhookId);
+    expect(node('  node hook "trigger.webhook" {}', 'hook').webhookId).toBe(first.webhookId);
+  });
+
+  it('takes the authentication method from its name or from the credential', () => {
+    expect(node('  node hook "trigger.webhook" { path: "x", authentication: "header" }', 'hook').parameters.authentication)
+      .toBe('headerAuth');
+    const hook = node(`  credential callers "httpBasicAuth" { id: "3", name: "Partners" }
+  node hook "trigger.webhook" { path: "x", credentials: callers }`, 'hook');
+    expect(hook.parameters.authentication).toBe('basicAuth');
+    expect(hook.credentials).toEqual({ httpBasicAuth: { id: '3', name: 'Partners' } });
+  });
+});
+
+describe('flow.respond', () => {
+  it('answers a webhook in responseNode mode', () => {
+    const reply = node(RESPONDING, 'reply');
+    expect(reply.type).toBe('n8n-nodes-base.respondToWebhook');
+    expect(reply.parameters).toEqual({
+      respondWith: 'json',
+      responseBody: JSON.stringify({ ok: true }, null, 2),
+      options: { responseCode: 201 }
+    });
+  });
+
+  it('must come after a webhook that waits for it', () => {
+    const messages = (body: string) => compile(body).errors.map(error => error.message);
+    expect(messages(RESPONDING.replace('responseNode', 'lastNode'))).toEqual([
+      `Node 'reply' (flow.respond) answers trigger 'hook', which needs responseMode: "responseNode"`
+    ]);
+    expect(messages(`
+  node start "trigger.manual" {}
+  node reply "flow.respond" {}
+  connect start -> reply`)).toEqual(["Node 'reply' (flow.respond) must come after a trigger.webhook or trigger.form node"]);
+  });
+
+  it('warns about a webhook left waiting for a response', () => {
+    const result = compile(`
+  node hook "trigger.webhook" { path: "leads", responseMode: "responseNode" }
+  node save "data.set" {}
+  connect hook -> save`);
+    expect(result.warnings.map(warning => warning.message)).toEqual([
+      `Webhook 'hook' has responseMode: "responseNode" but no flow.respond node after it`
+    ]);
+  });
+});